@@ -0,0 +1,187 @@
+/**
+ * Activity routes - add, edit, remove and reorder individual activities
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import {
+  AddActivitiesRequestSchema,
+  AddActivitiesResponseSchema,
+  UpdateActivityRequestSchema,
+  ActivityResponseSchema,
+  ReorderActivitiesRequestSchema,
+  ListActivitiesResponseSchema,
+} from "@adaptive/types";
+import type { TripStore } from "../store/index.js";
+import * as sseHub from "../realtime/sseHub.js";
+import { supersedeSuggestionsWithActivity } from "../services/recompute.service.js";
+import { resolveTripDay } from "../utils/days.js";
+
+/**
+ * Register activity routes
+ */
+export async function registerActivityRoutes(app: FastifyInstance, store: TripStore) {
+  // POST /trip/:tripId/activities - Append one or more activities to a trip
+  app.post(
+    "/trip/:tripId/activities",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = AddActivitiesRequestSchema.parse(request.body);
+
+        // Verify trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        // Activities pinned to a day must fall within the trip
+        if (body.activities.some((a) => a.date !== undefined && !resolveTripDay(tripData.trip, a.date))) {
+          return reply.code(400).send({ error: "Activity date is not part of this trip" });
+        }
+
+        const activities = await store.addActivities(tripId, body.activities);
+
+        sseHub.emit(tripId, "activity:added", { activities });
+
+        const response = AddActivitiesResponseSchema.parse({
+          ok: true,
+          count: activities.length,
+          activities,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error adding activities:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // PATCH /trip/:tripId/activities/:activityId - Change duration, locked or place
+  app.patch(
+    "/trip/:tripId/activities/:activityId",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; activityId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, activityId } = request.params;
+        const patch = UpdateActivityRequestSchema.parse(request.body);
+
+        // Verify trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        if (patch.date && !resolveTripDay(tripData.trip, patch.date)) {
+          return reply.code(400).send({ error: "Activity date is not part of this trip" });
+        }
+
+        const activity = await store.updateActivity(tripId, activityId, patch);
+        if (!activity) {
+          return reply.code(404).send({ error: "Activity not found" });
+        }
+
+        sseHub.emit(tripId, "activity:updated", { activity });
+
+        const response = ActivityResponseSchema.parse({ activity });
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error updating activity:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // DELETE /trip/:tripId/activities/:activityId - Remove a single activity
+  // Saved itineraries are left as they are: the days that still visit the
+  // activity come back as `affectedDates` and need generating again
+  app.delete(
+    "/trip/:tripId/activities/:activityId",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; activityId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, activityId } = request.params;
+
+        // Verify trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const removed = await store.removeActivity(tripId, activityId);
+        if (!removed) {
+          return reply.code(404).send({ error: "Activity not found" });
+        }
+
+        const affectedDates = tripData.latestItineraries
+          .filter((record) => record.itinerary.items.some((item) => item.activityId === activityId))
+          .map((record) => record.date);
+        await supersedeSuggestionsWithActivity(store, tripId, activityId);
+
+        sseHub.emit(tripId, "activity:removed", { activityId, affectedDates });
+
+        return reply.send({ ok: true, affectedDates });
+      } catch (error) {
+        console.error("Error removing activity:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // PUT /trip/:tripId/activities/order - Reorder all activities of a trip
+  app.put(
+    "/trip/:tripId/activities/order",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const { activityIds } = ReorderActivitiesRequestSchema.parse(request.body);
+
+        // Verify trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        // The new order must be a permutation of the current activities
+        const currentIds = new Set(tripData.activities.map((a) => a.activityId));
+        const isPermutation =
+          activityIds.length === currentIds.size &&
+          new Set(activityIds).size === activityIds.length &&
+          activityIds.every((id) => currentIds.has(id));
+        if (!isPermutation) {
+          return reply
+            .code(400)
+            .send({ error: "activityIds must list every activity of the trip exactly once" });
+        }
+
+        const activities = await store.reorderActivities(tripId, activityIds);
+
+        sseHub.emit(tripId, "activities:reordered", { activityIds });
+
+        const response = ListActivitiesResponseSchema.parse({ activities });
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error reordering activities:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
@@ -5,7 +5,9 @@ import {
   computeDefaultReward,
   getTripsAffectedByReport,
 } from "../services/community-signals.service.js";
+import { getMatrixCache } from "../services/matrix-cache.service.js";
 import { recomputeTripSuggestions } from "../services/recompute.service.js";
+import type { TripStore } from "../store/index.js";
 
 function isAdminAuthorized(request: FastifyRequest): boolean {
   const headerValue = request.headers["x-admin-key"];
@@ -21,7 +23,7 @@ function rejectIfUnauthorized(request: FastifyRequest, reply: FastifyReply): boo
   return false;
 }
 
-export async function registerAdminRoutes(app: FastifyInstance) {
+export async function registerAdminRoutes(app: FastifyInstance, store: TripStore) {
   app.get(
     "/admin/reports",
     async (
@@ -127,7 +129,7 @@ export async function registerAdminRoutes(app: FastifyInstance) {
         return { report, reward, contributor };
       });
 
-      const affectedTrips = await getTripsAffectedByReport({
+      const affectedTrips = await getTripsAffectedByReport(store, {
         lat: result.report.lat,
         lng: result.report.lng,
       });
@@ -138,7 +140,7 @@ export async function registerAdminRoutes(app: FastifyInstance) {
           reportId: result.report.id,
         });
         try {
-          await recomputeTripSuggestions(tripId);
+          await recomputeTripSuggestions(store, tripId);
         } catch (error) {
           app.log.error({ error, tripId }, "Failed to recompute suggestions after community approval");
         }
@@ -194,4 +196,10 @@ export async function registerAdminRoutes(app: FastifyInstance) {
       return reply.send({ ok: true, report, contributor });
     }
   );
+
+  // Duration matrix cache hit/miss counters since the API started
+  app.get("/admin/matrix-cache/stats", async (request: FastifyRequest, reply: FastifyReply) => {
+    if (rejectIfUnauthorized(request, reply)) return;
+    return reply.send({ stats: getMatrixCache().getStats() });
+  });
 }
@@ -0,0 +1,437 @@
+/**
+ * Itinerary routes - version history, diffs, rollback, break removal, route geometry and validation
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import {
+  ItineraryDiffResponseSchema,
+  ItineraryRouteResponseSchema,
+  ItineraryVersionSchema,
+  ListItineraryVersionsResponseSchema,
+  RemoveBreakResponseSchema,
+  RollbackItineraryRequestSchema,
+  RollbackItineraryResponseSchema,
+  RoutingProviderNameSchema,
+  ValidateItineraryRequestSchema,
+  ValidateItineraryResponseSchema,
+  type Itinerary,
+  type ItinerarySource,
+} from "@adaptive/types";
+import type { TripStore } from "../store/index.js";
+import * as sseHub from "../realtime/sseHub.js";
+import { removeBreak } from "../services/breaks.service.js";
+import { buildPlanDiff } from "../services/diff.service.js";
+import { supersedeStaleSuggestions } from "../services/recompute.service.js";
+import { buildRouteLegs, getRoutingProvider } from "../services/routing.service.js";
+import { buildAppliedItinerary } from "../services/suggestion.service.js";
+import { validateItinerary } from "../services/itinerary-validation.service.js";
+import { resolveTripDay, tripForDay } from "../utils/days.js";
+
+/**
+ * Parse a version path/query parameter, returning null when it is not a positive integer
+ */
+function parseVersionParam(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const version = Number.parseInt(value, 10);
+  return version > 0 ? version : null;
+}
+
+/**
+ * Register itinerary routes
+ */
+export async function registerItineraryRoutes(app: FastifyInstance, store: TripStore) {
+  // GET /trip/:tripId/itinerary/versions?date= - List itinerary versions, optionally for one day
+  app.get(
+    "/trip/:tripId/itinerary/versions",
+    async (
+      request: FastifyRequest<{
+        Params: { tripId: string };
+        Querystring: { date?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const { date } = request.query;
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const versions = await store.listItineraryVersions(tripId, date);
+        const response = ListItineraryVersionsResponseSchema.parse({ versions });
+
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error listing itinerary versions:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // GET /trip/:tripId/itinerary/versions/:version - Get a single itinerary version
+  app.get(
+    "/trip/:tripId/itinerary/versions/:version",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; version: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const version = parseVersionParam(request.params.version);
+        if (version === null) {
+          return reply.code(400).send({ error: "Version must be a positive integer" });
+        }
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const record = await store.getItineraryVersion(tripId, version);
+        if (!record) {
+          return reply.code(404).send({ error: "Itinerary version not found" });
+        }
+
+        const response = ItineraryVersionSchema.parse(record);
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error getting itinerary version:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // GET /trip/:tripId/itinerary/diff?from=&to= - Diff two itinerary versions
+  app.get(
+    "/trip/:tripId/itinerary/diff",
+    async (
+      request: FastifyRequest<{
+        Params: { tripId: string };
+        Querystring: { from?: string; to?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const from = parseVersionParam(request.query.from);
+        const to = parseVersionParam(request.query.to);
+        if (from === null || to === null) {
+          return reply
+            .code(400)
+            .send({ error: "Query parameters 'from' and 'to' must be positive integers" });
+        }
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const [fromRecord, toRecord] = await Promise.all([
+          store.getItineraryVersion(tripId, from),
+          store.getItineraryVersion(tripId, to),
+        ]);
+        if (!fromRecord || !toRecord) {
+          return reply.code(404).send({ error: "Itinerary version not found" });
+        }
+        // Versions of different days share no stops to compare
+        if (fromRecord.date !== toRecord.date) {
+          return reply.code(400).send({ error: "Itinerary versions are for different days" });
+        }
+
+        const diff = buildPlanDiff(fromRecord.itinerary.items, toRecord.itinerary.items, {
+          before: fromRecord.itinerary.returnTravelMin,
+          after: toRecord.itinerary.returnTravelMin,
+        });
+        const response = ItineraryDiffResponseSchema.parse({ from, to, diff });
+
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error diffing itinerary versions:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/itinerary/rollback - Restore an older version as a new version
+  app.post(
+    "/trip/:tripId/itinerary/rollback",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = RollbackItineraryRequestSchema.parse(request.body);
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const target = await store.getItineraryVersion(tripId, body.version);
+        if (!target) {
+          return reply.code(404).send({ error: "Itinerary version not found" });
+        }
+
+        // History is append-only: the restored plan becomes the newest version
+        const source: ItinerarySource = { type: "rollback", fromVersion: target.version };
+        const itinerary = structuredClone(target.itinerary);
+        const newVersion = await store.addItineraryVersion(tripId, target.date, itinerary, source);
+        await supersedeStaleSuggestions(store, tripId);
+
+        // Emit SSE event for new itinerary version
+        sseHub.emit(tripId, "itinerary:version", {
+          version: newVersion,
+          date: target.date,
+          itinerary,
+          source,
+        });
+
+        const response = RollbackItineraryResponseSchema.parse({
+          version: newVersion,
+          date: target.date,
+          itinerary,
+          source,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error rolling back itinerary:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // DELETE /trip/:tripId/itinerary/breaks/:itemId?date= - Remove a system-added meal or rest break
+  // Later items move back only when the leg after a removed meal gets longer
+  app.delete(
+    "/trip/:tripId/itinerary/breaks/:itemId",
+    async (
+      request: FastifyRequest<{
+        Params: { tripId: string; itemId: string };
+        Querystring: { date?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, itemId } = request.params;
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const day = resolveTripDay(tripData.trip, request.query.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
+        const latest = await store.getLatestItinerary(tripId, day.date);
+        const item = latest?.itinerary.items.find((candidate) => candidate.activityId === itemId);
+        if (!latest || !item) {
+          return reply.code(404).send({ error: "Itinerary item not found" });
+        }
+        if (!item.systemAdded) {
+          return reply.code(400).send({ error: "Only system-added breaks can be removed" });
+        }
+
+        const { trip, activities } = tripData;
+        const provider = getRoutingProvider(trip.city, latest.itinerary.optimization?.routingProvider);
+        const itinerary = await removeBreak(
+          structuredClone(latest.itinerary),
+          itemId,
+          activities,
+          provider,
+          trip.baseLocation,
+          trip.endLocation ?? trip.baseLocation
+        );
+
+        // Never save a plan the traveler cannot follow; a day already running
+        // past its end may stay late, since dropping a break only helps it catch up
+        const dayTrip = tripForDay(trip, day);
+        const overran = validateItinerary(latest.itinerary, { trip: dayTrip, activities }).errors.some(
+          (issue) => issue.code === "after_trip_end"
+        );
+        const validation = validateItinerary(itinerary, { trip: dayTrip, activities, allowOverrun: overran });
+        if (!validation.valid) {
+          return reply.code(409).send({
+            error: "Removing the break would make the itinerary infeasible",
+            errors: validation.errors,
+          });
+        }
+
+        const source: ItinerarySource = { type: "manual" };
+        const newVersion = await store.addItineraryVersion(tripId, day.date, itinerary, source);
+        await supersedeStaleSuggestions(store, tripId);
+
+        // Emit SSE event for new itinerary version
+        sseHub.emit(tripId, "itinerary:version", {
+          version: newVersion,
+          date: day.date,
+          itinerary,
+          source,
+        });
+
+        const response = RemoveBreakResponseSchema.parse({
+          version: newVersion,
+          date: day.date,
+          itinerary,
+          source,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error removing itinerary break:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // GET /trip/:tripId/itinerary/route?date=&provider= - Road geometry for each leg of the latest plan
+  // Defaults to the provider the plan was optimized with
+  app.get(
+    "/trip/:tripId/itinerary/route",
+    async (
+      request: FastifyRequest<{
+        Params: { tripId: string };
+        Querystring: { date?: string; provider?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+
+        const requested =
+          request.query.provider === undefined
+            ? undefined
+            : RoutingProviderNameSchema.safeParse(request.query.provider);
+        if (requested && !requested.success) {
+          return reply.code(400).send({ error: "Unknown routing provider" });
+        }
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const { trip, activities } = tripData;
+        const day = resolveTripDay(trip, request.query.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
+        const latest = await store.getLatestItinerary(tripId, day.date);
+        if (!latest) {
+          return reply.code(404).send({ error: "No itinerary for this date" });
+        }
+
+        const provider = getRoutingProvider(
+          trip.city,
+          requested?.data ?? latest.itinerary.optimization?.routingProvider
+        );
+        const legs = await buildRouteLegs(
+          provider,
+          latest.itinerary,
+          activities,
+          trip.baseLocation,
+          trip.endLocation ?? trip.baseLocation
+        );
+
+        const response = ItineraryRouteResponseSchema.parse({
+          date: day.date,
+          version: latest.version,
+          routingProvider: provider.name,
+          legs,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error building itinerary route:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/itinerary/validate - Check a plan is feasible: the day's latest
+  // itinerary, what applying a suggestion would save, or an itinerary edited by the client
+  app.post(
+    "/trip/:tripId/itinerary/validate",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = ValidateItineraryRequestSchema.parse(request.body ?? {});
+
+        // Check if trip exists
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const { trip, activities } = tripData;
+        const suggestion = body.suggestionId ? await store.getSuggestion(tripId, body.suggestionId) : undefined;
+        if (body.suggestionId && !suggestion) {
+          return reply.code(404).send({ error: "Suggestion not found" });
+        }
+
+        const day = resolveTripDay(trip, suggestion?.date ?? body.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
+        const dayTrip = tripForDay(trip, day);
+        const latest = (await store.getLatestItinerary(tripId, day.date)) ?? undefined;
+
+        let itinerary: Itinerary;
+        if (suggestion) {
+          const applied = latest && buildAppliedItinerary(suggestion, latest, dayTrip, activities);
+          if (!applied) {
+            return reply.code(409).send({ error: "Suggestion is based on an outdated itinerary" });
+          }
+          itinerary = applied;
+        } else if (body.itinerary) {
+          itinerary = body.itinerary;
+        } else if (latest) {
+          itinerary = latest.itinerary;
+        } else {
+          return reply.code(404).send({ error: "No itinerary for this date" });
+        }
+
+        // A plan that would replace the latest version must keep its locked activities in place
+        const reference = itinerary === latest?.itinerary ? undefined : latest?.itinerary.items;
+        const validation = validateItinerary(itinerary, {
+          trip: dayTrip,
+          activities,
+          reference,
+          allowOverrun: suggestion?.trigger === "delay",
+        });
+
+        const response = ValidateItineraryResponseSchema.parse({
+          ...validation,
+          date: day.date,
+          version: latest?.version,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error validating itinerary:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
@@ -7,6 +7,7 @@ import {
 } from "@adaptive/types";
 import { searchPlacesFoursquare } from "@adaptive/integrations";
 import { getCategoriesForInterests, filterPlacesByPreferences, resolveAvoidKeywords } from "../utils/categories.js";
+import { rankPlacesByBudget } from "../utils/preferences.js";
 
 export async function registerPlacesRoutes(app: FastifyInstance) {
   // POST /places/search - Search for places
@@ -14,7 +15,7 @@ export async function registerPlacesRoutes(app: FastifyInstance) {
     try {
       // Validate request body
       const body = PlacesSearchRequestSchema.parse(req.body);
-      const { query, near, radiusKm = 10, categories, limit = 20, interests = [], avoid = [] } = body;
+      const { query, near, radiusKm = 10, categories, limit = 20, interests = [], avoid = [], budget } = body;
 
       const apiKey = process.env.FOURSQUARE_API_KEY || "";
 
@@ -51,6 +52,11 @@ export async function registerPlacesRoutes(app: FastifyInstance) {
         places = filtered.matched;
       }
 
+      // Drop places above the budget and rank the rest by price tier
+      if (budget) {
+        places = rankPlacesByBudget(places, budget);
+      }
+
       const response = PlacesSearchResponseSchema.parse({ places });
       return reply.code(200).send(response);
     } catch (error) {
@@ -85,6 +91,7 @@ function generateMockPlaces(
       lng: near.lng + 0.01,
       category: "Tourist Attraction",
       address: "123 Main St",
+      priceTier: 1,
     },
     {
       provider: "mock",
@@ -94,6 +101,7 @@ function generateMockPlaces(
       lng: near.lng + 0.01,
       category: "Museum",
       address: "456 Oak Ave",
+      priceTier: 2,
     },
     {
       provider: "mock",
@@ -0,0 +1,214 @@
+/**
+ * Progress routes - check in and out of activities, report location, and see how the day is going
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import {
+  CheckInRequestSchema,
+  CheckOutRequestSchema,
+  LocationPingRequestSchema,
+  TripProgressResponseSchema,
+  type ActivityVisit,
+} from "@adaptive/types";
+import type { TripStore } from "../store/index.js";
+import * as sseHub from "../realtime/sseHub.js";
+import { checkTripProgress } from "../services/recompute.service.js";
+import { getTripProgress } from "../services/progress.service.js";
+import { currentTripDay, resolveTripDay } from "../utils/days.js";
+
+/**
+ * Register progress routes
+ */
+export async function registerProgressRoutes(app: FastifyInstance, store: TripStore) {
+  // Re-assess the day after new evidence and tell connected clients
+  async function respondWithProgress(reply: FastifyReply, tripId: string, date: string, now: Date) {
+    const { progress, suggestion } = await checkTripProgress(store, tripId, date, now);
+    sseHub.emit(tripId, "progress:update", progress);
+    return reply.send(TripProgressResponseSchema.parse({ progress, suggestion }));
+  }
+
+  // POST /trip/:tripId/activities/:activityId/checkin - The traveler arrived at an activity
+  app.post(
+    "/trip/:tripId/activities/:activityId/checkin",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; activityId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, activityId } = request.params;
+        const body = CheckInRequestSchema.parse(request.body ?? {});
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const activity = tripData.activities.find((a) => a.activityId === activityId);
+        if (!activity) {
+          return reply.code(404).send({ error: "Activity not found" });
+        }
+
+        // The trip clock is UTC, like the worker's
+        const at = body.at ? new Date(body.at) : new Date();
+        const day = resolveTripDay(tripData.trip, at.toISOString().slice(0, 10));
+        if (!day) {
+          return reply.code(400).send({ error: "The trip is not underway on this date" });
+        }
+
+        const visits = await store.getActivityVisits(tripId, day.date);
+        if (visits.some((visit) => visit.activityId === activityId)) {
+          return reply.code(409).send({ error: "Already checked in to this activity today" });
+        }
+
+        // Arriving somewhere new means the traveler left wherever they forgot to check out of
+        for (const open of visits.filter((visit) => !visit.checkedOutAt)) {
+          await store.saveActivityVisit(tripId, checkOut(open, at));
+        }
+
+        const latest = await store.getLatestItinerary(tripId, day.date);
+        const planned = latest?.itinerary.items.find((item) => item.activityId === activityId);
+        await store.saveActivityVisit(tripId, {
+          activityId,
+          date: day.date,
+          checkedInAt: at.toISOString(),
+          plannedStart: planned?.startTime,
+          plannedEnd: planned?.endTime,
+          category: activity.place.category,
+        });
+
+        return await respondWithProgress(reply, tripId, day.date, at);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error checking in:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/activities/:activityId/checkout - The traveler left an activity
+  app.post(
+    "/trip/:tripId/activities/:activityId/checkout",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; activityId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, activityId } = request.params;
+        const body = CheckOutRequestSchema.parse(request.body ?? {});
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const at = body.at ? new Date(body.at) : new Date();
+        const day = resolveTripDay(tripData.trip, at.toISOString().slice(0, 10));
+        if (!day) {
+          return reply.code(400).send({ error: "The trip is not underway on this date" });
+        }
+
+        const visit = (await store.getActivityVisits(tripId, day.date)).find((v) => v.activityId === activityId);
+        if (!visit || visit.checkedOutAt) {
+          return reply.code(409).send({ error: "Not checked in to this activity" });
+        }
+        if (at.getTime() < new Date(visit.checkedInAt).getTime()) {
+          return reply.code(400).send({ error: "Check-out cannot be before check-in" });
+        }
+
+        await store.saveActivityVisit(tripId, checkOut(visit, at));
+
+        return await respondWithProgress(reply, tripId, day.date, at);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error checking out:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/location - Optional periodic location ping
+  app.post(
+    "/trip/:tripId/location",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = LocationPingRequestSchema.parse(request.body);
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const at = body.at ? new Date(body.at) : new Date();
+        const day = resolveTripDay(tripData.trip, at.toISOString().slice(0, 10));
+        if (!day) {
+          return reply.code(400).send({ error: "The trip is not underway on this date" });
+        }
+
+        await store.addLocationPing(tripId, { location: body.location, recordedAt: at.toISOString() });
+
+        return await respondWithProgress(reply, tripId, day.date, at);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error recording location:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // GET /trip/:tripId/progress?date= - Visits and lateness for a day; today (or the first day) by default
+  app.get(
+    "/trip/:tripId/progress",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string }; Querystring: { date?: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const day = request.query.date
+          ? resolveTripDay(tripData.trip, request.query.date)
+          : currentTripDay(tripData.trip);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
+        const latest = (await store.getLatestItinerary(tripId, day.date)) ?? undefined;
+        const { progress } = await getTripProgress(
+          store,
+          tripId,
+          day.date,
+          tripData.activities,
+          latest,
+          new Date()
+        );
+
+        return reply.send(TripProgressResponseSchema.parse({ progress }));
+      } catch (error) {
+        console.error("Error getting trip progress:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+}
+
+/**
+ * A visit closed at `at`, with how long it really took
+ */
+function checkOut(visit: ActivityVisit, at: Date): ActivityVisit {
+  const actualDurationMin = Math.max(0, Math.round((at.getTime() - new Date(visit.checkedInAt).getTime()) / 60000));
+  return { ...visit, checkedOutAt: at.toISOString(), actualDurationMin };
+}
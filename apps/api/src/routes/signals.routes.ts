@@ -8,42 +8,52 @@ import {
   UpsertCrowdSignalRequestSchema,
   UpsertTransitSignalRequestSchema,
 } from "@adaptive/types";
-import * as store from "../store/store.js";
+import type { TripStore } from "../store/index.js";
 import * as sseHub from "../realtime/sseHub.js";
 import { getCommunitySignalsForTrip } from "../services/community-signals.service.js";
+import { resolveTripDay } from "../utils/days.js";
 
 /**
  * Register signals routes
  */
-export async function registerSignalsRoutes(app: FastifyInstance) {
-  // GET /trip/:tripId/signals - Get current signals for a trip
+export async function registerSignalsRoutes(app: FastifyInstance, store: TripStore) {
+  // GET /trip/:tripId/signals?date= - Get current signals for one day of a trip (default: first day)
   app.get(
     "/trip/:tripId/signals",
     async (
-      request: FastifyRequest<{ Params: { tripId: string } }>,
+      request: FastifyRequest<{
+        Params: { tripId: string };
+        Querystring: { date?: string };
+      }>,
       reply: FastifyReply
     ) => {
       try {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
 
+        const day = resolveTripDay(tripData.trip, request.query.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
         // Get weather signal
-        const weatherSignal = store.getWeatherSignal(tripId);
+        const weatherSignal = await store.getWeatherSignal(tripId, day.date);
         
         // Get crowd signals
-        const crowdSignal = store.getCrowdSignals(tripId);
+        const crowdSignal = await store.getCrowdSignals(tripId, day.date);
         
         // Get transit signals
-        const transitSignal = store.getTransitSignals(tripId);
+        const transitSignal = await store.getTransitSignals(tripId, day.date);
 
-        const communityReports = await getCommunitySignalsForTrip(tripId);
+        const communityReports = await getCommunitySignalsForTrip(store, tripId);
 
         const response = SignalsResponseSchema.parse({
+          date: day.date,
           weather: weatherSignal
             ? {
                 summary: weatherSignal.summary,
@@ -79,7 +89,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -87,8 +97,13 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         // Validate request body
         const body = UpsertWeatherSignalRequestSchema.parse(request.body);
 
+        const day = resolveTripDay(tripData.trip, body.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
         // Store weather signal
-        store.upsertWeatherSignal(tripId, {
+        await store.upsertWeatherSignal(tripId, day.date, {
           observedAt: body.observedAt,
           summary: body.weather.summary,
           riskHours: body.weather.riskHours,
@@ -97,6 +112,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
 
         // Emit SSE event
         sseHub.emit(tripId, "signal:update", {
+          date: day.date,
           weather: {
             summary: body.weather.summary,
             riskHours: body.weather.riskHours,
@@ -125,7 +141,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -133,8 +149,13 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         // Validate request body
         const body = UpsertCrowdSignalRequestSchema.parse(request.body);
 
+        const day = resolveTripDay(tripData.trip, body.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
         // Store crowd signals
-        store.upsertCrowdSignals(tripId, {
+        await store.upsertCrowdSignals(tripId, day.date, {
           observedAt: body.observedAt,
           crowds: body.crowds,
           raw: body.raw,
@@ -145,6 +166,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         // Emit SSE event
         sseHub.emit(tripId, "signal:update", {
           type: "crowds",
+          date: day.date,
           observedAt: body.observedAt,
         });
 
@@ -170,7 +192,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -178,8 +200,13 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         // Validate request body
         const body = UpsertTransitSignalRequestSchema.parse(request.body);
 
+        const day = resolveTripDay(tripData.trip, body.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
         // Store transit signals
-        store.upsertTransitSignals(tripId, {
+        await store.upsertTransitSignals(tripId, day.date, {
           observedAt: body.observedAt,
           alerts: body.transit.alerts,
           raw: body.raw,
@@ -190,6 +217,7 @@ export async function registerSignalsRoutes(app: FastifyInstance) {
         // Emit SSE event
         sseHub.emit(tripId, "signal:update", {
           type: "transit",
+          date: day.date,
           observedAt: body.observedAt,
         });
 
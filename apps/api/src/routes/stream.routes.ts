@@ -2,14 +2,15 @@
  * Stream routes - Server-Sent Events for real-time updates
  */
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import * as store from "../store/store.js";
+import type { TripStore } from "../store/index.js";
 import * as sseHub from "../realtime/sseHub.js";
 import { getCommunitySignalsForTrip } from "../services/community-signals.service.js";
+import { currentTripDay } from "../utils/days.js";
 
 /**
  * Register stream routes
  */
-export async function registerStreamRoutes(app: FastifyInstance) {
+export async function registerStreamRoutes(app: FastifyInstance, store: TripStore) {
   // GET /trip/:tripId/stream - SSE endpoint for trip updates
   app.get(
     "/trip/:tripId/stream",
@@ -20,7 +21,7 @@ export async function registerStreamRoutes(app: FastifyInstance) {
       const { tripId } = request.params;
 
       // Check if trip exists
-      const tripData = store.getTrip(tripId);
+      const tripData = await store.getTrip(tripId);
       if (!tripData) {
         app.log.warn(`SSE connection attempted for non-existent trip: ${tripId}`);
         return reply.code(404).send({ error: "Trip not found" });
@@ -39,10 +40,12 @@ export async function registerStreamRoutes(app: FastifyInstance) {
       // Register client
       sseHub.addClient(tripId, reply.raw);
 
-      // Send initial ping with current weather signal
-      const weatherSignal = store.getWeatherSignal(tripId);
-      const communityReports = await getCommunitySignalsForTrip(tripId);
+      // Send initial ping with the weather signal for today (or the first trip day)
+      const day = currentTripDay(tripData.trip);
+      const weatherSignal = await store.getWeatherSignal(tripId, day.date);
+      const communityReports = await getCommunitySignalsForTrip(store, tripId);
       const initialData = {
+        date: day.date,
         weather: weatherSignal
           ? {
               summary: weatherSignal.summary,
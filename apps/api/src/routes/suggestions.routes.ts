@@ -10,17 +10,18 @@ import {
   ApplySuggestionResponseSchema,
   type Suggestion,
   type FeedbackRequest,
-  type Itinerary,
-  type ItineraryItem,
 } from "@adaptive/types";
-import * as store from "../store/store.js";
+import type { TripStore } from "../store/index.js";
 import * as sseHub from "../realtime/sseHub.js";
-import { parseHHMM, formatHHMM } from "../utils/time.js";
+import { buildAppliedItinerary } from "../services/suggestion.service.js";
+import { validateItinerary } from "../services/itinerary-validation.service.js";
+import { supersedeStaleSuggestions } from "../services/recompute.service.js";
+import { resolveTripDay, tripForDay } from "../utils/days.js";
 
 /**
  * Register suggestions routes
  */
-export async function registerSuggestionsRoutes(app: FastifyInstance) {
+export async function registerSuggestionsRoutes(app: FastifyInstance, store: TripStore) {
   // GET /trip/:tripId/suggestions - List suggestions for a trip
   app.get(
     "/trip/:tripId/suggestions",
@@ -36,13 +37,13 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const { status } = request.query;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
 
         // Get suggestions
-        const suggestions = store.listSuggestions(tripId, status);
+        const suggestions = await store.listSuggestions(tripId, status);
 
         const response = ListSuggestionsResponseSchema.parse({
           suggestions,
@@ -67,7 +68,7 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -76,7 +77,7 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const suggestion = SuggestionSchema.parse(request.body) as Suggestion;
 
         // Store suggestion
-        store.addSuggestion(tripId, suggestion);
+        await store.addSuggestion(tripId, suggestion);
 
         // Emit SSE event
         sseHub.emit(tripId, "suggestion:new", suggestion);
@@ -103,7 +104,7 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -112,17 +113,17 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const feedback = FeedbackRequestSchema.parse(request.body) as FeedbackRequest;
 
         // Get the suggestion
-        const suggestion = store.getSuggestion(tripId, feedback.suggestionId);
+        const suggestion = await store.getSuggestion(tripId, feedback.suggestionId);
         if (!suggestion) {
           return reply.code(404).send({ error: "Suggestion not found" });
         }
 
         // Update suggestion status
         const newStatus = feedback.action === "accept" ? "accepted" : "rejected";
-        store.setSuggestionStatus(tripId, feedback.suggestionId, newStatus);
+        await store.setSuggestionStatus(tripId, feedback.suggestionId, newStatus);
 
         // Update weights based on feedback
-        const updatedWeights = store.updateWeights(tripId, {
+        const updatedWeights = await store.updateWeights(tripId, {
           trigger: suggestion.trigger,
           accepted: feedback.action === "accept",
         });
@@ -156,13 +157,13 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
         const { tripId, suggestionId } = request.params;
 
         // Check if trip exists
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
 
         // Get the suggestion
-        const suggestion = store.getSuggestion(tripId, suggestionId);
+        const suggestion = await store.getSuggestion(tripId, suggestionId);
         if (!suggestion) {
           return reply.code(404).send({ error: "Suggestion not found" });
         }
@@ -175,51 +176,61 @@ export async function registerSuggestionsRoutes(app: FastifyInstance) {
           });
         }
 
-        // Get trip start time for recalculating
-        const tripStartMin = parseHHMM(tripData.trip.startTime);
-
-        // Recalculate times based on new order
-        const recalculatedItems: ItineraryItem[] = [];
-        let currentTimeMin = tripStartMin;
-
-        for (let i = 0; i < suggestion.afterPlan.items.length; i++) {
-          const item = suggestion.afterPlan.items[i];
-          const travelFromPrevMin = i === 0 ? 0 : item.travelFromPrevMin;
-          const startTime = currentTimeMin + travelFromPrevMin;
-          const endTime = startTime + (parseHHMM(item.endTime) - parseHHMM(item.startTime));
+        const day = resolveTripDay(tripData.trip, suggestion.date);
+        if (!day) {
+          return reply.code(409).send({ error: "Suggestion day is no longer part of this trip" });
+        }
 
-          recalculatedItems.push({
-            ...item,
-            startTime: formatHHMM(startTime),
-            endTime: formatHHMM(endTime),
-            travelFromPrevMin,
+        // The itinerary may have moved on since the suggestion was made
+        const latest = (await store.getLatestItinerary(tripId, day.date)) ?? undefined;
+        const dayTrip = tripForDay(tripData.trip, day);
+        const newItinerary = latest ? buildAppliedItinerary(suggestion, latest, dayTrip, tripData.activities) : null;
+        if (!latest || !newItinerary) {
+          await store.setSuggestionStatus(tripId, suggestionId, "superseded");
+          sseHub.emit(tripId, "suggestion:superseded", {
+            suggestionId,
+            latestVersion: latest?.version ?? null,
+          });
+          return reply.code(409).send({
+            error: "Suggestion is based on an outdated itinerary",
+            baseVersion: suggestion.beforePlan.version,
+            latestVersion: latest?.version ?? null,
           });
-
-          currentTimeMin = endTime;
         }
 
-        // Create new itinerary version from recalculated items
-        const newItinerary: Itinerary = {
-          items: recalculatedItems,
-          totalTravelMin: recalculatedItems.reduce(
-            (sum, item) => sum + item.travelFromPrevMin, 
-            0
-          ),
-        };
+        // Never save a plan the traveler cannot follow; the suggestion itself is left as it is
+        const validation = validateItinerary(newItinerary, {
+          trip: dayTrip,
+          activities: tripData.activities,
+          reference: latest.itinerary.items,
+          allowOverrun: suggestion.trigger === "delay",
+        });
+        if (!validation.valid) {
+          return reply.code(409).send({
+            error: "Suggestion would make the itinerary infeasible",
+            errors: validation.errors,
+          });
+        }
 
-        const newVersion = store.addItineraryVersion(tripId, newItinerary);
+        const newVersion = await store.addItineraryVersion(tripId, day.date, newItinerary, {
+          type: "suggestion",
+          suggestionId,
+        });
 
-        // Update suggestion status to applied
-        store.setSuggestionStatus(tripId, suggestionId, "applied");
+        await store.markSuggestionApplied(tripId, suggestionId, newVersion);
+        await supersedeStaleSuggestions(store, tripId);
 
         // Emit SSE event for new itinerary version
         sseHub.emit(tripId, "itinerary:version", { 
           version: newVersion,
+          date: day.date,
           itinerary: newItinerary,
+          source: { type: "suggestion", suggestionId },
         });
 
         const response = ApplySuggestionResponseSchema.parse({
           version: newVersion,
+          date: day.date,
           itinerary: newItinerary,
         });
 
@@ -5,25 +5,40 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import {
   CreateTripRequestSchema,
   CreateTripResponseSchema,
-  AddActivitiesRequestSchema,
-  AddActivitiesResponseSchema,
+  GenerateAlternativesRequestSchema,
+  GenerateAlternativesResponseSchema,
   GenerateItineraryRequestSchema,
   GenerateItineraryResponseSchema,
   GetTripResponseSchema,
+  ReplanItineraryRequestSchema,
+  ReplanItineraryResponseSchema,
+  SelectAlternativeResponseSchema,
+  TripSchema,
+  UpdateTripLocationsRequestSchema,
+  type Itinerary,
+  type ItinerarySource,
 } from "@adaptive/types";
-import * as store from "../store/store.js";
-import { generateItinerary } from "../services/planner.service.js";
-import { recomputeTripSuggestions } from "../services/recompute.service.js";
+import type { TripStore } from "../store/index.js";
+import * as sseHub from "../realtime/sseHub.js";
+import { distributeActivitiesAcrossDays, generateItinerary } from "../services/planner.service.js";
+import { generatePlanAlternatives } from "../services/plan-alternatives.service.js";
+import { loadPlanningSignals } from "../services/planning-signals.service.js";
+import { recomputeTripSuggestions, supersedeStaleSuggestions } from "../services/recompute.service.js";
+import { replanDay } from "../services/replan.service.js";
+import { validateItinerary } from "../services/itinerary-validation.service.js";
+import { isRoutingProviderConfigured } from "../services/routing.service.js";
+import { resolveTripDay, tripForDay } from "../utils/days.js";
+import { parseHHMM } from "../utils/time.js";
 
 /**
  * Register trip routes
  */
-export async function registerTripRoutes(app: FastifyInstance) {
+export async function registerTripRoutes(app: FastifyInstance, store: TripStore) {
   // POST /trip - Create a new trip
   app.post("/trip", async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = CreateTripRequestSchema.parse(request.body);
-      const { tripId } = store.createTrip(body);
+      const { tripId } = await store.createTrip(body);
 
       const response = CreateTripResponseSchema.parse({ tripId });
       return reply.code(201).send(response);
@@ -45,7 +60,7 @@ export async function registerTripRoutes(app: FastifyInstance) {
     ) => {
       try {
         const { tripId } = request.params;
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
 
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
@@ -60,32 +75,31 @@ export async function registerTripRoutes(app: FastifyInstance) {
     }
   );
 
-  // POST /trip/:tripId/activities - Add activities to a trip
-  app.post(
-    "/trip/:tripId/activities",
+  // PATCH /trip/:tripId/locations - Set or clear the base (lodging) and end locations
+  app.patch(
+    "/trip/:tripId/locations",
     async (
       request: FastifyRequest<{ Params: { tripId: string } }>,
       reply: FastifyReply
     ) => {
       try {
         const { tripId } = request.params;
-        const body = AddActivitiesRequestSchema.parse(request.body);
+        const body = UpdateTripLocationsRequestSchema.parse(request.body);
 
-        // Verify trip exists
-        const tripData = store.getTrip(tripId);
-        if (!tripData) {
+        const trip = await store.updateTripLocations(tripId, body);
+        if (!trip) {
           return reply.code(404).send({ error: "Trip not found" });
         }
 
-        const count = store.upsertActivities(tripId, body.activities);
-        const response = AddActivitiesResponseSchema.parse({ ok: true, count });
+        sseHub.emit(tripId, "trip:updated", { trip });
 
+        const response = TripSchema.parse(trip);
         return reply.send(response);
       } catch (error) {
         if (error instanceof Error && error.name === "ZodError") {
           return reply.code(400).send({ error: "Invalid request data", details: error });
         }
-        console.error("Error adding activities:", error);
+        console.error("Error updating trip locations:", error);
         return reply.code(500).send({ error: "Internal server error" });
       }
     }
@@ -103,7 +117,7 @@ export async function registerTripRoutes(app: FastifyInstance) {
         const body = GenerateItineraryRequestSchema.parse(request.body);
 
         // Get trip and activities
-        const tripData = store.getTrip(tripId);
+        const tripData = await store.getTrip(tripId);
         if (!tripData) {
           return reply.code(404).send({ error: "Trip not found" });
         }
@@ -116,21 +130,278 @@ export async function registerTripRoutes(app: FastifyInstance) {
             .send({ error: "Cannot generate itinerary without activities" });
         }
 
-        // Generate itinerary
-        const itinerary = await generateItinerary({
-          trip,
+        // An explicit provider choice should not quietly degrade to estimates
+        if (body.routingProvider && !isRoutingProviderConfigured(body.routingProvider)) {
+          return reply
+            .code(400)
+            .send({ error: `Routing provider "${body.routingProvider}" is not configured` });
+        }
+
+        // Plan a single day when asked, otherwise every day of the trip
+        let days = trip.days;
+        if (body.date !== undefined) {
+          const day = resolveTripDay(trip, body.date);
+          if (!day) {
+            return reply.code(400).send({ error: "Date is not part of this trip" });
+          }
+          days = [day];
+        }
+
+        const activitiesByDay = distributeActivitiesAcrossDays(trip.days, activities);
+        const generated: { date: string; version: number; itinerary: Itinerary }[] = [];
+
+        for (const day of days) {
+          // Generate itinerary
+          const itinerary = await generateItinerary({
+            trip: tripForDay(trip, day),
+            activities: activitiesByDay.get(day.date) || [],
+            mode: body.mode || "driving",
+            startLocation: body.startLocation,
+            endLocation: body.endLocation,
+            optimizeOrder: body.optimizeOrder ?? true,
+            smartMode: body.smartMode,
+            routingProvider: body.routingProvider,
+            breaks: body.breaks,
+            store,
+          });
+
+          // Store the itinerary
+          const version = await store.addItineraryVersion(tripId, day.date, itinerary, {
+            type: "generated",
+          });
+          generated.push({ date: day.date, version, itinerary });
+        }
+        await supersedeStaleSuggestions(store, tripId);
+
+        const response = GenerateItineraryResponseSchema.parse({
+          ...generated[0],
+          days: body.date === undefined ? generated : undefined,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error generating itinerary:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/itinerary/alternatives - Plan one day several ways without saving a version
+  app.post(
+    "/trip/:tripId/itinerary/alternatives",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = GenerateAlternativesRequestSchema.parse(request.body);
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const { trip, activities } = tripData;
+
+        if (activities.length === 0) {
+          return reply
+            .code(400)
+            .send({ error: "Cannot generate itinerary without activities" });
+        }
+
+        if (body.routingProvider && !isRoutingProviderConfigured(body.routingProvider)) {
+          return reply
+            .code(400)
+            .send({ error: `Routing provider "${body.routingProvider}" is not configured` });
+        }
+
+        const day = resolveTripDay(trip, body.date);
+        if (!day) {
+          return reply.code(400).send({ error: "Date is not part of this trip" });
+        }
+
+        const dayTrip = tripForDay(trip, day);
+        const candidates = await generatePlanAlternatives(
+          {
+            trip: dayTrip,
+            activities: distributeActivitiesAcrossDays(trip.days, activities).get(day.date) || [],
+            mode: body.mode || "driving",
+            startLocation: body.startLocation,
+            endLocation: body.endLocation,
+            optimizeOrder: body.optimizeOrder ?? true,
+            smartMode: body.smartMode,
+            routingProvider: body.routingProvider,
+            breaks: body.breaks,
+            store,
+          },
+          await loadPlanningSignals(store, dayTrip)
+        );
+
+        // Offered until one is picked; a later request replaces them
+        const baseVersion = (await store.getLatestItinerary(tripId, day.date))?.version;
+        await store.savePlanCandidates(tripId, day.date, baseVersion, candidates);
+
+        const response = GenerateAlternativesResponseSchema.parse({
+          date: day.date,
+          baseVersion,
+          candidates,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof Error && error.name === "ZodError") {
+          return reply.code(400).send({ error: "Invalid request data", details: error });
+        }
+        console.error("Error generating plan alternatives:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/itinerary/alternatives/:candidateId/select - Save a candidate as the next version
+  app.post(
+    "/trip/:tripId/itinerary/alternatives/:candidateId/select",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string; candidateId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId, candidateId } = request.params;
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const record = await store.getPlanCandidate(tripId, candidateId);
+        if (!record) {
+          return reply.code(404).send({ error: "Plan candidate not found" });
+        }
+
+        // Candidates planned against an older version would silently undo later changes
+        const latest = await store.getLatestItinerary(tripId, record.date);
+        if (latest?.version !== record.baseVersion) {
+          return reply.code(409).send({
+            error: "Plan candidate is based on an outdated itinerary",
+            baseVersion: record.baseVersion ?? null,
+            latestVersion: latest?.version ?? null,
+          });
+        }
+
+        const { itinerary } = record.candidate;
+        const source: ItinerarySource = { type: "alternative", objective: record.candidate.objective };
+        const version = await store.addItineraryVersion(tripId, record.date, itinerary, source);
+        await store.savePlanCandidates(tripId, record.date, undefined, []);
+        await supersedeStaleSuggestions(store, tripId);
+
+        sseHub.emit(tripId, "itinerary:version", {
+          version,
+          date: record.date,
+          itinerary,
+          source,
+        });
+
+        const response = SelectAlternativeResponseSchema.parse({
+          version,
+          date: record.date,
+          itinerary,
+          source,
+        });
+
+        return reply.send(response);
+      } catch (error) {
+        console.error("Error selecting plan alternative:", error);
+        return reply.code(500).send({ error: "Internal server error" });
+      }
+    }
+  );
+
+  // POST /trip/:tripId/itinerary/replan - Re-plan the rest of today from the traveler's time and position
+  app.post(
+    "/trip/:tripId/itinerary/replan",
+    async (
+      request: FastifyRequest<{ Params: { tripId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { tripId } = request.params;
+        const body = ReplanItineraryRequestSchema.parse(request.body);
+
+        const tripData = await store.getTrip(tripId);
+        if (!tripData) {
+          return reply.code(404).send({ error: "Trip not found" });
+        }
+
+        const { trip, activities } = tripData;
+
+        if (body.routingProvider && !isRoutingProviderConfigured(body.routingProvider)) {
+          return reply
+            .code(400)
+            .send({ error: `Routing provider "${body.routingProvider}" is not configured` });
+        }
+
+        // The trip clock is UTC, like the worker's
+        const now = body.now ? new Date(body.now) : new Date();
+        const day = resolveTripDay(trip, now.toISOString().slice(0, 10));
+        if (!day) {
+          return reply.code(400).send({ error: "The trip is not underway on this date" });
+        }
+        const nowMin = now.getUTCHours() * 60 + now.getUTCMinutes();
+        if (nowMin >= parseHHMM(day.endTime)) {
+          return reply.code(400).send({ error: "This trip day is already over" });
+        }
+
+        const latest = await store.getLatestItinerary(tripId, day.date);
+        const itinerary = await replanDay({
+          trip: tripForDay(trip, day),
+          activities: distributeActivitiesAcrossDays(trip.days, activities).get(day.date) || [],
+          mode: body.mode,
+          smartMode: body.smartMode,
+          routingProvider: body.routingProvider,
+          endLocation: body.endLocation,
+          breaks: body.breaks,
+          store,
+          latest: latest?.itinerary,
+          nowMin,
+          currentLocation: body.currentLocation,
+          completedActivityIds: body.completedActivityIds,
+        });
+
+        // Never save a plan the traveler cannot follow. A pinned stop the
+        // traveler can no longer reach in time is kept, starting late; the
+        // plan reports it in pinConflicts rather than refusing to re-plan
+        const validation = validateItinerary(itinerary, {
+          trip: tripForDay(trip, day),
           activities,
-          mode: body.mode || "driving",
-          startLocation: body.startLocation,
-          optimizeOrder: body.optimizeOrder ?? true,
+          allowLatePins: true,
         });
+        if (!validation.valid) {
+          return reply.code(409).send({
+            error: "The rest of the day cannot be re-planned feasibly",
+            errors: validation.errors,
+          });
+        }
 
-        // Store the itinerary
-        const version = store.addItineraryVersion(tripId, itinerary);
+        const source: ItinerarySource = { type: "replan" };
+        const version = await store.addItineraryVersion(tripId, day.date, itinerary, source);
+        await supersedeStaleSuggestions(store, tripId);
 
-        const response = GenerateItineraryResponseSchema.parse({
+        sseHub.emit(tripId, "itinerary:version", {
           version,
+          date: day.date,
           itinerary,
+          source,
+        });
+
+        const response = ReplanItineraryResponseSchema.parse({
+          version,
+          date: day.date,
+          itinerary,
+          source,
         });
 
         return reply.send(response);
@@ -138,7 +409,7 @@ export async function registerTripRoutes(app: FastifyInstance) {
         if (error instanceof Error && error.name === "ZodError") {
           return reply.code(400).send({ error: "Invalid request data", details: error });
         }
-        console.error("Error generating itinerary:", error);
+        console.error("Error re-planning itinerary:", error);
         return reply.code(500).send({ error: "Internal server error" });
       }
     }
@@ -147,7 +418,7 @@ export async function registerTripRoutes(app: FastifyInstance) {
   // GET /trips - Get all trip IDs (for worker)
   app.get("/trips", async (_request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const tripIds = store.getTripIds();
+      const tripIds = await store.getTripIds();
       return reply.send({ tripIds });
     } catch (error) {
       console.error("Error getting trip IDs:", error);
@@ -166,11 +437,11 @@ export async function registerTripRoutes(app: FastifyInstance) {
         const { tripId } = request.params;
 
         // Get trip data
-        if (!store.getTrip(tripId)) {
+        if (!(await store.getTrip(tripId))) {
           return reply.code(404).send({ error: "Trip not found" });
         }
 
-        const suggestions = await recomputeTripSuggestions(tripId);
+        const suggestions = await recomputeTripSuggestions(store, tripId);
         return reply.send({ ok: true, suggestions });
       } catch (error) {
         console.error("Error recomputing suggestions:", error);
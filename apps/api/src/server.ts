@@ -6,12 +6,16 @@ import Fastify from "fastify";
 import cors from "@fastify/cors";
 import multipart from "@fastify/multipart";
 import { registerTripRoutes } from "./routes/trip.routes.js";
+import { registerItineraryRoutes } from "./routes/itinerary.routes.js";
+import { registerActivityRoutes } from "./routes/activities.routes.js";
+import { registerProgressRoutes } from "./routes/progress.routes.js";
 import { registerPlacesRoutes } from "./routes/places.routes.js";
 import { registerSignalsRoutes } from "./routes/signals.routes.js";
 import { registerSuggestionsRoutes } from "./routes/suggestions.routes.js";
 import { registerStreamRoutes } from "./routes/stream.routes.js";
 import { registerContributorRoutes } from "./routes/contributor.routes.js";
 import { registerAdminRoutes } from "./routes/admin.routes.js";
+import { createTripStore } from "./store/index.js";
 
 const PORT = parseInt(process.env.PORT || "8080", 10);
 
@@ -29,31 +33,44 @@ async function start() {
   });
   await app.register(multipart);
 
+  // Trip storage backend (TRIP_STORE=memory|prisma, defaults to prisma)
+  const store = createTripStore();
+  app.log.info(`Trip store: ${process.env.TRIP_STORE || "prisma"}`);
+
   // Health check endpoint
   app.get("/health", async () => {
     return { status: "ok", timestamp: new Date().toISOString() };
   });
 
   // Register trip routes
-  await registerTripRoutes(app);
+  await registerTripRoutes(app, store);
+
+  // Register activity routes
+  await registerActivityRoutes(app, store);
+
+  // Register check-in, check-out and location routes
+  await registerProgressRoutes(app, store);
+
+  // Register itinerary history routes
+  await registerItineraryRoutes(app, store);
 
   // Register places routes
   await registerPlacesRoutes(app);
 
   // Register signals routes (Phase 3 - Weather)
-  await registerSignalsRoutes(app);
+  await registerSignalsRoutes(app, store);
 
   // Register suggestions routes (Phase 3 - Weather)
-  await registerSuggestionsRoutes(app);
+  await registerSuggestionsRoutes(app, store);
 
   // Register stream routes (Phase 3 - SSE)
-  await registerStreamRoutes(app);
+  await registerStreamRoutes(app, store);
 
   // Register contributor routes (Phase 7)
   await registerContributorRoutes(app);
 
   // Register admin review routes (Phase 7)
-  await registerAdminRoutes(app);
+  await registerAdminRoutes(app, store);
 
   // Start server
   try {
@@ -0,0 +1,154 @@
+/**
+ * Breaks service - Meal windows, picking a nearby place to eat, and taking breaks back out of a day
+ */
+import type { Activity, Budget, Itinerary, ItineraryItem, LatLng, MealWindow, Place, TravelMode } from "@adaptive/types";
+import { searchPlacesFoursquare, type RoutingProvider } from "@adaptive/integrations";
+import { shouldAvoidCategory } from "../utils/categories.js";
+import { rankPlacesByBudget } from "../utils/preferences.js";
+import { formatHHMM, parseHHMM } from "../utils/time.js";
+import { getDurationMatrix } from "./routing.service.js";
+
+export type MealName = "lunch" | "dinner";
+
+// Search radius around the stop the traveler is at when a meal is due
+const MEAL_SEARCH_RADIUS_KM = 1;
+
+/**
+ * Parse a "HH:mm-HH:mm" window; falls back to the default when malformed
+ */
+function parseWindowEnv(value: string | undefined, fallback: string): { start: string; end: string } {
+  const match = /^(\d{2}:\d{2})-(\d{2}:\d{2})$/.exec(value || fallback) ?? /^(\d{2}:\d{2})-(\d{2}:\d{2})$/.exec(fallback)!;
+  return { start: match[1], end: match[2] };
+}
+
+/**
+ * Default meal windows, configurable via PLANNER_LUNCH_WINDOW,
+ * PLANNER_DINNER_WINDOW and PLANNER_MEAL_DURATION_MIN
+ */
+export function getDefaultMealWindows(): Record<MealName, MealWindow> {
+  const durationMin = Number.parseInt(process.env.PLANNER_MEAL_DURATION_MIN || "60", 10);
+  return {
+    lunch: { ...parseWindowEnv(process.env.PLANNER_LUNCH_WINDOW, "12:00-14:00"), durationMin },
+    dinner: { ...parseWindowEnv(process.env.PLANNER_DINNER_WINDOW, "18:30-20:30"), durationMin },
+  };
+}
+
+/**
+ * Find somewhere to eat near a location. Uses Foursquare when configured and
+ * skips places in avoided categories or above budget; otherwise, or when
+ * nothing suitable turns up, returns a plain break at the location itself.
+ */
+export async function findMealPlace(
+  meal: MealName,
+  near: LatLng,
+  avoid: string[],
+  budget: Budget
+): Promise<Place> {
+  const apiKey = process.env.FOURSQUARE_API_KEY || "";
+  const label = meal === "lunch" ? "Lunch" : "Dinner";
+
+  if (apiKey) {
+    try {
+      const places = await searchPlacesFoursquare("restaurant", near, MEAL_SEARCH_RADIUS_KM, undefined, 10, apiKey);
+      const suitable = rankPlacesByBudget(
+        places.filter((place) => !shouldAvoidCategory(place.category, avoid)),
+        budget
+      );
+      if (suitable.length > 0) {
+        return suitable[0];
+      }
+    } catch (error) {
+      console.warn(`[Breaks] Failed to find a ${meal} place, using a plain break:`, error);
+    }
+  }
+
+  return {
+    provider: "system",
+    providerPlaceId: meal,
+    name: `${label} break`,
+    lat: near.lat,
+    lng: near.lng,
+    category: label,
+  };
+}
+
+/**
+ * A day's itinerary without one of its system-added breaks. Rest breaks
+ * happen where the traveler already is, so nothing else changes. A meal has
+ * its own place: the leg after it is routed again from the stop before it,
+ * and later stops move back only as far as a longer leg needs.
+ */
+export async function removeBreak(
+  itinerary: Itinerary,
+  itemId: string,
+  activities: Activity[],
+  provider: RoutingProvider,
+  start?: LatLng,
+  end?: LatLng
+): Promise<Itinerary> {
+  const index = itinerary.items.findIndex((item) => item.activityId === itemId);
+  const removed = itinerary.items[index];
+  const items = itinerary.items.filter((_, i) => i !== index);
+  const result: Itinerary = { ...itinerary, items, totalTravelMin: itinerary.totalTravelMin - removed.travelFromPrevMin };
+  if (!removed.location) return result;
+
+  const places = new Map(activities.map((activity) => [activity.activityId, activity.place]));
+  const locate = (item: ItineraryItem): LatLng | undefined => item.location ?? places.get(item.activityId);
+  const before = items.slice(0, index);
+  // After a replan the first stop ahead is reached from where the traveler was then
+  const resumesReplan = itinerary.replannedFrom !== undefined && before.every((item) => item.completed);
+  const from = resumesReplan
+    ? itinerary.replannedFrom!.location
+    : before.map(locate).reverse().find((location) => location !== undefined) ?? start;
+  let previousEndMin = resumesReplan
+    ? parseHHMM(itinerary.replannedFrom!.time)
+    : before.length > 0
+      ? parseHHMM(before[before.length - 1].endTime)
+      : undefined;
+
+  const next = items[index];
+  if (!next) {
+    // The way back now leaves from the last stop before the meal
+    if (itinerary.returnTravelMin !== undefined && from && end) {
+      const returnTravelMin = await routeLegMin(provider, itinerary.returnTravelMode ?? "driving", from, end, previousEndMin);
+      result.totalTravelMin += returnTravelMin - itinerary.returnTravelMin;
+      result.returnTravelMin = returnTravelMin;
+    }
+    return result;
+  }
+
+  const to = locate(next);
+  const travelFromPrevMin =
+    from && to ? await routeLegMin(provider, next.travelMode ?? "driving", from, to, previousEndMin) : 0;
+  result.totalTravelMin += travelFromPrevMin - next.travelFromPrevMin;
+  items[index] = { ...next, travelFromPrevMin };
+
+  for (let i = index; i < items.length && previousEndMin !== undefined; i++) {
+    const { waitMin: _waitMin, ...item } = items[i];
+    const shiftMin = previousEndMin + item.travelFromPrevMin + (item.bufferMin ?? 0) - parseHHMM(item.startTime);
+    if (shiftMin <= 0) break;
+    // Pushed back stops start as soon as the traveler arrives
+    items[i] = {
+      ...item,
+      startTime: formatHHMM(parseHHMM(item.startTime) + shiftMin),
+      endTime: formatHHMM(parseHHMM(item.endTime) + shiftMin),
+    };
+    previousEndMin = parseHHMM(items[i].endTime);
+  }
+
+  return result;
+}
+
+/**
+ * Minutes for one leg, leaving at `departMin` when known
+ */
+async function routeLegMin(
+  provider: RoutingProvider,
+  mode: TravelMode,
+  from: LatLng,
+  to: LatLng,
+  departMin?: number
+): Promise<number> {
+  const matrix = await getDurationMatrix(provider, mode, [from, to], departMin);
+  return Math.round(matrix[0][1] / 60);
+}
@@ -1,6 +1,6 @@
 import { db } from "@adaptive/store";
 import type { CommunitySignalReport } from "@adaptive/types";
-import * as store from "../store/store.js";
+import type { TripStore } from "../store/index.js";
 import { haversineKm } from "../utils/geo.js";
 
 function getCommunityRadiusMeters(): number {
@@ -11,10 +11,19 @@ export function getCommunityDefaultTtlMin(): number {
   return Number.parseInt(process.env.COMMUNITY_DEFAULT_TTL_MIN || "120", 10);
 }
 
-export function getTripCenter(tripId: string): { lat: number; lng: number } | null {
-  const tripData = store.getTrip(tripId);
+export async function getTripCenter(
+  store: TripStore,
+  tripId: string
+): Promise<{ lat: number; lng: number } | null> {
+  const tripData = await store.getTrip(tripId);
   if (!tripData) return null;
 
+  // Travelers spend their days around their lodging
+  const { baseLocation } = tripData.trip;
+  if (baseLocation) {
+    return { lat: baseLocation.lat, lng: baseLocation.lng };
+  }
+
   const firstActivity = tripData.activities[0];
   if (!firstActivity) return null;
 
@@ -48,8 +57,11 @@ function mapReportToCommunitySignal(report: {
   };
 }
 
-export async function getCommunitySignalsForTrip(tripId: string): Promise<CommunitySignalReport[]> {
-  const center = getTripCenter(tripId);
+export async function getCommunitySignalsForTrip(
+  store: TripStore,
+  tripId: string
+): Promise<CommunitySignalReport[]> {
+  const center = await getTripCenter(store, tripId);
   if (!center) return [];
 
   const now = new Date();
@@ -70,16 +82,19 @@ export async function getCommunitySignalsForTrip(tripId: string): Promise<Commun
     .map(mapReportToCommunitySignal);
 }
 
-export async function getTripsAffectedByReport(report: {
-  lat: number;
-  lng: number;
-}): Promise<string[]> {
+export async function getTripsAffectedByReport(
+  store: TripStore,
+  report: {
+    lat: number;
+    lng: number;
+  }
+): Promise<string[]> {
   const radiusMeters = getCommunityRadiusMeters();
-  const tripIds = store.getTripIds();
+  const tripIds = await store.getTripIds();
   const impacted: string[] = [];
 
   for (const tripId of tripIds) {
-    const center = getTripCenter(tripId);
+    const center = await getTripCenter(store, tripId);
     if (!center) continue;
 
     const distanceMeters = haversineKm(center.lat, center.lng, report.lat, report.lng) * 1000;
@@ -2,13 +2,37 @@
  * Diff service - Build human-readable diffs between itinerary plans
  */
 import type { ItineraryItem, SuggestionDiff } from "@adaptive/types";
+import { parseHHMM } from "../utils/time.js";
 
 /**
- * Build a diff between before and after itinerary plans
+ * Pluralize "place" for summary strings
+ */
+function places(count: number): string {
+  return `${count} place${count > 1 ? "s" : ""}`;
+}
+
+/**
+ * Minutes spent at an itinerary item
+ */
+function itemDurationMin(item: ItineraryItem): number {
+  return parseHHMM(item.endTime) - parseHHMM(item.startTime);
+}
+
+/**
+ * Total travel minutes across a list of items
+ */
+function sumTravelMin(items: ItineraryItem[]): number {
+  return items.reduce((sum, item) => sum + item.travelFromPrevMin, 0);
+}
+
+/**
+ * Build a diff between before and after itinerary plans. Return legs to the
+ * end location count towards the travel delta for the plans that have one.
  */
 export function buildPlanDiff(
   beforeItems: ItineraryItem[],
-  afterItems: ItineraryItem[]
+  afterItems: ItineraryItem[],
+  returnTravelMin: { before?: number; after?: number } = {}
 ): SuggestionDiff {
   const moved: SuggestionDiff["moved"] = [];
   const swapped: SuggestionDiff["swapped"] = [];
@@ -61,20 +85,50 @@ export function buildPlanDiff(
     }
   }
 
+  // Find added and removed activities
+  const added: NonNullable<SuggestionDiff["added"]> = afterItems
+    .filter((item) => !beforeIds.has(item.activityId))
+    .map((item) => ({ placeName: item.placeName, startTime: item.startTime }));
+  const removed: NonNullable<SuggestionDiff["removed"]> = beforeItems
+    .filter((item) => !afterIds.has(item.activityId))
+    .map((item) => ({ placeName: item.placeName, startTime: item.startTime }));
+
+  // Find activities whose time on site changed
+  const durationChanged: NonNullable<SuggestionDiff["durationChanged"]> = [];
+  for (const afterItem of afterItems) {
+    const beforeItem = beforeMap.get(afterItem.activityId);
+    if (!beforeItem) continue;
+
+    const fromMin = itemDurationMin(beforeItem);
+    const toMin = itemDurationMin(afterItem);
+    if (fromMin !== toMin) {
+      durationChanged.push({ placeName: afterItem.placeName, fromMin, toMin });
+    }
+  }
+
+  const travelDeltaMin =
+    sumTravelMin(afterItems) + (returnTravelMin.after ?? 0) - sumTravelMin(beforeItems) - (returnTravelMin.before ?? 0);
+
   // Build summary
-  const changes = moved.length + swapped.length;
-  let summary = "";
-  if (changes === 0) {
-    summary = "No changes";
-  } else if (swapped.length > 0) {
-    summary = `Swapped ${swapped.length} place${swapped.length > 1 ? "s" : ""}`;
+  const parts: string[] = [];
+  if (swapped.length > 0) {
+    parts.push(`Swapped ${places(swapped.length)}`);
   } else if (moved.length > 0) {
-    summary = `Reordered ${moved.length} place${moved.length > 1 ? "s" : ""}`;
+    parts.push(`Reordered ${places(moved.length)}`);
   }
+  if (added.length > 0) parts.push(`Added ${places(added.length)}`);
+  if (removed.length > 0) parts.push(`Removed ${places(removed.length)}`);
+  if (durationChanged.length > 0) parts.push(`Changed time at ${places(durationChanged.length)}`);
+
+  const summary = parts.length > 0 ? parts.join(", ") : "No changes";
 
   return {
     moved,
     swapped,
+    added,
+    removed,
+    durationChanged,
+    travelDeltaMin,
     summary,
   };
 }
@@ -0,0 +1,178 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Activity, ItineraryItem, Trip } from "@adaptive/types";
+import { validateItinerary, type ValidationContext } from "./itinerary-validation.service.js";
+
+// 2026-10-20 is a Tuesday
+const TUESDAY = 2;
+
+const tripDay: Trip = {
+  tripId: "trp_test",
+  city: "Paris",
+  date: "2026-10-20",
+  startTime: "09:00",
+  endTime: "18:00",
+  days: [{ date: "2026-10-20", startTime: "09:00", endTime: "18:00" }],
+  preferences: { pace: "medium", interests: [], avoid: [], budget: "medium" },
+  createdAt: "2026-10-01T00:00:00.000Z",
+};
+
+/**
+ * Stops about 1.1 km apart, open all day unless given hours
+ */
+function activity(index: number, extra: Partial<Activity> = {}): Activity {
+  return {
+    activityId: `act_${index}`,
+    place: {
+      provider: "test",
+      providerPlaceId: `place_${index}`,
+      name: `Place ${index}`,
+      lat: 48.85 + index * 0.01,
+      lng: 2.35,
+    },
+    durationMin: 60,
+    locked: false,
+    addedAt: "2026-10-01T00:00:00.000Z",
+    ...extra,
+  };
+}
+
+function item(index: number, startTime: string, endTime: string, travelFromPrevMin = 0): ItineraryItem {
+  return { activityId: `act_${index}`, placeName: `Place ${index}`, startTime, endTime, travelFromPrevMin };
+}
+
+function validate(
+  items: ItineraryItem[],
+  activities: Activity[],
+  options: Partial<ValidationContext> & { returnTravelMin?: number } = {}
+) {
+  const { returnTravelMin, ...context } = options;
+  return validateItinerary({ items, returnTravelMin }, { trip: tripDay, activities, ...context });
+}
+
+function codes(issues: { code: string }[]): string[] {
+  return issues.map((issue) => issue.code);
+}
+
+describe("validateItinerary", () => {
+  it("accepts a day that keeps to its hours and leaves time to travel", () => {
+    const result = validate(
+      [item(1, "09:00", "10:00"), item(2, "10:20", "11:20", 20)],
+      [activity(1), activity(2)]
+    );
+
+    assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+  });
+
+  describe("opening hours", () => {
+    const museum = activity(1, { openingHours: [{ day: TUESDAY, open: "10:00", close: "17:00" }] });
+
+    it("rejects a visit that starts before the place opens", () => {
+      const result = validate([item(1, "09:30", "10:30")], [museum]);
+
+      assert.equal(result.valid, false);
+      assert.deepEqual(codes(result.errors), ["outside_opening_hours"]);
+    });
+
+    it("rejects a visit on a day the place is closed", () => {
+      const closedTuesdays = activity(1, { openingHours: [{ day: TUESDAY + 1, open: "10:00", close: "17:00" }] });
+      const result = validate([item(1, "10:00", "11:00")], [closedTuesdays]);
+
+      assert.deepEqual(codes(result.errors), ["closed"]);
+    });
+
+    it("prefers hand-entered hours over the provider's", () => {
+      const adjusted = activity(1, {
+        place: { ...museum.place, openingHours: [{ day: TUESDAY, open: "12:00", close: "17:00" }] },
+        openingHours: [{ day: TUESDAY, open: "09:00", close: "17:00" }],
+      });
+      const result = validate([item(1, "09:00", "10:00")], [adjusted]);
+
+      assert.equal(result.valid, true);
+    });
+  });
+
+  describe("pinned starts", () => {
+    const pinned = activity(1, { pinnedStart: "10:00", pinToleranceMin: 15 });
+
+    it("accepts a start within the tolerance after the pin", () => {
+      const result = validate([item(1, "10:15", "11:15")], [pinned]);
+
+      assert.equal(result.valid, true);
+    });
+
+    it("rejects a start past the tolerance or before the pin", () => {
+      for (const startTime of ["10:16", "09:55"]) {
+        const result = validate([item(1, startTime, "11:30")], [pinned]);
+
+        assert.deepEqual(codes(result.errors), ["pin_missed"], startTime);
+      }
+    });
+
+    it("only warns about a late start for replans, never an early one", () => {
+      const late = validate([item(1, "10:40", "11:40")], [pinned], { allowLatePins: true });
+      assert.equal(late.valid, true);
+      assert.deepEqual(codes(late.warnings), ["pin_missed"]);
+
+      const early = validate([item(1, "09:50", "10:50")], [pinned], { allowLatePins: true });
+      assert.deepEqual(codes(early.errors), ["pin_missed"]);
+    });
+  });
+
+  it("rejects a stop that starts before the previous one ends", () => {
+    const result = validate(
+      [item(1, "09:00", "10:00"), item(2, "09:45", "10:45", 20)],
+      [activity(1), activity(2)]
+    );
+
+    assert.deepEqual(codes(result.errors), ["overlap"]);
+    assert.equal(result.errors[0].activityId, "act_2");
+  });
+
+  it("rejects a gap shorter than the travel and buffer it needs", () => {
+    const tight = { ...item(2, "10:20", "11:20", 15), bufferMin: 10 };
+    const result = validate([item(1, "09:00", "10:00"), tight], [activity(1), activity(2)]);
+
+    assert.deepEqual(codes(result.errors), ["not_enough_travel_time"]);
+  });
+
+  it("only warns about places the trip avoids", () => {
+    const avoidMuseums: Trip = { ...tripDay, preferences: { ...tripDay.preferences, avoid: ["museums"] } };
+    const museum = activity(1, { place: { ...activity(1).place, category: "museum" } });
+    const result = validateItinerary({ items: [item(1, "09:00", "10:00")] }, { trip: avoidMuseums, activities: [museum] });
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(codes(result.warnings), ["avoided_category"]);
+  });
+
+  describe("end of the day", () => {
+    const activities = [activity(1)];
+
+    it("rejects a way back that arrives after the day ends", () => {
+      const result = validate([item(1, "16:30", "17:30")], activities, { returnTravelMin: 45 });
+
+      assert.deepEqual(codes(result.errors), ["after_trip_end"]);
+      assert.equal(result.errors[0].activityId, undefined);
+    });
+
+    it("accepts a way back that arrives in time", () => {
+      const result = validate([item(1, "16:30", "17:30")], activities, { returnTravelMin: 30 });
+
+      assert.equal(result.valid, true);
+    });
+
+    it("only warns about running late when overrun is allowed", () => {
+      for (const [items, returnTravelMin] of [
+        [[item(1, "17:30", "18:30")], undefined],
+        [[item(1, "16:30", "17:30")], 45],
+      ] as const) {
+        const strict = validate([...items], activities, { returnTravelMin });
+        assert.deepEqual(codes(strict.errors), ["after_trip_end"]);
+
+        const lenient = validate([...items], activities, { returnTravelMin, allowOverrun: true });
+        assert.equal(lenient.valid, true);
+        assert.deepEqual(codes(lenient.warnings), ["after_trip_end"]);
+      }
+    });
+  });
+});
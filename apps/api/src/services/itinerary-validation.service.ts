@@ -0,0 +1,231 @@
+/**
+ * Itinerary validation service - check a day's plan is one the traveler can actually follow
+ *
+ * Errors make a plan infeasible: a stop outside the day's start and end,
+ * outside its opening hours or its own time window, a missed pinned start, a
+ * locked activity moved or dropped, overlapping stops, or too little time
+ * between stops for the travel planned. Warnings flag plans that can be
+ * followed but should not be: travel times the distance cannot back up, or
+ * places the trip asked to avoid. Completed items already happened and are
+ * not checked.
+ */
+import type {
+  Activity,
+  Itinerary,
+  ItineraryIssue,
+  ItineraryIssueCode,
+  ItineraryItem,
+  ItineraryValidation,
+  LatLng,
+  Trip,
+} from "@adaptive/types";
+import { resolveAvoidKeywords, shouldAvoidCategory } from "../utils/categories.js";
+import { estimateTravelMin, haversineKm } from "../utils/geo.js";
+import { formatHHMM, parseHHMM } from "../utils/time.js";
+import { getActivityWindows, isClosedOn } from "../utils/time-windows.js";
+
+// Routed travel may beat the straight-line estimate, but not by more than this
+const MIN_TRAVEL_ESTIMATE_RATIO = 0.5;
+
+// Stops closer than this are the same place and need no travel
+const SAME_PLACE_KM = 0.05;
+
+export interface ValidationContext {
+  /** The trip narrowed to the plan's day */
+  trip: Trip;
+  activities: Activity[];
+  /** Items of the version the plan would replace; locked activities must keep their place in it */
+  reference?: ItineraryItem[];
+  /** Only warn when the day runs past its end; for shifts following a traveler who is already late */
+  allowOverrun?: boolean;
+  /** Only warn when a pinned stop starts after its tolerance; for replans that cannot get there in time */
+  allowLatePins?: boolean;
+}
+
+/**
+ * Validate a day's itinerary against the trip and its activities
+ */
+export function validateItinerary(
+  itinerary: Pick<Itinerary, "items" | "returnTravelMin" | "replannedFrom">,
+  context: ValidationContext
+): ItineraryValidation {
+  const { trip, activities, reference, allowOverrun = false, allowLatePins = false } = context;
+  const errors: ItineraryIssue[] = [];
+  const warnings: ItineraryIssue[] = [];
+  const error = (code: ItineraryIssueCode, message: string, activityId?: string) =>
+    errors.push({ activityId, code, message });
+  const warn = (code: ItineraryIssueCode, message: string, activityId?: string) =>
+    warnings.push({ activityId, code, message });
+  const overrun = allowOverrun ? warn : error;
+  const latePin = allowLatePins ? warn : error;
+
+  const activitiesById = new Map(activities.map((activity) => [activity.activityId, activity]));
+  const avoid = resolveAvoidKeywords(trip.preferences?.avoid ?? []);
+  const tripStartMin = parseHHMM(trip.startTime);
+  const tripEndMin = parseHHMM(trip.endTime);
+  const seen = new Set<string>();
+
+  // When and where the traveler sets off for the next item; the first item
+  // of a day that was not re-planned starts it and is reached from nowhere
+  const replannedFrom = itinerary.replannedFrom;
+  let previousEndMin = replannedFrom ? parseHHMM(replannedFrom.time) : undefined;
+  let previousLocation: LatLng | undefined = replannedFrom?.location;
+
+  for (const item of itinerary.items) {
+    const { activityId, placeName } = item;
+    const activity = activitiesById.get(activityId);
+    const location = item.location ?? (activity && { lat: activity.place.lat, lng: activity.place.lng });
+    const startMin = parseHHMM(item.startTime);
+    const endMin = parseHHMM(item.endTime);
+
+    if (seen.has(activityId)) {
+      error("duplicate_activity", `${placeName} is in the day more than once`, activityId);
+    }
+    seen.add(activityId);
+    if (!activity && !item.systemAdded) {
+      error("unknown_activity", `${placeName} is not one of the trip's activities`, activityId);
+    }
+
+    // Completed items are history; after a replan the day continues from where it left the traveler
+    if (item.completed) {
+      if (!replannedFrom) {
+        previousEndMin = endMin;
+        previousLocation = location ?? previousLocation;
+      }
+      continue;
+    }
+
+    if (endMin < startMin) {
+      error("invalid_times", `${placeName} ends at ${item.endTime}, before it starts at ${item.startTime}`, activityId);
+    }
+    if (startMin < tripStartMin) {
+      error("before_trip_start", `${placeName} starts at ${item.startTime}, before the day starts at ${trip.startTime}`, activityId);
+    }
+    if (endMin > tripEndMin) {
+      overrun("after_trip_end", `${placeName} ends at ${item.endTime}, after the day ends at ${trip.endTime}`, activityId);
+    }
+
+    if (activity) {
+      checkActivityConstraints(activity, item, trip.date, error, latePin);
+      if (avoid.length > 0 && shouldAvoidCategory(activity.place.category, avoid)) {
+        warn("avoided_category", `${placeName} is a ${activity.place.category}, which the trip avoids`, activityId);
+      }
+    }
+
+    if (previousEndMin !== undefined) {
+      const neededMin = item.travelFromPrevMin + (item.bufferMin ?? 0);
+      if (startMin < previousEndMin) {
+        error("overlap", `${placeName} starts at ${item.startTime}, before the previous stop ends at ${formatHHMM(previousEndMin)}`, activityId);
+      } else if (startMin - previousEndMin < neededMin) {
+        error(
+          "not_enough_travel_time",
+          `${placeName} leaves ${startMin - previousEndMin} min to get there, but the way takes ${neededMin} min`,
+          activityId
+        );
+      }
+
+      if (location && previousLocation) {
+        const distanceKm = haversineKm(previousLocation.lat, previousLocation.lng, location.lat, location.lng);
+        // Legs without a mode are held to the fastest one
+        const expectedMin = estimateTravelMin(distanceKm, item.travelMode ?? "driving");
+        if (distanceKm >= SAME_PLACE_KM && item.travelFromPrevMin < expectedMin * MIN_TRAVEL_ESTIMATE_RATIO) {
+          warn(
+            "unrealistic_travel_time",
+            `${item.travelFromPrevMin} min is too little to cover ${distanceKm.toFixed(1)} km to ${placeName}; expect about ${expectedMin} min`,
+            activityId
+          );
+        }
+      }
+    }
+
+    previousEndMin = endMin;
+    // Rest breaks happen where the traveler already is
+    previousLocation = location ?? previousLocation;
+  }
+
+  const lastEndMin = previousEndMin ?? tripStartMin;
+  const returnMin = itinerary.returnTravelMin ?? 0;
+  if (returnMin > 0 && lastEndMin <= tripEndMin && lastEndMin + returnMin > tripEndMin) {
+    overrun("after_trip_end", `The way back takes until ${formatHHMM(lastEndMin + returnMin)}, after the day ends at ${trip.endTime}`);
+  }
+
+  if (reference) {
+    checkLockedPositions(activities, reference, itinerary.items, error);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Opening hours, earliestStart/latestEnd and pinned start of one visit;
+ * `latePin` reports a pinned stop starting too late
+ */
+function checkActivityConstraints(
+  activity: Activity,
+  item: ItineraryItem,
+  date: string,
+  error: (code: ItineraryIssueCode, message: string, activityId?: string) => void,
+  latePin: (code: ItineraryIssueCode, message: string, activityId?: string) => void
+): void {
+  const { activityId, placeName } = item;
+  const startMin = parseHHMM(item.startTime);
+  const endMin = parseHHMM(item.endTime);
+
+  if (isClosedOn(activity, date)) {
+    error("closed", `${placeName} is closed on ${date}`, activityId);
+  } else {
+    // Opening hours alone; the activity's own limits are checked below
+    const openWindows = getActivityWindows(
+      { place: activity.place, openingHours: activity.openingHours, durationMin: endMin - startMin },
+      date
+    );
+    if (!openWindows.some((window) => startMin >= window.openMin && endMin <= window.closeMin)) {
+      error("outside_opening_hours", `${placeName} is not open for all of ${item.startTime}–${item.endTime}`, activityId);
+    }
+  }
+
+  if (activity.earliestStart && startMin < parseHHMM(activity.earliestStart)) {
+    error("outside_time_window", `${placeName} starts at ${item.startTime}, before its earliest start at ${activity.earliestStart}`, activityId);
+  }
+  if (activity.latestEnd && endMin > parseHHMM(activity.latestEnd)) {
+    error("outside_time_window", `${placeName} ends at ${item.endTime}, after its latest end at ${activity.latestEnd}`, activityId);
+  }
+
+  if (activity.pinnedStart) {
+    const slipMin = startMin - parseHHMM(activity.pinnedStart);
+    if (slipMin < 0 || slipMin > (activity.pinToleranceMin ?? 0)) {
+      (slipMin > 0 ? latePin : error)(
+        "pin_missed",
+        `${placeName} starts at ${item.startTime}, but is pinned to ${activity.pinnedStart}`,
+        activityId
+      );
+    }
+  }
+}
+
+/**
+ * Locked activities keep their place among the trip's activities; breaks
+ * added or removed around them do not count as moving them
+ */
+function checkLockedPositions(
+  activities: Activity[],
+  reference: ItineraryItem[],
+  items: ItineraryItem[],
+  error: (code: ItineraryIssueCode, message: string, activityId?: string) => void
+): void {
+  const order = (list: ItineraryItem[]) => list.filter((item) => !item.systemAdded).map((item) => item.activityId);
+  const before = order(reference);
+  const after = order(items);
+
+  for (const activity of activities.filter((a) => a.locked)) {
+    const wasIndex = before.indexOf(activity.activityId);
+    if (wasIndex === -1) continue;
+
+    const isIndex = after.indexOf(activity.activityId);
+    if (isIndex === -1) {
+      error("locked_removed", `${activity.place.name} is locked but left out`, activity.activityId);
+    } else if (isIndex !== wasIndex) {
+      error("locked_moved", `${activity.place.name} is locked at stop ${wasIndex + 1} but moved to stop ${isIndex + 1}`, activity.activityId);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Matrix cache service - the process-wide duration matrix cache and its storage
+ */
+import { db } from "@adaptive/store";
+import {
+  createDurationMatrixCache,
+  createMemoryMatrixCacheBackend,
+  type DurationMatrixCache,
+  type MatrixCacheBackend,
+} from "@adaptive/integrations";
+
+// SQLite limits bound parameters per statement, so keys are looked up in batches
+const KEY_BATCH_SIZE = 500;
+
+let cache: DurationMatrixCache | null = null;
+
+/**
+ * The shared cache, created on first use. Durations persist in the database
+ * alongside trips, or in memory when TRIP_STORE=memory. Entries live for
+ * MATRIX_CACHE_TTL_HOURS; traffic buckets are MATRIX_CACHE_BUCKET_HOURS wide.
+ */
+export function getMatrixCache(): DurationMatrixCache {
+  if (!cache) {
+    const backend =
+      (process.env.TRIP_STORE || "prisma") === "memory"
+        ? createMemoryMatrixCacheBackend()
+        : createPrismaMatrixCacheBackend();
+    cache = createDurationMatrixCache(backend, {
+      ttlMs: Number.parseInt(process.env.MATRIX_CACHE_TTL_HOURS || "24", 10) * 60 * 60 * 1000,
+      bucketHours: Math.max(1, Number.parseInt(process.env.MATRIX_CACHE_BUCKET_HOURS || "1", 10)),
+    });
+  }
+  return cache;
+}
+
+function createPrismaMatrixCacheBackend(): MatrixCacheBackend {
+  return {
+    async getMany(keys, now) {
+      const found = new Map<string, number>();
+      for (let first = 0; first < keys.length; first += KEY_BATCH_SIZE) {
+        const rows = await db.durationCacheEntry.findMany({
+          where: { key: { in: keys.slice(first, first + KEY_BATCH_SIZE) }, expiresAt: { gt: now } },
+        });
+        for (const row of rows) {
+          found.set(row.key, row.durationSec);
+        }
+      }
+      return found;
+    },
+
+    async setMany(entries, expiresAt) {
+      const keys = Array.from(entries.keys());
+      await db.$transaction(async (tx) => {
+        // Expired entries are cleared as new ones come in
+        await tx.durationCacheEntry.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+        for (let first = 0; first < keys.length; first += KEY_BATCH_SIZE) {
+          const batch = keys.slice(first, first + KEY_BATCH_SIZE);
+          await tx.durationCacheEntry.deleteMany({ where: { key: { in: batch } } });
+          await tx.durationCacheEntry.createMany({
+            data: batch.map((key) => ({ key, durationSec: entries.get(key)!, expiresAt })),
+          });
+        }
+      });
+    },
+  };
+}
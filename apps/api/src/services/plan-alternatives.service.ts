@@ -0,0 +1,251 @@
+/**
+ * Plan alternatives service - plan one day towards several objectives and keep the distinct trade-offs
+ *
+ * Every candidate is scored on travel and waiting time, walking distance,
+ * minutes spent outdoors during rain risk and minutes at places during their
+ * peak hours, plus how many of the traveler's activities it visits. A
+ * candidate another one beats on some criterion without losing on any is
+ * dropped, and of candidates scoring the same only the first is kept.
+ */
+import { nanoid } from "nanoid";
+import type {
+  Activity,
+  CrowdSignalItem,
+  Itinerary,
+  LatLng,
+  PlanCandidate,
+  PlanObjective,
+  PlanScore,
+  TravelMode,
+} from "@adaptive/types";
+import { parseHHMM } from "../utils/time.js";
+import { haversineKm } from "../utils/geo.js";
+import { hourSlotSpans, overlapMin, type TimeWindow } from "../utils/time-windows.js";
+import { generateItinerary, type GenerateItineraryParams } from "./planner.service.js";
+
+// Modes smart legs may use when the least-walking plan has no narrower choice
+const NON_WALKING_MODES: TravelMode[] = ["transit", "driving"];
+
+export interface PlanSignals {
+  /** Rain risk hours from the day's weather signal */
+  riskHours: string[];
+  /** Peak hours per place from the day's crowd signal */
+  crowds: CrowdSignalItem[];
+}
+
+/**
+ * Plan the day once per objective the signals make meaningful and return the
+ * Pareto-distinct candidates in objective order, fastest first
+ */
+export async function generatePlanAlternatives(
+  params: GenerateItineraryParams,
+  signals: PlanSignals
+): Promise<PlanCandidate[]> {
+  // Only the balanced plan weighs the stored signals; the others chase one objective
+  const { store, ...single } = params;
+  const variants: Array<{ objective: PlanObjective; params: GenerateItineraryParams }> = [
+    { objective: "fastest", params: single },
+  ];
+  if (store) {
+    variants.push({ objective: "balanced", params });
+  }
+  variants.push({ objective: "least_walking", params: withoutWalking(single) });
+  if (signals.riskHours.length > 0) {
+    variants.push({
+      objective: "indoor_first",
+      params: { ...single, avoidSpans: getWeatherAvoidSpans(params.activities, signals.riskHours) },
+    });
+  }
+  if (signals.crowds.length > 0) {
+    variants.push({
+      objective: "least_crowded",
+      params: { ...single, avoidSpans: getCrowdAvoidSpans(params.activities, signals.crowds) },
+    });
+  }
+
+  const start = params.startLocation ?? params.trip.baseLocation;
+  const end = params.endLocation ?? params.trip.endLocation ?? params.trip.baseLocation;
+
+  // One after another: later variants reuse the durations the first one routed
+  const planned: Array<{ objective: PlanObjective; itinerary: Itinerary; score: PlanScore }> = [];
+  for (const variant of variants) {
+    const itinerary = await generateItinerary(variant.params);
+    planned.push({
+      objective: variant.objective,
+      itinerary,
+      score: scorePlan(itinerary, params.activities, signals, start, end),
+    });
+  }
+
+  const kept: typeof planned = [];
+  const seen = new Set<string>();
+  for (const candidate of planned) {
+    // Plans that score the same offer nothing to choose between
+    const signature = JSON.stringify(candidate.score);
+    if (seen.has(signature)) continue;
+    if (planned.some((other) => dominates(other.score, candidate.score))) continue;
+    seen.add(signature);
+    kept.push(candidate);
+  }
+
+  // Trade-offs are relative to the first plan still offered
+  return kept.map((candidate) => ({
+    candidateId: `alt_${nanoid(12)}`,
+    objective: candidate.objective,
+    itinerary: candidate.itinerary,
+    score: candidate.score,
+    tradeoffs: describeTradeoffs(candidate.score, kept[0].score),
+  }));
+}
+
+/**
+ * Score an itinerary; every criterion but scheduledCount is better lower
+ */
+export function scorePlan(
+  itinerary: Itinerary,
+  activities: Activity[],
+  signals: PlanSignals,
+  start?: LatLng,
+  end?: LatLng
+): PlanScore {
+  const byId = new Map(activities.map((activity) => [activity.activityId, activity]));
+  const riskSpans = hourSlotSpans(signals.riskHours);
+  const peakSpansByPlace = new Map(signals.crowds.map((crowd) => [crowd.placeId, hourSlotSpans(crowd.peakHours)]));
+
+  let walkingKm = 0;
+  let weatherExposureMin = 0;
+  let crowdedMin = 0;
+  let previous = start;
+
+  const walk = (from: LatLng | undefined, to: LatLng, departMin: number, minutes: number) => {
+    if (from) walkingKm += haversineKm(from.lat, from.lng, to.lat, to.lng);
+    weatherExposureMin += overlapMin(departMin, departMin + minutes, riskSpans);
+  };
+
+  for (const item of itinerary.items) {
+    const activity = byId.get(item.activityId);
+    const location = item.location ?? activity?.place;
+    // Rest breaks happen where the traveler already is
+    if (!location) continue;
+
+    const startMin = parseHHMM(item.startTime);
+    const endMin = parseHHMM(item.endTime);
+    if (item.travelMode === "walking") {
+      const arriveMin = startMin - (item.waitMin ?? 0) - (item.bufferMin ?? 0);
+      walk(previous, location, arriveMin - item.travelFromPrevMin, item.travelFromPrevMin);
+    }
+
+    if (activity) {
+      // Places without an indoor flag may be outdoors
+      if (activity.place.isIndoor !== true) {
+        weatherExposureMin += overlapMin(startMin, endMin, riskSpans);
+      }
+      crowdedMin += overlapMin(startMin, endMin, peakSpansByPlace.get(activity.place.providerPlaceId) ?? []);
+    }
+    previous = location;
+  }
+
+  const lastItem = itinerary.items[itinerary.items.length - 1];
+  if (end && lastItem && itinerary.returnTravelMode === "walking" && itinerary.returnTravelMin !== undefined) {
+    walk(previous, end, parseHHMM(lastItem.endTime), itinerary.returnTravelMin);
+  }
+
+  return {
+    travelMin: itinerary.totalTravelMin,
+    waitingMin: itinerary.items.reduce((total, item) => total + (item.waitMin ?? 0), 0),
+    walkingKm: Math.round(walkingKm * 10) / 10,
+    weatherExposureMin,
+    crowdedMin,
+    scheduledCount: itinerary.items.filter((item) => !item.systemAdded).length,
+  };
+}
+
+/**
+ * Whether `a` is at least as good as `b` on every criterion and better on one
+ */
+function dominates(a: PlanScore, b: PlanScore): boolean {
+  const costs = (score: PlanScore) => [
+    score.travelMin,
+    score.waitingMin,
+    score.walkingKm,
+    score.weatherExposureMin,
+    score.crowdedMin,
+    -score.scheduledCount,
+  ];
+  const costsA = costs(a);
+  const costsB = costs(b);
+  return costsA.every((cost, i) => cost <= costsB[i]) && costsA.some((cost, i) => cost < costsB[i]);
+}
+
+/**
+ * What a candidate gives up or gains compared with a reference plan
+ */
+function describeTradeoffs(score: PlanScore, reference: PlanScore): string[] {
+  const tradeoffs: string[] = [];
+
+  const travelDelta = score.travelMin - reference.travelMin;
+  if (travelDelta > 0) tradeoffs.push(`+${travelDelta} min travel`);
+  if (travelDelta < 0) tradeoffs.push(`${-travelDelta} min less travel`);
+
+  const waitingDelta = score.waitingMin - reference.waitingMin;
+  if (waitingDelta > 0) tradeoffs.push(`+${waitingDelta} min waiting`);
+  if (waitingDelta < 0) tradeoffs.push(`${-waitingDelta} min less waiting`);
+
+  const walkingDelta = Math.round((reference.walkingKm - score.walkingKm) * 10) / 10;
+  if (walkingDelta > 0) tradeoffs.push(`${walkingDelta} km less walking`);
+  if (walkingDelta < 0) tradeoffs.push(`${-walkingDelta} km more walking`);
+
+  const weatherDelta = reference.weatherExposureMin - score.weatherExposureMin;
+  if (weatherDelta > 0) tradeoffs.push(`${weatherDelta} fewer min outdoors during rain risk`);
+  if (weatherDelta < 0) tradeoffs.push(`${-weatherDelta} more min outdoors during rain risk`);
+
+  const crowdDelta = reference.crowdedMin - score.crowdedMin;
+  if (crowdDelta > 0) tradeoffs.push(`${crowdDelta} fewer min at peak crowds`);
+  if (crowdDelta < 0) tradeoffs.push(`${-crowdDelta} more min at peak crowds`);
+
+  const stopDelta = score.scheduledCount - reference.scheduledCount;
+  if (stopDelta > 0) tradeoffs.push(`${stopDelta} more ${stopDelta === 1 ? "stop" : "stops"}`);
+  if (stopDelta < 0) tradeoffs.push(`${-stopDelta} fewer ${stopDelta === -1 ? "stop" : "stops"}`);
+
+  return tradeoffs;
+}
+
+/**
+ * The same request with walking legs ruled out: walking days become smart
+ * days over transit and driving, and smart days lose walking from their modes
+ */
+function withoutWalking(params: GenerateItineraryParams): GenerateItineraryParams {
+  if (params.mode !== "walking" && params.mode !== "smart") return params;
+
+  const allowed = params.mode === "smart" ? params.smartMode?.modes : undefined;
+  const modes = (allowed ?? NON_WALKING_MODES).filter((mode) => mode !== "walking");
+  return {
+    ...params,
+    mode: "smart",
+    smartMode: { ...params.smartMode, modes: modes.length > 0 ? modes : NON_WALKING_MODES },
+  };
+}
+
+/**
+ * Rain risk spans for every activity that may be outdoors
+ */
+function getWeatherAvoidSpans(activities: Activity[], riskHours: string[]): Map<string, TimeWindow[]> {
+  const spans = hourSlotSpans(riskHours);
+  return new Map(
+    activities.filter((activity) => activity.place.isIndoor !== true).map((activity) => [activity.activityId, spans])
+  );
+}
+
+/**
+ * Peak-hour spans for every activity the crowd signal covers
+ */
+function getCrowdAvoidSpans(activities: Activity[], crowds: CrowdSignalItem[]): Map<string, TimeWindow[]> {
+  const spans = new Map<string, TimeWindow[]>();
+  for (const activity of activities) {
+    const crowd = crowds.find((c) => c.placeId === activity.place.providerPlaceId);
+    if (crowd && crowd.peakHours.length > 0) {
+      spans.set(activity.activityId, hourSlotSpans(crowd.peakHours));
+    }
+  }
+  return spans;
+}
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ActivityPriority } from "@adaptive/types";
+import type { ActivityRecord, TripRecord } from "../store/index.js";
+import { generateItinerary } from "./planner.service.js";
+
+function trip(startTime: string, endTime: string): TripRecord {
+  return {
+    tripId: "trp_test",
+    city: "Paris",
+    date: "2026-10-20",
+    startTime,
+    endTime,
+    days: [{ date: "2026-10-20", startTime, endTime }],
+    preferences: { pace: "medium", interests: [], avoid: [], budget: "medium" },
+    createdAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+/**
+ * Stops a couple of minutes' walk apart along a street
+ */
+function activity(
+  index: number,
+  durationMin: number,
+  extra: { priority?: ActivityPriority; earliestStart?: string; latestEnd?: string } = {}
+): ActivityRecord {
+  return {
+    activityId: `act_${index}`,
+    place: {
+      provider: "test",
+      providerPlaceId: `place_${index}`,
+      name: `Place ${index}`,
+      lat: 48.85 + index * 0.001,
+      lng: 2.35,
+    },
+    durationMin,
+    locked: false,
+    ...extra,
+    addedAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+async function plan(tripRecord: TripRecord, activities: ActivityRecord[]) {
+  return generateItinerary({
+    trip: tripRecord,
+    activities,
+    mode: "walking",
+    breaks: { meals: false, rest: false },
+  });
+}
+
+describe("generateItinerary on an oversubscribed day", () => {
+  it("keeps must-see stops over wanted ones", async () => {
+    const itinerary = await plan(trip("09:00", "11:00"), [
+      activity(0, 90, { priority: "want" }),
+      activity(1, 90, { priority: "must" }),
+    ]);
+
+    assert.deepEqual(itinerary.items.map((item) => item.activityId), ["act_1"]);
+    const [dropped] = itinerary.unscheduled ?? [];
+    assert.equal(dropped.activityId, "act_0");
+    assert.equal(dropped.reason, "over_time");
+    assert.ok(dropped.extraTimeMin !== undefined && dropped.extraTimeMin > 0);
+  });
+
+  it("reports stops beyond the pace's limit without extra time", async () => {
+    const itinerary = await plan(
+      trip("09:00", "20:00"),
+      Array.from({ length: 8 }, (_, index) => activity(index, 15))
+    );
+
+    assert.equal(itinerary.items.length, 6);
+    assert.equal(itinerary.unscheduled?.length, 2);
+    for (const dropped of itinerary.unscheduled ?? []) {
+      assert.equal(dropped.reason, "pace_limit");
+      assert.equal(dropped.extraTimeMin, undefined);
+    }
+  });
+
+  it("leaves out one long stop rather than several short ones of the same priority", async () => {
+    const itinerary = await plan(trip("09:00", "12:00"), [
+      activity(0, 150),
+      activity(1, 50),
+      activity(2, 50),
+      activity(3, 50),
+    ]);
+
+    assert.deepEqual(
+      itinerary.items.map((item) => item.activityId),
+      ["act_1", "act_2", "act_3"]
+    );
+    assert.deepEqual(
+      (itinerary.unscheduled ?? []).map((entry) => [entry.activityId, entry.reason]),
+      [["act_0", "over_time"]]
+    );
+  });
+
+  it("reports a stop with no legal start by its window, not as left out", async () => {
+    const itinerary = await plan(trip("09:00", "12:00"), [
+      activity(0, 30, { earliestStart: "07:00", latestEnd: "08:00" }),
+      activity(1, 60),
+      activity(2, 60),
+      activity(3, 60),
+      activity(4, 60),
+    ]);
+
+    const reasons = new Map((itinerary.unscheduled ?? []).map((entry) => [entry.activityId, entry.reason]));
+    assert.equal(reasons.get("act_0"), "outside_time_window");
+    assert.equal([...reasons.values()].filter((reason) => reason === "outside_time_window").length, 1);
+    assert.ok([...reasons.entries()].some(([id, reason]) => id !== "act_0" && reason === "over_time"));
+    assert.ok(!itinerary.items.some((item) => item.activityId === "act_0"));
+  });
+});
@@ -1,29 +1,138 @@
 /**
  * Planner service for generating itineraries
  */
-import type { Itinerary, ItineraryItem, LatLng } from "@adaptive/types";
-import type { TripRecord, ActivityRecord } from "../store/store.js";
+import type {
+  ActivityPriority,
+  BreakOptions,
+  Budget,
+  Itinerary,
+  ItineraryItem,
+  ItineraryOptimization,
+  LatLng,
+  MealWindow,
+  PinConflict,
+  PreferenceEffects,
+  RoutingProviderName,
+  SmartModeOptions,
+  TravelMode,
+  TripDay,
+  UnscheduledActivity,
+} from "@adaptive/types";
+import type { TripRecord, ActivityRecord, TripStore } from "../store/index.js";
 import { parseHHMM, formatHHMM } from "../utils/time.js";
 import { haversineKm, estimateTravelMin } from "../utils/geo.js";
-import { getDurationMatrixMapbox, getMapboxProfile } from "@adaptive/integrations";
 import { shouldAvoidCategory, resolveAvoidKeywords } from "../utils/categories.js";
+import { BUDGET_PROFILES, PACE_PROFILES, estimateCost, scaleDuration } from "../utils/preferences.js";
+import { chooseLegMode, getLegModeLimits, type LegModeLimits, type TravelLeg } from "../utils/travel-mode.js";
+import {
+  getActivityWindows,
+  earliestFeasibleStart,
+  excludeSpans,
+  getPinWindow,
+  isClosedOn,
+  type TimeWindow,
+} from "../utils/time-windows.js";
+import { optimizeRoute, type RouteTiming } from "./route-optimizer.service.js";
+import { findMealPlace, getDefaultMealWindows, type MealName } from "./breaks.service.js";
+import { getDurationMatrix, getRoutingProvider } from "./routing.service.js";
+import { createSignalCost, getTransitDelayMin, loadPlanningSignals } from "./planning-signals.service.js";
+
+// Days with at most this many stops and meals choose which to keep by trying every subset
+const EXACT_SELECTION_MAX_STOPS = 10;
+
+// Stops in a lower tier are always left out before any stop in a higher one
+const PRIORITY_RANK: Record<ActivityPriority, number> = {
+  optional: 0,
+  want: 1,
+  must: 2,
+};
 
 export interface GenerateItineraryParams {
   trip: TripRecord;
   activities: ActivityRecord[];
-  mode: "driving" | "walking" | "transit";
+  /** "smart" picks walking, transit or driving for each leg */
+  mode: TravelMode | "smart";
+  /** Limits for smart mode legs */
+  smartMode?: SmartModeOptions;
+  /** Defaults to the provider configured for the trip's city */
+  routingProvider?: RoutingProviderName;
+  /** Defaults to the trip's base location */
   startLocation?: LatLng;
+  /** Defaults to the trip's end location, then its base location */
+  endLocation?: LatLng;
   optimizeOrder?: boolean;
+  /** Meal and rest breaks; both on when omitted */
+  breaks?: BreakOptions;
+  /** Meals already had today, e.g. before a mid-day replan */
+  skipMeals?: MealName[];
+  /**
+   * Spans of the day each activity should stay out of (activityId -> spans),
+   * e.g. rain for outdoor stops; ignored for an activity when they leave no
+   * room for its visit
+   */
+  avoidSpans?: Map<string, TimeWindow[]>;
+  /**
+   * Where the day's weather, crowd, transit and community signals are read
+   * from; when given they are weighed against travel with the trip's weights
+   */
+  store?: TripStore;
 }
 
 /**
- * Generate an itinerary for a trip based on activities
- * Phase 2: Adds route optimization using Mapbox Matrix API
+ * A place the route passes through, with its index in the duration matrix
+ */
+interface RoutePoint {
+  location: LatLng;
+  matrixIndex: number;
+}
+
+/**
+ * Everything needed to lay out a day once the visiting order is known
+ */
+interface ScheduleContext {
+  date: string;
+  startMin: number;
+  /** Transition time between consecutive stops */
+  bufferMin: number;
+  /** Visiting time after which a rest break is added */
+  restEveryMin: number;
+  /** Length of a rest break; 0 adds none */
+  restMin: number;
+  /** Ids of system-added meal stops */
+  meals: Set<string>;
+  start?: RoutePoint;
+  end?: RoutePoint;
+  points: Map<string, RoutePoint>; // activityId -> point; matrixIndex -1 when off the matrix
+  windows: Map<string, TimeWindow[]>; // activityId -> legal windows
+  travel: (from: RoutePoint, to: RoutePoint) => TravelLeg;
+}
+
+interface DaySchedule {
+  items: ItineraryItem[];
+  /** Activities no legal start could be found for */
+  unscheduled: UnscheduledActivity[];
+  /** Pinned activities the route reaches too late */
+  pinConflicts: PinConflict[];
+  /** Travel between stops, excluding the return leg */
+  travelMin: number;
+  returnTravelMin?: number;
+  returnTravelMode?: TravelMode;
+  /** When the day finishes, including the return leg */
+  finishMin: number;
+}
+
+/**
+ * Generate an itinerary for a trip based on activities, ordering stops with
+ * travel times from the trip's routing provider
  */
 export async function generateItinerary(
   params: GenerateItineraryParams
 ): Promise<Itinerary> {
-  const { trip, activities, mode, startLocation, optimizeOrder = true } = params;
+  const { trip, activities, mode, optimizeOrder = true } = params;
+  const legLimits = getLegModeLimits(params.smartMode);
+  const breaks = params.breaks ?? { meals: true, rest: true };
+  const startLocation = params.startLocation ?? trip.baseLocation;
+  const endLocation = params.endLocation ?? trip.endLocation ?? trip.baseLocation;
 
   if (activities.length === 0) {
     return { items: [], totalTravelMin: 0 };
@@ -35,261 +144,733 @@ export async function generateItinerary(
   // Resolve simple keywords like "history" to "no-museums"
   const resolvedAvoid = resolveAvoidKeywords(avoid);
 
-  // Filter out activities with avoided categories
+  // Set aside activities with avoided categories; they are reported, not planned
+  const avoided: UnscheduledActivity[] = [];
   let filteredActivities = activities;
   if (resolvedAvoid.length > 0) {
     filteredActivities = activities.filter(activity => {
-      const category = activity.place.category;
-      return !shouldAvoidCategory(category, resolvedAvoid);
+      if (!shouldAvoidCategory(activity.place.category, resolvedAvoid)) return true;
+      avoided.push({
+        activityId: activity.activityId,
+        placeName: activity.place.name,
+        reason: "avoided_category",
+      });
+      return false;
     });
     
     if (filteredActivities.length === 0) {
       console.log("[Planner] All activities filtered out due to avoid preferences");
-      return { items: [], totalTravelMin: 0 };
+      return { items: [], totalTravelMin: 0, unscheduled: avoided };
     }
     
-    if (filteredActivities.length < activities.length) {
-      console.log(`[Planner] Filtered out ${activities.length - filteredActivities.length} activities due to avoid preferences`);
+    if (avoided.length > 0) {
+      console.log(`[Planner] Filtered out ${avoided.length} activities due to avoid preferences`);
     }
   }
 
+  // Pace stretches or shortens visits; pinned appointments keep their length
+  const pace = trip.preferences?.pace ?? "medium";
+  const paceProfile = PACE_PROFILES[pace];
+  filteredActivities = filteredActivities.map((activity) =>
+    activity.pinnedStart ? activity : { ...activity, durationMin: scaleDuration(activity.durationMin, paceProfile) }
+  );
+
   const tripStartMin = parseHHMM(trip.startTime);
   const tripEndMin = parseHHMM(trip.endTime);
 
-  // Determine if we should optimize and if we have necessary API credentials
-  const mapboxToken = process.env.MAPBOX_ACCESS_TOKEN || "";
-  const shouldOptimize = optimizeOrder && mapboxToken && filteredActivities.length > 1;
+  // Opening hours and earliest/latest constraints for this day
+  const windows = filteredActivities.map((activity) => {
+    const activityWindows = getActivityWindows(activity, trip.date);
+    const avoid = params.avoidSpans?.get(activity.activityId);
+    if (!avoid || activity.pinnedStart) return activityWindows;
+    const narrowed = excludeSpans(activityWindows, avoid);
+    return narrowed.some((window) => window.closeMin - window.openMin >= activity.durationMin)
+      ? narrowed
+      : activityWindows;
+  });
+
+  // Rain, peak crowds and nearby reports cost as much as the trip's weights say
+  const signals = params.store ? await loadPlanningSignals(params.store, trip) : undefined;
+  const signalCost = signals ? createSignalCost(signals, trip.date) : undefined;
+  const transitDelayMin = signals ? getTransitDelayMin(signals) : 0;
 
+  // Every provider can supply a matrix; haversine estimates need no network
+  const shouldOptimize = optimizeOrder && filteredActivities.length > 1;
+
+  const provider = getRoutingProvider(trip.city, params.routingProvider);
   let orderedActivities = filteredActivities;
   let durationMatrix: number[][] | null = null;
+  let modeMatrix: TravelMode[][] | null = null;
+  let optimization: ItineraryOptimization | undefined;
+  const endMatrixIndex = endLocation
+    ? getEndMatrixIndex(filteredActivities.length, startLocation, endLocation)
+    : -1;
 
   if (shouldOptimize) {
     try {
-      // Build duration matrix using Mapbox
-      const coordinates = buildCoordinateList(filteredActivities, startLocation);
-      
-      // Choose profile based on mode
-      const trafficProfile = process.env.MAPBOX_TRAFFIC_PROFILE || "mapbox/driving-traffic";
-      const profile = getMapboxProfile(mode, trafficProfile);
-
-      durationMatrix = await getDurationMatrixMapbox(profile, coordinates, mapboxToken);
-
-      // Optimize activity order using nearest-neighbor with locked activities constraint
-      orderedActivities = optimizeActivityOrder(
-        activities,
+      // Build duration matrix with the routing provider, reusing cached legs
+      const coordinates = buildCoordinateList(filteredActivities, startLocation, endLocation);
+      const fetchMatrix = (travelMode: TravelMode) =>
+        getDurationMatrix(provider, travelMode, coordinates, tripStartMin);
+
+      if (mode === "smart") {
+        // Route walking and driving, then keep whichever mode each leg picks
+        const [walkingMatrix, drivingMatrix] = await Promise.all([fetchMatrix("walking"), fetchMatrix("driving")]);
+        const smart = buildSmartMatrix(coordinates, walkingMatrix, drivingMatrix, legLimits, transitDelayMin);
+        durationMatrix = smart.durations;
+        modeMatrix = smart.modes;
+      } else {
+        durationMatrix = await fetchMatrix(mode);
+        if (mode === "transit" && transitDelayMin > 0) {
+          // Alerted delays hold up every transit leg
+          durationMatrix = durationMatrix.map((row, i) =>
+            row.map((durationSec, j) => (i === j ? durationSec : durationSec + transitDelayMin * 60))
+          );
+        }
+      }
+
+      // Optimize activity order with local search around locked anchors
+      const optimized = optimizeActivityOrder(
+        filteredActivities,
         durationMatrix,
-        startLocation ? 1 : 0 // Offset if we have a start location
+        startLocation ? 1 : 0, // Offset if we have a start location
+        endLocation ? endMatrixIndex : undefined,
+        {
+          startMin: tripStartMin,
+          durationsMin: filteredActivities.map((activity) => activity.durationMin + paceProfile.bufferMin),
+          windows,
+          stopCostSec: signalCost && ((pos, startMin) => signalCost(filteredActivities[pos], startMin)),
+        }
       );
-
-      console.log("Route optimized using Mapbox Matrix API");
+      orderedActivities = optimized.ordered;
+      optimization = { ...optimized.optimization, routingProvider: provider.name };
     } catch (error) {
       console.warn("Failed to optimize route, falling back to original order:", error);
       // Fall back to original order if optimization fails
     }
   }
 
-  // Build itinerary with ordered activities
-  const items: ItineraryItem[] = [];
-  let totalTravelMin = 0;
-  let currentTimeMin = tripStartMin;
-  let prevLocation: LatLng | null = startLocation || null;
-  let prevMatrixIndex = startLocation ? 0 : -1;
-
-  for (let i = 0; i < orderedActivities.length; i++) {
-    const activity = orderedActivities[i];
-    const currentLocation: LatLng = {
-      lat: activity.place.lat,
-      lng: activity.place.lng,
-    };
+  const offset = startLocation ? 1 : 0;
+  const matrix = durationMatrix;
+  const modes = modeMatrix;
+  const context: ScheduleContext = {
+    date: trip.date,
+    startMin: tripStartMin,
+    bufferMin: paceProfile.bufferMin,
+    restEveryMin: paceProfile.restEveryMin,
+    restMin: breaks.rest ? paceProfile.restMin : 0,
+    meals: new Set(),
+    start: startLocation ? { location: startLocation, matrixIndex: 0 } : undefined,
+    end: endLocation ? { location: endLocation, matrixIndex: endMatrixIndex } : undefined,
+    points: new Map(
+      filteredActivities.map((activity, index) => [
+        activity.activityId,
+        { location: { lat: activity.place.lat, lng: activity.place.lng }, matrixIndex: index + offset },
+      ])
+    ),
+    windows: new Map(filteredActivities.map((activity, index) => [activity.activityId, windows[index]])),
+    travel: (from, to) => {
+      if (matrix && from.matrixIndex >= 0 && to.matrixIndex >= 0) {
+        // Use real travel time from matrix
+        return {
+          mode: modes ? modes[from.matrixIndex][to.matrixIndex] : (mode as TravelMode),
+          minutes: Math.round(matrix[from.matrixIndex][to.matrixIndex] / 60),
+        };
+      }
+      // Fallback to haversine estimation
+      const distanceKm = haversineKm(from.location.lat, from.location.lng, to.location.lat, to.location.lng);
+      const transitMin = estimateTravelMin(distanceKm, "transit") + transitDelayMin;
+      if (mode === "smart") return chooseLegMode(distanceKm, legLimits, { transit: transitMin });
+      return { mode, minutes: mode === "transit" ? transitMin : estimateTravelMin(distanceKm, mode) };
+    },
+  };
 
-    // Find the matrix index for this activity
-    const originalIndex = activities.findIndex(a => a.activityId === activity.activityId);
-    const currentMatrixIndex = startLocation ? originalIndex + 1 : originalIndex;
+  const budget = trip.preferences?.budget ?? "medium";
+  const budgetProfile = BUDGET_PROFILES[budget];
 
-    // Calculate travel time from previous location
-    let travelFromPrevMin = 0;
-    if (prevLocation && prevMatrixIndex >= 0) {
-      if (durationMatrix) {
-        // Use real travel time from matrix
-        const travelSec = durationMatrix[prevMatrixIndex][currentMatrixIndex];
-        travelFromPrevMin = Math.round(travelSec / 60);
-      } else {
-        // Fallback to haversine estimation
-        const distanceKm = haversineKm(
-          prevLocation.lat,
-          prevLocation.lng,
-          currentLocation.lat,
-          currentLocation.lng
-        );
-        travelFromPrevMin = estimateTravelMin(distanceKm, mode);
+  // Fit meal breaks in, eating near wherever the traveler is at the time
+  if (breaks.meals && !resolvedAvoid.includes("no-food")) {
+    const mealWindows = {
+      ...getDefaultMealWindows(),
+      ...(breaks.lunch && { lunch: breaks.lunch }),
+      ...(breaks.dinner && { dinner: breaks.dinner }),
+    };
+    for (const meal of ["lunch", "dinner"] as const) {
+      if (params.skipMeals?.includes(meal)) continue;
+      const window = mealWindows[meal];
+      const fitsDay =
+        parseHHMM(window.start) + window.durationMin <= tripEndMin &&
+        parseHHMM(window.end) - window.durationMin >= tripStartMin;
+      if (fitsDay) {
+        orderedActivities = await insertMeal(meal, window, orderedActivities, context, resolvedAvoid, budget);
       }
-      totalTravelMin += travelFromPrevMin;
     }
+  }
 
-    // Schedule this activity
-    const startTime = currentTimeMin + travelFromPrevMin;
-    const endTime = startTime + activity.durationMin;
+  // When the day is oversubscribed, choose the stops worth the most priority
+  // that fit the pace's stop limit and (return leg included) finish by the
+  // trip end time. Small days try every choice of stops; larger ones drop
+  // stops until the day fits and put back whatever fits again, which is
+  // best-effort and can keep less than the best choice would.
+  const fitsDay = (result: DaySchedule) =>
+    countStops(result.items) <= paceProfile.maxStops && result.finishMin <= tripEndMin;
+  const candidates = orderedActivities;
+  let schedule = scheduleDay(orderedActivities, context);
+  // Activities with no legal start keep that reason and are not chosen between
+  const unplaceable = new Set(schedule.unscheduled.map((entry) => entry.activityId));
+  if (!fitsDay(schedule)) {
+    const placeable = candidates.filter((activity) => !unplaceable.has(activity.activityId));
+    const selected =
+      (placeable.length <= EXACT_SELECTION_MAX_STOPS && selectStopsExhaustively(placeable, context, fitsDay)) ||
+      selectStopsGreedily(placeable, context, fitsDay);
+    orderedActivities = selected.order;
+    schedule = { ...selected.schedule, unscheduled: [...schedule.unscheduled, ...selected.schedule.unscheduled] };
+  }
 
-    // Check if we exceed the trip end time
-    if (endTime > tripEndMin) {
-      console.warn(
-        `Activity ${activity.activityId} (${activity.place.name}) ends at ${formatHHMM(endTime)}, ` +
-        `which exceeds trip end time ${trip.endTime}.`
-      );
+  // Whatever was left out would break the stop limit if put back when the
+  // day is already full, and otherwise makes the day run too long
+  const keptIds = new Set(orderedActivities.map((activity) => activity.activityId));
+  const dayFull = countStops(schedule.items) >= paceProfile.maxStops;
+
+  // Meals are the planner's own additions, so only the traveler's activities are reported
+  const dropped: UnscheduledActivity[] = candidates
+    .filter(
+      (activity) =>
+        !keptIds.has(activity.activityId) &&
+        !unplaceable.has(activity.activityId) &&
+        !context.meals.has(activity.activityId)
+    )
+    .map((activity) => {
+      const best = dayFull ? null : bestInsertion(activity, orderedActivities, context, schedule);
+      return {
+        activityId: activity.activityId,
+        placeName: activity.place.name,
+        reason: dayFull ? "pace_limit" : "over_time",
+        priority: stopPriority(activity, context),
+        ...(best && { extraTimeMin: Math.max(0, best.schedule.finishMin - tripEndMin) }),
+      };
+    });
+
+  const unscheduled = [...schedule.unscheduled, ...dropped, ...avoided];
+  const totalTravelMin = schedule.travelMin + (schedule.returnTravelMin ?? 0);
+
+  // Report how pace and budget shaped the day
+  const scheduledIds = new Set(schedule.items.map((item) => item.activityId));
+  const preferenceEffects: PreferenceEffects = {
+    pace: {
+      pace,
+      ...paceProfile,
+      droppedCount: dropped.filter((entry) => entry.reason === "pace_limit").length,
+    },
+    budget: {
+      budget,
+      maxPriceTier: budgetProfile.maxPriceTier,
+      estimatedTotalCost: schedule.items.reduce((sum, item) => sum + (item.estimatedCost ?? 0), 0),
+      overBudgetActivityIds: orderedActivities
+        .filter(
+          (activity) =>
+            scheduledIds.has(activity.activityId) &&
+            activity.place.priceTier !== undefined &&
+            activity.place.priceTier > budgetProfile.maxPriceTier
+        )
+        .map((activity) => activity.activityId),
+    },
+  };
+
+  return {
+    items: schedule.items,
+    totalTravelMin,
+    ...(schedule.returnTravelMin !== undefined && {
+      returnTravelMin: schedule.returnTravelMin,
+      returnTravelMode: schedule.returnTravelMode,
+    }),
+    optimization,
+    ...(unscheduled.length > 0 && { unscheduled }),
+    ...(schedule.pinConflicts.length > 0 && { pinConflicts: schedule.pinConflicts }),
+    preferenceEffects,
+  };
+}
+
+/**
+ * Lay out activities in the given order, waiting for places to open and
+ * skipping any that have no legal start, then add the return leg.
+ * A pinned activity the route reaches too late is kept and reported as a conflict.
+ * Rest breaks are added once enough visiting time has passed since the last break.
+ */
+function scheduleDay(orderedActivities: ActivityRecord[], context: ScheduleContext): DaySchedule {
+  const items: ItineraryItem[] = [];
+  const unscheduled: UnscheduledActivity[] = [];
+  const pinConflicts: PinConflict[] = [];
+  let travelMin = 0;
+  let currentTimeMin = context.startMin;
+  let prev = context.start;
+  let visitingSinceBreakMin = 0;
+  let restCount = 0;
+
+  for (const activity of orderedActivities) {
+    const point = context.points.get(activity.activityId)!;
+    const isMeal = context.meals.has(activity.activityId);
+
+    // Rest where the last visit ended before moving on; a meal is already a break
+    if (context.restMin > 0 && !isMeal && items.length > 0 && visitingSinceBreakMin >= context.restEveryMin) {
+      restCount++;
+      items.push({
+        activityId: `brk_rest_${restCount}`,
+        placeName: "Rest break",
+        startTime: formatHHMM(currentTimeMin),
+        endTime: formatHHMM(currentTimeMin + context.restMin),
+        travelFromPrevMin: 0,
+        systemAdded: true,
+        breakKind: "rest",
+      });
+      currentTimeMin += context.restMin;
+      visitingSinceBreakMin = 0;
     }
 
+    // Calculate travel time from previous location
+    const leg = prev ? context.travel(prev, point) : null;
+    const travelFromPrevMin = leg?.minutes ?? 0;
+    const bufferMin = items.length > 0 ? context.bufferMin : 0;
+
+    // Schedule this activity at the first legal time, waiting for it to open if needed
+    const arrivalTime = currentTimeMin + travelFromPrevMin + bufferMin;
+    let startTime = earliestFeasibleStart(
+      arrivalTime,
+      activity.durationMin,
+      context.windows.get(activity.activityId)!
+    );
+    const pinWindow = getPinWindow(activity);
+    if (startTime === null && pinWindow && arrivalTime > pinWindow.closeMin - activity.durationMin) {
+      startTime = arrivalTime;
+      pinConflicts.push({
+        activityId: activity.activityId,
+        placeName: activity.place.name,
+        pinnedStart: activity.pinnedStart!,
+        scheduledStart: formatHHMM(startTime),
+        lateMin: startTime - parseHHMM(activity.pinnedStart!),
+      });
+    }
+    if (startTime === null) {
+      if (isMeal) continue;
+      unscheduled.push({
+        activityId: activity.activityId,
+        placeName: activity.place.name,
+        reason: isClosedOn(activity, context.date) ? "closed" : "outside_time_window",
+      });
+      continue;
+    }
+    const endTime = startTime + activity.durationMin;
+    const waitMin = startTime - arrivalTime;
+    const estimatedCost = estimateCost(activity.place.priceTier);
+    travelMin += travelFromPrevMin;
+
     items.push({
       activityId: activity.activityId,
       placeName: activity.place.name,
       startTime: formatHHMM(startTime),
       endTime: formatHHMM(endTime),
       travelFromPrevMin,
+      ...(leg && { travelMode: leg.mode }),
+      ...(waitMin > 0 && { waitMin }),
+      ...(pinWindow && { pinned: true }),
+      ...(bufferMin > 0 && { bufferMin }),
+      ...(estimatedCost !== undefined && { estimatedCost }),
+      ...(isMeal && { systemAdded: true, breakKind: "meal" as const, location: point.location }),
     });
 
     // Update for next iteration
     currentTimeMin = endTime;
-    prevLocation = currentLocation;
-    prevMatrixIndex = currentMatrixIndex;
+    prev = point;
+    visitingSinceBreakMin = isMeal ? 0 : visitingSinceBreakMin + activity.durationMin;
+  }
+
+  if (!context.end || !prev || items.length === 0) {
+    return { items, unscheduled, pinConflicts, travelMin, finishMin: currentTimeMin };
   }
 
+  // Return leg from the last stop to the end location (usually the hotel)
+  const returnLeg = context.travel(prev, context.end);
   return {
     items,
-    totalTravelMin,
+    unscheduled,
+    pinConflicts,
+    travelMin,
+    returnTravelMin: returnLeg.minutes,
+    returnTravelMode: returnLeg.mode,
+    finishMin: currentTimeMin + returnLeg.minutes,
   };
 }
 
 /**
- * Build coordinate list for Mapbox Matrix API
- * If startLocation is provided, it becomes the first coordinate
+ * Fit a meal into its window at whichever position in the day finishes
+ * earliest without pushing other stops out of their windows. The meal place
+ * is looked up near the stop the traveler is at when the window opens.
+ * Returns the order unchanged when the meal does not fit.
  */
-function buildCoordinateList(
-  activities: ActivityRecord[],
-  startLocation?: LatLng
-): Array<{ lat: number; lng: number }> {
-  const coords: Array<{ lat: number; lng: number }> = [];
+async function insertMeal(
+  meal: MealName,
+  window: MealWindow,
+  orderedActivities: ActivityRecord[],
+  context: ScheduleContext,
+  avoid: string[],
+  budget: Budget
+): Promise<ActivityRecord[]> {
+  const openMin = parseHHMM(window.start);
+  const baseline = scheduleDay(orderedActivities, context);
+
+  const visits = baseline.items.filter((item) => context.points.has(item.activityId));
+  const anchorItem = [...visits].reverse().find((item) => parseHHMM(item.startTime) <= openMin) ?? visits[0];
+  const anchor = anchorItem ? context.points.get(anchorItem.activityId)!.location : context.start?.location;
+  if (!anchor) return orderedActivities;
+
+  const place = await findMealPlace(meal, anchor, avoid, budget);
+  const mealActivity: ActivityRecord = {
+    activityId: `brk_${meal}`,
+    place,
+    durationMin: window.durationMin,
+    locked: false,
+    date: context.date,
+    addedAt: new Date().toISOString(),
+  };
+  context.points.set(mealActivity.activityId, { location: { lat: place.lat, lng: place.lng }, matrixIndex: -1 });
+  context.windows.set(mealActivity.activityId, [{ openMin, closeMin: parseHHMM(window.end) }]);
+  context.meals.add(mealActivity.activityId);
+
+  const best = bestInsertion(mealActivity, orderedActivities, context, baseline);
+  // No room for the meal in its window; the day goes without it
+  if (!best) {
+    context.meals.delete(mealActivity.activityId);
+    return orderedActivities;
+  }
+  return best.order;
+}
 
-  if (startLocation) {
-    coords.push(startLocation);
+/**
+ * Try every subset of the day's stops, keeping their order, and pick the one
+ * that fits with the most stops of the highest priority tiers; ties go to
+ * fewer missed pins, then the earliest finish. Null when nothing fits.
+ */
+function selectStopsExhaustively(
+  orderedActivities: ActivityRecord[],
+  context: ScheduleContext,
+  fitsDay: (result: DaySchedule) => boolean
+): { order: ActivityRecord[]; schedule: DaySchedule } | null {
+  const byId = new Map(orderedActivities.map((activity) => [activity.activityId, activity]));
+  // Scheduled stops per tier, highest tier first
+  const tierCounts = (result: DaySchedule) => {
+    const counts = [0, 0, 0];
+    for (const item of result.items) {
+      const activity = byId.get(item.activityId);
+      if (activity) counts[2 - PRIORITY_RANK[stopPriority(activity, context)]]++;
+    }
+    return counts;
+  };
+  const isBetter = (result: DaySchedule, best: DaySchedule) => {
+    const counts = tierCounts(result);
+    const bestCounts = tierCounts(best);
+    for (let tier = 0; tier < counts.length; tier++) {
+      if (counts[tier] !== bestCounts[tier]) return counts[tier] > bestCounts[tier];
+    }
+    if (result.pinConflicts.length !== best.pinConflicts.length) {
+      return result.pinConflicts.length < best.pinConflicts.length;
+    }
+    return result.finishMin < best.finishMin;
+  };
+
+  let best: { order: ActivityRecord[]; schedule: DaySchedule } | null = null;
+  for (let mask = 0; mask < 1 << orderedActivities.length; mask++) {
+    const order = orderedActivities.filter((_, index) => mask & (1 << index));
+    const result = scheduleDay(order, context);
+    if (fitsDay(result) && (!best || isBetter(result, best.schedule))) {
+      best = { order, schedule: result };
+    }
   }
+  return best;
+}
 
-  for (const activity of activities) {
-    coords.push({
-      lat: activity.place.lat,
-      lng: activity.place.lng,
-    });
+/**
+ * Drop stops from an overlong day until it fits, then put back, highest
+ * priority first, any that fit again
+ */
+function selectStopsGreedily(
+  orderedActivities: ActivityRecord[],
+  context: ScheduleContext,
+  fitsDay: (result: DaySchedule) => boolean
+): { order: ActivityRecord[]; schedule: DaySchedule } {
+  const left: ActivityRecord[] = [];
+  let order = orderedActivities;
+  let schedule = scheduleDay(order, context);
+  while (!fitsDay(schedule) && schedule.items.length > 0) {
+    const dropId = pickActivityToDrop(schedule.items, order, context);
+    left.push(order.find((activity) => activity.activityId === dropId)!);
+    order = order.filter((activity) => activity.activityId !== dropId);
+    schedule = scheduleDay(order, context);
   }
 
-  return coords;
+  // Dropping a long stop can free room for shorter ones left out before it
+  const byRank = [...left].sort(
+    (a, b) => PRIORITY_RANK[stopPriority(b, context)] - PRIORITY_RANK[stopPriority(a, context)]
+  );
+  for (const activity of byRank) {
+    const best = bestInsertion(activity, order, context, schedule);
+    if (best && fitsDay(best.schedule)) {
+      order = best.order;
+      schedule = best.schedule;
+    }
+  }
+
+  return { order, schedule };
 }
 
 /**
- * Optimize activity order using nearest-neighbor algorithm
- * Respects locked activities by keeping them in their original positions
- * @param activities - Original activities array
- * @param durationMatrix - Duration matrix from Mapbox (in seconds)
- * @param offset - Offset for matrix indices (1 if startLocation is included, 0 otherwise)
+ * Cheapest place to put a left-out stop back into the day: the position that
+ * finishes earliest without leaving out or delaying anything else.
+ * Null when there is no such position.
  */
-function optimizeActivityOrder(
+function bestInsertion(
+  activity: ActivityRecord,
+  orderedActivities: ActivityRecord[],
+  context: ScheduleContext,
+  current: DaySchedule
+): { order: ActivityRecord[]; schedule: DaySchedule } | null {
+  let best: { order: ActivityRecord[]; schedule: DaySchedule } | null = null;
+  for (let position = 0; position <= orderedActivities.length; position++) {
+    const order = [...orderedActivities.slice(0, position), activity, ...orderedActivities.slice(position)];
+    const result = scheduleDay(order, context);
+    const fits =
+      result.items.some((item) => item.activityId === activity.activityId) &&
+      result.unscheduled.length <= current.unscheduled.length &&
+      result.pinConflicts.length <= current.pinConflicts.length;
+    if (fits && (!best || result.finishMin < best.schedule.finishMin)) {
+      best = { order, schedule: result };
+    }
+  }
+  return best;
+}
+
+/**
+ * Number of the traveler's own stops, leaving out system-added breaks
+ */
+function countStops(items: ItineraryItem[]): number {
+  return items.filter((item) => !item.systemAdded).length;
+}
+
+/**
+ * Choose which scheduled stop to drop from an overlong day: the lowest
+ * priority tier first, then the one that frees the most time (its visit plus
+ * the detour to reach it), then the latest in the day
+ */
+function pickActivityToDrop(
+  allItems: ItineraryItem[],
   activities: ActivityRecord[],
-  durationMatrix: number[][],
-  offset: number
-): ActivityRecord[] {
-  if (activities.length <= 1) {
-    return activities;
+  context: ScheduleContext
+): string {
+  // Rest breaks follow from the visits around them and are never dropped directly
+  const items = allItems.filter((item) => context.points.has(item.activityId));
+  const byId = new Map(activities.map((activity) => [activity.activityId, activity]));
+  const pointAt = (index: number) =>
+    index < 0 ? context.start : index >= items.length ? context.end : context.points.get(items[index].activityId);
+
+  let bestId = items[items.length - 1].activityId;
+  let bestRank = Infinity;
+  let bestSavedMin = -Infinity;
+
+  for (let i = 0; i < items.length; i++) {
+    const { activityId } = items[i];
+    const activity = byId.get(activityId)!;
+    const rank = PRIORITY_RANK[stopPriority(activity, context)];
+    const prev = pointAt(i - 1);
+    const next = pointAt(i + 1);
+    const point = context.points.get(activityId)!;
+
+    // Travel saved by going straight from the previous stop to the next one
+    let detourMin = 0;
+    if (prev) detourMin += context.travel(prev, point).minutes;
+    if (next) detourMin += context.travel(point, next).minutes;
+    if (prev && next) detourMin -= context.travel(prev, next).minutes;
+    const savedMin = activity.durationMin + detourMin;
+
+    if (rank < bestRank || (rank === bestRank && savedMin >= bestSavedMin)) {
+      bestId = activityId;
+      bestRank = rank;
+      bestSavedMin = savedMin;
+    }
   }
 
-  // Separate locked and unlocked activities
-  const locked: Array<{ index: number; activity: ActivityRecord }> = [];
-  const unlocked: ActivityRecord[] = [];
+  return bestId;
+}
+
+/**
+ * How much the traveler wants a stop. Unless set explicitly, pinned
+ * appointments are musts and everything else, meals included, is a want.
+ */
+function stopPriority(activity: ActivityRecord, context: ScheduleContext): ActivityPriority {
+  if (context.meals.has(activity.activityId)) return "want";
+  return activity.priority ?? (activity.pinnedStart ? "must" : "want");
+}
 
-  activities.forEach((activity, index) => {
-    if (activity.locked) {
-      locked.push({ index, activity });
+/**
+ * Split a trip's activities across its days.
+ * Activities assigned to a day stay there; the rest are packed longest-first
+ * onto whichever day has the most free time left, so days fill evenly.
+ * Each day keeps the activities' original relative order.
+ */
+export function distributeActivitiesAcrossDays(
+  days: TripDay[],
+  activities: ActivityRecord[]
+): Map<string, ActivityRecord[]> {
+  const freeMin = new Map(days.map((day) => [day.date, parseHHMM(day.endTime) - parseHHMM(day.startTime)]));
+  const dayOf = new Map<string, string>();
+
+  const unassigned: ActivityRecord[] = [];
+  for (const activity of activities) {
+    if (activity.date && freeMin.has(activity.date)) {
+      dayOf.set(activity.activityId, activity.date);
+      freeMin.set(activity.date, freeMin.get(activity.date)! - activity.durationMin);
     } else {
-      unlocked.push(activity);
+      unassigned.push(activity);
     }
-  });
+  }
 
-  // If all activities are locked, keep original order
-  if (unlocked.length === 0) {
-    return activities;
+  const longestFirst = [...unassigned].sort((a, b) => b.durationMin - a.durationMin);
+  for (const activity of longestFirst) {
+    let bestDate = days[0].date;
+    for (const day of days) {
+      if (freeMin.get(day.date)! > freeMin.get(bestDate)!) bestDate = day.date;
+    }
+    dayOf.set(activity.activityId, bestDate);
+    freeMin.set(bestDate, freeMin.get(bestDate)! - activity.durationMin);
   }
 
-  // If no activities are locked, use simple nearest-neighbor
-  if (locked.length === 0) {
-    return nearestNeighborOrder(unlocked, durationMatrix, offset);
+  const byDay = new Map<string, ActivityRecord[]>(days.map((day) => [day.date, []]));
+  for (const activity of activities) {
+    byDay.get(dayOf.get(activity.activityId)!)!.push(activity);
   }
+  return byDay;
+}
 
-  // Mixed case: optimize unlocked activities around locked ones
-  // For simplicity, we'll use a greedy approach that respects locked positions
-  const result: ActivityRecord[] = new Array(activities.length);
-  
-  // Place locked activities in their original positions
-  for (const { index, activity } of locked) {
-    result[index] = activity;
+/**
+ * Build coordinate list for Mapbox Matrix API
+ * If startLocation is provided, it becomes the first coordinate.
+ * If endLocation is provided and differs from startLocation, it becomes the last.
+ */
+function buildCoordinateList(
+  activities: ActivityRecord[],
+  startLocation?: LatLng,
+  endLocation?: LatLng
+): Array<{ lat: number; lng: number }> {
+  const coords: Array<{ lat: number; lng: number }> = [];
+
+  if (startLocation) {
+    coords.push({ lat: startLocation.lat, lng: startLocation.lng });
   }
 
-  // Fill in unlocked activities using nearest-neighbor between locked segments
-  let unlockedIndex = 0;
-  for (let i = 0; i < result.length; i++) {
-    if (!result[i] && unlockedIndex < unlocked.length) {
-      result[i] = unlocked[unlockedIndex++];
-    }
+  for (const activity of activities) {
+    coords.push({
+      lat: activity.place.lat,
+      lng: activity.place.lng,
+    });
   }
 
-  return result;
+  if (endLocation && !isSameLocation(startLocation, endLocation)) {
+    coords.push({ lat: endLocation.lat, lng: endLocation.lng });
+  }
+
+  return coords;
 }
 
 /**
- * Simple nearest-neighbor optimization
- * Always choose the closest unvisited activity from current position
+ * Combine routed walking and driving matrices into one matrix of the travel
+ * time of each leg's chosen mode; transit has no routed matrix and is estimated,
+ * plus any delay transit alerts report
  */
-function nearestNeighborOrder(
-  activities: ActivityRecord[],
-  durationMatrix: number[][],
-  offset: number
-): ActivityRecord[] {
-  const n = activities.length;
-  const visited = new Array(n).fill(false);
-  const ordered: ActivityRecord[] = [];
-
-  let currentIdx = offset > 0 ? 0 : -1; // Start from startLocation or first activity
-
-  for (let step = 0; step < n; step++) {
-    let nearestIdx = -1;
-    let minDuration = Infinity;
-
-    // Find nearest unvisited activity
-    for (let i = 0; i < n; i++) {
-      if (visited[i]) continue;
-
-      const matrixIdx = i + offset;
-      let duration: number;
-
-      if (currentIdx === -1) {
-        // First activity, no previous location
-        duration = 0;
-      } else if (offset > 0) {
-        // We have a start location
-        duration = durationMatrix[currentIdx][matrixIdx];
-      } else {
-        // No start location, use previous activity
-        const prevMatrixIdx = ordered.length > 0 ? activities.indexOf(ordered[ordered.length - 1]) : 0;
-        duration = durationMatrix[prevMatrixIdx][matrixIdx];
-      }
-
-      if (duration < minDuration) {
-        minDuration = duration;
-        nearestIdx = i;
+function buildSmartMatrix(
+  coordinates: Array<{ lat: number; lng: number }>,
+  walkingMatrix: number[][],
+  drivingMatrix: number[][],
+  limits: LegModeLimits,
+  transitDelayMin: number
+): { durations: number[][]; modes: TravelMode[][] } {
+  const durations: number[][] = [];
+  const modes: TravelMode[][] = [];
+
+  for (let i = 0; i < coordinates.length; i++) {
+    durations.push([]);
+    modes.push([]);
+    for (let j = 0; j < coordinates.length; j++) {
+      if (i === j) {
+        durations[i].push(0);
+        modes[i].push("walking");
+        continue;
       }
+      const distanceKm = haversineKm(coordinates[i].lat, coordinates[i].lng, coordinates[j].lat, coordinates[j].lng);
+      const leg = chooseLegMode(distanceKm, limits, {
+        walking: walkingMatrix[i][j] / 60,
+        driving: drivingMatrix[i][j] / 60,
+        transit: estimateTravelMin(distanceKm, "transit") + transitDelayMin,
+      });
+      durations[i].push(leg.minutes * 60);
+      modes[i].push(leg.mode);
     }
+  }
+
+  return { durations, modes };
+}
+
+/**
+ * Matrix index of the end location; round trips reuse the start coordinate
+ */
+function getEndMatrixIndex(
+  activityCount: number,
+  startLocation: LatLng | undefined,
+  endLocation: LatLng
+): number {
+  if (isSameLocation(startLocation, endLocation)) return 0;
+  return activityCount + (startLocation ? 1 : 0);
+}
 
-    if (nearestIdx === -1) break;
+function isSameLocation(a: LatLng | undefined, b: LatLng): boolean {
+  return a !== undefined && a.lat === b.lat && a.lng === b.lng;
+}
 
-    visited[nearestIdx] = true;
-    ordered.push(activities[nearestIdx]);
-    currentIdx = nearestIdx + offset;
+/**
+ * Optimize activity order with 2-opt / Or-opt local search
+ * Locked activities are anchors: each keeps its position in the day, and unlocked
+ * activities fill the positions around them wherever travel is shortest
+ * @param activities - Activities in their current order
+ * @param durationMatrix - Duration matrix from Mapbox (in seconds)
+ * @param offset - Offset for matrix indices (1 if startLocation is included, 0 otherwise)
+ * @param endIndex - Matrix index of the end location, if the day ends somewhere fixed
+ * @param timing - Day start, visit durations and time windows, aligned with activities
+ */
+function optimizeActivityOrder(
+  activities: ActivityRecord[],
+  durationMatrix: number[][],
+  offset: number,
+  endIndex: number | undefined,
+  timing: RouteTiming
+): { ordered: ActivityRecord[]; optimization: ItineraryOptimization } {
+  const result = optimizeRoute({
+    durationMatrix,
+    stops: activities.map((_, index) => index + offset),
+    locked: activities.map((activity) => activity.locked),
+    startIndex: offset > 0 ? 0 : undefined,
+    endIndex,
+    timing,
+  });
+  if (result.timedOut) {
+    console.warn(`[Planner] Route optimization ran out of time for ${activities.length} stops; keeping the best order so far`);
   }
 
-  return ordered;
+  return {
+    ordered: result.order.map((index) => activities[index]),
+    optimization: {
+      algorithm: "2opt-oropt",
+      greedyTravelMin: result.greedyTravelMin,
+      optimizedTravelMin: result.optimizedTravelMin,
+      improvementMin: result.improvementMin,
+      converged: result.converged,
+      timedOut: result.timedOut,
+    },
+  };
 }
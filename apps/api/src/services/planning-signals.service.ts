@@ -0,0 +1,167 @@
+/**
+ * Planning signals service - turn a day's stored signals into costs the planner weighs against travel
+ *
+ * Every minute an outdoor stop overlaps rain risk hours, a place overlaps its
+ * peak hours or a stop overlaps an active community report nearby counts as
+ * some minutes of extra travel, scaled by the trip's weights relative to
+ * travelWeight. Transit alerts add their expected delay to transit legs.
+ */
+import type { CommunitySignalReport, CrowdSignalItem, TransitAlert, Weights } from "@adaptive/types";
+import type { ActivityRecord, TripRecord, TripStore } from "../store/index.js";
+import { haversineKm } from "../utils/geo.js";
+import { currentTripDay } from "../utils/days.js";
+import { clamp, minutesOnDate } from "../utils/time.js";
+import { hourSlotSpans, overlapMin, type TimeWindow } from "../utils/time-windows.js";
+import { getCommunitySignalsForTrip } from "./community-signals.service.js";
+
+// Community reports affect stops within this distance, as in suggestions
+const COMMUNITY_REPORT_RADIUS_KM = 1;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface PlanningSignals {
+  /** Rain risk hours from the day's weather signal */
+  riskHours: string[];
+  /** Peak hours per place from the day's crowd signal */
+  crowds: CrowdSignalItem[];
+  transitAlerts: TransitAlert[];
+  /** Approved, unexpired reports near the trip; only for the day underway */
+  communityReports: CommunitySignalReport[];
+  weights: Weights;
+}
+
+/**
+ * Spans of the day a stop is penalised in, with the cost of each minute in them
+ */
+interface CostSpan extends TimeWindow {
+  /** Travel minutes one minute inside the span is worth */
+  costPerMin: number;
+}
+
+/**
+ * Travel minutes a minute of an outdoor stop in rain risk hours is worth,
+ * configurable via PLANNER_RAIN_MIN_COST
+ */
+function getRainMinCost(): number {
+  return Number.parseFloat(process.env.PLANNER_RAIN_MIN_COST || "1");
+}
+
+/**
+ * Travel minutes a minute at a place during its peak hours is worth,
+ * configurable via PLANNER_CROWD_MIN_COST
+ */
+function getCrowdMinCost(): number {
+  return Number.parseFloat(process.env.PLANNER_CROWD_MIN_COST || "0.5");
+}
+
+/**
+ * Travel minutes a minute near a severity-5 community report is worth,
+ * configurable via PLANNER_COMMUNITY_MIN_COST
+ */
+function getCommunityMinCost(): number {
+  return Number.parseFloat(process.env.PLANNER_COMMUNITY_MIN_COST || "1");
+}
+
+/**
+ * Load the signals stored for the trip's day along with its weights
+ */
+export async function loadPlanningSignals(store: TripStore, trip: TripRecord): Promise<PlanningSignals> {
+  const [weatherSignal, crowdSignal, transitSignal, weights] = await Promise.all([
+    store.getWeatherSignal(trip.tripId, trip.date),
+    store.getCrowdSignals(trip.tripId, trip.date),
+    store.getTransitSignals(trip.tripId, trip.date),
+    store.getWeights(trip.tripId),
+  ]);
+
+  // Reports describe conditions now, so only the day underway hears about them
+  let communityReports: CommunitySignalReport[] = [];
+  if (currentTripDay(trip).date === trip.date) {
+    try {
+      communityReports = await getCommunitySignalsForTrip(store, trip.tripId);
+    } catch (error) {
+      console.warn("[Planner] Community signals unavailable, planning without them:", error);
+    }
+  }
+
+  return {
+    riskHours: weatherSignal?.riskHours ?? [],
+    crowds: crowdSignal?.crowds ?? [],
+    transitAlerts: transitSignal?.alerts ?? [],
+    communityReports,
+    weights,
+  };
+}
+
+/**
+ * Expected extra minutes on every transit leg: the worst delay alerted
+ */
+export function getTransitDelayMin(signals: PlanningSignals): number {
+  return signals.transitAlerts.reduce((worst, alert) => Math.max(worst, alert.delayMin), 0);
+}
+
+/**
+ * Cost in travel seconds of visiting an activity from `startMin` for its
+ * duration; undefined when no signal can cost anything
+ */
+export function createSignalCost(
+  signals: PlanningSignals,
+  date: string
+): ((activity: ActivityRecord, startMin: number) => number) | undefined {
+  const { weights } = signals;
+  const perTravel = (weight: number) => weight / Math.max(weights.travelWeight, Number.EPSILON);
+
+  const rainCost = getRainMinCost() * perTravel(weights.weatherWeight);
+  const rainSpans = hourSlotSpans(signals.riskHours).map((span) => ({ ...span, costPerMin: rainCost }));
+
+  const crowdCost = getCrowdMinCost() * perTravel(weights.crowdWeight);
+  const peakSpans = new Map(
+    signals.crowds.map((crowd) => [
+      crowd.placeId,
+      hourSlotSpans(crowd.peakHours).map((span) => ({ ...span, costPerMin: crowdCost })),
+    ])
+  );
+
+  const reportWeights: Record<string, number> = {
+    weather: weights.weatherWeight,
+    crowds: weights.crowdWeight,
+    transit: weights.transitWeight,
+  };
+  const reports = signals.communityReports
+    .map((report) => ({
+      report,
+      openMin: clamp(minutesOnDate(report.createdAt, date), 0, MINUTES_PER_DAY),
+      closeMin: clamp(minutesOnDate(report.expiresAt, date), 0, MINUTES_PER_DAY),
+      costPerMin:
+        getCommunityMinCost() * (report.severity / 5) * perTravel(reportWeights[report.type] ?? weights.travelWeight),
+    }))
+    .filter((span) => span.closeMin > span.openMin);
+
+  if (rainSpans.length === 0 && peakSpans.size === 0 && reports.length === 0) {
+    return undefined;
+  }
+
+  const spansByActivity = new Map<string, CostSpan[]>();
+  const spansFor = (activity: ActivityRecord): CostSpan[] => {
+    let spans = spansByActivity.get(activity.activityId);
+    if (spans) return spans;
+
+    // Places without an indoor flag may be outdoors
+    const outdoors = activity.place.isIndoor !== true;
+    spans = [...(outdoors ? rainSpans : []), ...(peakSpans.get(activity.place.providerPlaceId) ?? [])];
+    for (const { report, ...span } of reports) {
+      if (report.type === "weather" && !outdoors) continue;
+      const distanceKm = haversineKm(report.lat, report.lng, activity.place.lat, activity.place.lng);
+      if (distanceKm <= COMMUNITY_REPORT_RADIUS_KM) spans.push(span);
+    }
+    spansByActivity.set(activity.activityId, spans);
+    return spans;
+  };
+
+  return (activity, startMin) => {
+    const endMin = startMin + activity.durationMin;
+    return spansFor(activity).reduce(
+      (total, span) => total + overlapMin(startMin, endMin, [span]) * span.costPerMin * 60,
+      0
+    );
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Progress service - compare what the traveler actually did with the day's plan
+ *
+ * Check-ins, check-outs and location pings are the only evidence used: a day
+ * nobody reports on is never considered late. The latest piece of evidence
+ * decides where the traveler continues from: the stop they are still at
+ * (never before now once its planned length is up), the time they left it,
+ * or a ping taken after that on the way to the next stop.
+ */
+import type { ActivityVisit, ItineraryItem, LatLng, LocationPing, TripProgress } from "@adaptive/types";
+import type { ActivityRecord, ItineraryVersionRecord, TripStore } from "../store/index.js";
+import { estimateTravelMin, haversineKm } from "../utils/geo.js";
+import { formatHHMM, minutesOnDate, parseHHMM } from "../utils/time.js";
+
+// A ping this close to the next stop means the traveler is already there
+const ARRIVED_RADIUS_KM = 0.1;
+
+/**
+ * How far behind plan counts as running late, configurable via PROGRESS_LATE_THRESHOLD_MIN
+ */
+export function getLateThresholdMin(): number {
+  return Number.parseInt(process.env.PROGRESS_LATE_THRESHOLD_MIN || "10", 10);
+}
+
+export type DelayCause = "overstay" | "late_start" | "late_departure" | "en_route";
+
+export interface DelayAssessment {
+  /** Minutes behind plan; 0 when on time, ahead, or nothing was reported */
+  lateMin: number;
+  /** What made the traveler late */
+  cause?: DelayCause;
+  /** Item the evidence is about: the stop being visited or last left */
+  atActivityId?: string;
+  /** Checked in and not yet out */
+  currentActivityId?: string;
+  /** Items up to the next one to come, with actual times where reported; all completed */
+  past: ItineraryItem[];
+  /** Items still to come, in plan order */
+  upcoming: ItineraryItem[];
+  /** When the traveler sets off towards the first upcoming item */
+  resumeMin?: number;
+  /** Travel from there to the first upcoming item */
+  firstLegMin?: number;
+}
+
+/**
+ * Assess a day's plan against the visits and latest ping reported for it
+ */
+export function assessDelay(
+  items: ItineraryItem[],
+  activities: ActivityRecord[],
+  visits: ActivityVisit[],
+  ping: LocationPing | null,
+  date: string,
+  nowMin: number
+): DelayAssessment {
+  const visitsById = new Map(visits.map((visit) => [visit.activityId, visit]));
+  let lastIndex = -1;
+  items.forEach((item, index) => {
+    if (item.completed || visitsById.has(item.activityId)) lastIndex = index;
+  });
+
+  // Whatever the traveler has moved past is history, visited or skipped
+  const past = items
+    .slice(0, lastIndex + 1)
+    .map((item) => ({ ...withActualTimes(item, visitsById.get(item.activityId), date, nowMin), completed: true }));
+  const upcoming = items.slice(lastIndex + 1);
+  const last = items[lastIndex];
+  const lastVisit = last && visitsById.get(last.activityId);
+  const next = upcoming[0];
+
+  let cause: DelayCause | undefined;
+  let resumeMin: number | undefined;
+  let firstLegMin = next?.travelFromPrevMin;
+  let currentActivityId: string | undefined;
+
+  if (lastVisit && !lastVisit.checkedOutAt) {
+    currentActivityId = lastVisit.activityId;
+    const checkInMin = minutesOnDate(lastVisit.checkedInAt, date);
+    const plannedEndMin = checkInMin + (parseHHMM(last.endTime) - parseHHMM(last.startTime));
+    resumeMin = Math.max(plannedEndMin, nowMin);
+    cause = nowMin > plannedEndMin ? "overstay" : "late_start";
+  } else if (lastVisit?.checkedOutAt) {
+    resumeMin = minutesOnDate(lastVisit.checkedOutAt, date);
+    cause = "late_departure";
+  }
+
+  // A ping taken after leaving the last stop shows how far the next one still is
+  const pingMin = ping ? minutesOnDate(ping.recordedAt, date) : undefined;
+  const nextLocation = next && locate(next, activities);
+  if (
+    !currentActivityId &&
+    ping &&
+    pingMin !== undefined &&
+    nextLocation &&
+    (resumeMin === undefined || pingMin > resumeMin)
+  ) {
+    const distanceKm = haversineKm(ping.location.lat, ping.location.lng, nextLocation.lat, nextLocation.lng);
+    resumeMin = pingMin;
+    firstLegMin = distanceKm <= ARRIVED_RADIUS_KM ? 0 : estimateTravelMin(distanceKm, next.travelMode ?? "walking");
+    cause = "en_route";
+  }
+
+  let lateMin = 0;
+  if (resumeMin !== undefined && next) {
+    const arrivalMin = resumeMin + (firstLegMin ?? 0) + (next.bufferMin ?? 0);
+    lateMin = Math.max(0, arrivalMin - parseHHMM(next.startTime));
+  } else if (resumeMin !== undefined && last) {
+    lateMin = Math.max(0, resumeMin - parseHHMM(last.endTime));
+  }
+
+  return {
+    lateMin,
+    cause: lateMin > 0 ? cause : undefined,
+    atActivityId: cause === "en_route" ? next?.activityId : last?.activityId,
+    currentActivityId,
+    past,
+    upcoming,
+    resumeMin,
+    firstLegMin,
+  };
+}
+
+/**
+ * Load what has been reported for a day and assess it against the latest version
+ */
+export async function getTripProgress(
+  store: TripStore,
+  tripId: string,
+  date: string,
+  activities: ActivityRecord[],
+  latest: ItineraryVersionRecord | undefined,
+  now: Date
+): Promise<{ progress: TripProgress; assessment: DelayAssessment }> {
+  const [visits, ping] = await Promise.all([
+    store.getActivityVisits(tripId, date),
+    store.getLatestLocationPing(tripId),
+  ]);
+  const nowMin = minutesOnDate(now.toISOString(), date);
+  const assessment = assessDelay(latest?.itinerary.items ?? [], activities, visits, ping, date, nowMin);
+
+  return {
+    progress: {
+      date,
+      version: latest?.version,
+      currentActivityId: assessment.currentActivityId,
+      lateMin: assessment.lateMin,
+      lastPing: ping ?? undefined,
+      visits,
+    },
+    assessment,
+  };
+}
+
+/**
+ * A past item with the times the traveler reported; a stop still being
+ * visited is expected to last its planned length, and at least until now
+ */
+function withActualTimes(
+  item: ItineraryItem,
+  visit: ActivityVisit | undefined,
+  date: string,
+  nowMin: number
+): ItineraryItem {
+  if (!visit) return item;
+
+  const startMin = minutesOnDate(visit.checkedInAt, date);
+  const endMin = visit.checkedOutAt
+    ? minutesOnDate(visit.checkedOutAt, date)
+    : Math.max(startMin + parseHHMM(item.endTime) - parseHHMM(item.startTime), nowMin);
+  const { waitMin: _waitMin, ...rest } = item;
+  return { ...rest, startTime: formatHHMM(startMin), endTime: formatHHMM(endMin) };
+}
+
+function locate(item: ItineraryItem, activities: ActivityRecord[]): LatLng | undefined {
+  if (item.location) return item.location;
+  const place = activities.find((activity) => activity.activityId === item.activityId)?.place;
+  return place && { lat: place.lat, lng: place.lng };
+}
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ItineraryItem, Suggestion, SuggestionKind, SuggestionStatus } from "@adaptive/types";
+import { createMemoryTripStore, type TripStore } from "../store/index.js";
+import { supersedeStaleSuggestions } from "./recompute.service.js";
+
+function item(activityId: string, startTime: string, endTime: string): ItineraryItem {
+  return { activityId, placeName: activityId, startTime, endTime, travelFromPrevMin: 0 };
+}
+
+function suggestion(
+  suggestionId: string,
+  kind: SuggestionKind,
+  before: ItineraryItem[],
+  after: ItineraryItem[]
+): Suggestion {
+  return {
+    suggestionId,
+    kind,
+    status: "pending",
+    createdAt: "2026-10-20T08:00:00.000Z",
+    trigger: "weather",
+    reasons: [],
+    confidence: 0.8,
+    beforePlan: { version: 1, items: before },
+    afterPlan: { items: after },
+  };
+}
+
+/**
+ * A one-day trip with a first itinerary version and a pending suggestion to swap its two stops
+ */
+async function tripWithSuggestion(store: TripStore) {
+  const { tripId } = await store.createTrip({
+    city: "Paris",
+    date: "2026-10-20",
+    startTime: "09:00",
+    endTime: "18:00",
+    preferences: { pace: "medium", interests: [], avoid: [], budget: "medium" },
+  });
+  const [first, second] = await store.addActivities(tripId, [
+    { place: { provider: "test", providerPlaceId: "a", name: "A", lat: 48.85, lng: 2.35 }, durationMin: 60, locked: false },
+    { place: { provider: "test", providerPlaceId: "b", name: "B", lat: 48.86, lng: 2.34 }, durationMin: 60, locked: false },
+  ]);
+  const before = [item(first.activityId, "09:00", "10:00"), item(second.activityId, "10:15", "11:15")];
+  await store.addItineraryVersion(tripId, "2026-10-20", { items: before, totalTravelMin: 15 }, { type: "generated" });
+  await store.addSuggestion(
+    tripId,
+    suggestion("sug_swap", "reorder", before, [item(second.activityId, "09:00", "10:00"), item(first.activityId, "10:15", "11:15")])
+  );
+  return { tripId, first, second };
+}
+
+async function statusOf(store: TripStore, tripId: string, suggestionId: string): Promise<SuggestionStatus | undefined> {
+  return (await store.getSuggestion(tripId, suggestionId))?.status;
+}
+
+describe("supersedeStaleSuggestions", () => {
+  it("keeps a suggestion a newer version can still take", async () => {
+    const store = createMemoryTripStore();
+    const { tripId, first, second } = await tripWithSuggestion(store);
+    await store.addItineraryVersion(
+      tripId,
+      "2026-10-20",
+      { items: [item(first.activityId, "09:00", "10:30"), item(second.activityId, "10:45", "11:45")], totalTravelMin: 15 },
+      { type: "manual" }
+    );
+
+    assert.deepEqual(await supersedeStaleSuggestions(store, tripId), []);
+    assert.equal(await statusOf(store, tripId, "sug_swap"), "pending");
+  });
+
+  it("supersedes open suggestions whose base the newer version reordered", async () => {
+    const store = createMemoryTripStore();
+    const { tripId, first, second } = await tripWithSuggestion(store);
+    const reordered = [item(second.activityId, "09:00", "10:00"), item(first.activityId, "10:15", "11:15")];
+    const base = [item(first.activityId, "09:00", "10:00"), item(second.activityId, "10:15", "11:15")];
+    await store.addSuggestion(tripId, suggestion("sug_rejected", "swap", base, reordered));
+    await store.setSuggestionStatus(tripId, "sug_rejected", "rejected");
+    await store.addItineraryVersion(tripId, "2026-10-20", { items: reordered, totalTravelMin: 15 }, { type: "manual" });
+
+    assert.deepEqual(await supersedeStaleSuggestions(store, tripId), ["sug_swap"]);
+    assert.equal(await statusOf(store, tripId, "sug_swap"), "superseded");
+    assert.equal(await statusOf(store, tripId, "sug_rejected"), "rejected");
+  });
+});
@@ -1,37 +1,181 @@
-import type { Suggestion } from "@adaptive/types";
-import * as store from "../store/store.js";
+import type { Suggestion, TripProgress } from "@adaptive/types";
+import type { TripStore } from "../store/index.js";
 import {
   buildCommunitySuggestion,
   buildCrowdSuggestion,
+  buildDelaySuggestion,
   buildTransitSuggestion,
   buildWeatherSuggestion,
+  rebaseSuggestionPlan,
 } from "./suggestion.service.js";
 import { emit } from "../realtime/sseHub.js";
 import { getCommunitySignalsForTrip } from "./community-signals.service.js";
+import { getLateThresholdMin, getTripProgress } from "./progress.service.js";
+import { currentTripDay, resolveTripDay, tripForDay } from "../utils/days.js";
 
-export async function recomputeTripSuggestions(tripId: string): Promise<Suggestion[]> {
-  const tripData = store.getTrip(tripId);
+export async function recomputeTripSuggestions(
+  store: TripStore,
+  tripId: string
+): Promise<Suggestion[]> {
+  const tripData = await store.getTrip(tripId);
   if (!tripData) {
     throw new Error(`Trip ${tripId} not found`);
   }
 
-  const { trip, activities, latestItinerary } = tripData;
-  const weatherSignal = store.getWeatherSignal(tripId);
-  const crowdSignal = store.getCrowdSignals(tripId);
-  const transitSignal = store.getTransitSignals(tripId);
-  const communityReports = await getCommunitySignalsForTrip(tripId);
+  const { trip, activities, latestItineraries } = tripData;
+  const communityReports = await getCommunitySignalsForTrip(store, tripId);
+  // Community reports describe conditions right now, so they only reshape the current day
+  const communityDate = currentTripDay(trip).date;
 
-  const suggestions = [
-    buildCommunitySuggestion(trip, activities, latestItinerary?.itinerary, communityReports),
-    buildWeatherSuggestion(trip, activities, latestItinerary?.itinerary, weatherSignal),
-    buildCrowdSuggestion(trip, activities, latestItinerary?.itinerary, crowdSignal),
-    buildTransitSuggestion(trip, activities, latestItinerary?.itinerary, transitSignal),
-  ].filter(Boolean) as Suggestion[];
+  const suggestions: Suggestion[] = [];
+  for (const latestItinerary of latestItineraries) {
+    const day = resolveTripDay(trip, latestItinerary.date);
+    if (!day) continue;
+
+    const dayTrip = tripForDay(trip, day);
+    const weatherSignal = await store.getWeatherSignal(tripId, day.date);
+    const crowdSignal = await store.getCrowdSignals(tripId, day.date);
+    const transitSignal = await store.getTransitSignals(tripId, day.date);
+
+    const daySuggestions = [
+      day.date === communityDate
+        ? buildCommunitySuggestion(dayTrip, activities, latestItinerary, communityReports)
+        : null,
+      buildWeatherSuggestion(dayTrip, activities, latestItinerary, weatherSignal),
+      buildCrowdSuggestion(dayTrip, activities, latestItinerary, crowdSignal),
+      buildTransitSuggestion(dayTrip, activities, latestItinerary, transitSignal),
+    ].filter(Boolean) as Suggestion[];
+
+    suggestions.push(...daySuggestions.map((suggestion) => ({ ...suggestion, date: day.date })));
+  }
 
   for (const suggestion of suggestions) {
-    store.addSuggestion(tripId, suggestion);
+    await store.addSuggestion(tripId, suggestion);
     emit(tripId, "suggestion:new", suggestion);
   }
 
+  // Overstays show up with time alone, without a new check-in or ping
+  const { raised } = await checkTripProgress(store, tripId, communityDate);
+  if (raised) suggestions.push(raised);
+
   return suggestions;
 }
+
+/**
+ * Assess how the traveler is doing on a trip day and, when they run late,
+ * raise a shift suggestion re-timing the stops still to come. An open delay
+ * shift on the same version stands until the traveler falls another
+ * threshold further behind; then it is replaced.
+ */
+export async function checkTripProgress(
+  store: TripStore,
+  tripId: string,
+  date: string,
+  now: Date = new Date()
+): Promise<{ progress: TripProgress; suggestion?: Suggestion; raised?: Suggestion }> {
+  const tripData = await store.getTrip(tripId);
+  if (!tripData) {
+    throw new Error(`Trip ${tripId} not found`);
+  }
+
+  const { trip, activities } = tripData;
+  const day = resolveTripDay(trip, date);
+  if (!day) {
+    throw new Error(`${date} is not part of trip ${tripId}`);
+  }
+
+  const latest = (await store.getLatestItinerary(tripId, day.date)) ?? undefined;
+  const { progress, assessment } = await getTripProgress(store, tripId, day.date, activities, latest, now);
+  const threshold = getLateThresholdMin();
+  const built = buildDelaySuggestion(tripForDay(trip, day), activities, latest, assessment, threshold);
+  if (!built) {
+    return { progress };
+  }
+
+  const firstDate = trip.days[0].date;
+  const open = (await store.listSuggestions(tripId, "pending")).filter(
+    (suggestion) => suggestion.trigger === "delay" && (suggestion.date ?? firstDate) === day.date
+  );
+  const standing = open.find(
+    (suggestion) =>
+      suggestion.beforePlan.version === built.beforePlan.version &&
+      (suggestion.impact?.lateMin ?? 0) > assessment.lateMin - threshold
+  );
+  if (standing) {
+    return { progress, suggestion: standing };
+  }
+
+  for (const stale of open) {
+    await store.setSuggestionStatus(tripId, stale.suggestionId, "superseded");
+    emit(tripId, "suggestion:superseded", {
+      suggestionId: stale.suggestionId,
+      latestVersion: latest?.version,
+    });
+  }
+
+  const raised = { ...built, date: day.date };
+  await store.addSuggestion(tripId, raised);
+  emit(tripId, "suggestion:new", raised);
+  return { progress, suggestion: raised, raised };
+}
+
+/**
+ * Mark open suggestions that can no longer be rebased onto the latest itinerary as superseded.
+ * Call after every new itinerary version.
+ */
+export async function supersedeStaleSuggestions(
+  store: TripStore,
+  tripId: string
+): Promise<string[]> {
+  const tripData = await store.getTrip(tripId);
+  if (!tripData) return [];
+
+  const latestByDate = new Map(tripData.latestItineraries.map((record) => [record.date, record]));
+  const firstDate = tripData.trip.days[0].date;
+
+  const superseded: string[] = [];
+  for (const suggestion of await store.listSuggestions(tripId)) {
+    if (suggestion.status !== "pending" && suggestion.status !== "accepted") continue;
+
+    const latest = latestByDate.get(suggestion.date ?? firstDate);
+    if (!latest || rebaseSuggestionPlan(suggestion, latest)) continue;
+
+    await store.setSuggestionStatus(tripId, suggestion.suggestionId, "superseded");
+    emit(tripId, "suggestion:superseded", {
+      suggestionId: suggestion.suggestionId,
+      latestVersion: latest.version,
+    });
+    superseded.push(suggestion.suggestionId);
+  }
+
+  if (superseded.length > 0) {
+    console.log(`[Suggestion] Superseded ${superseded.length} stale suggestion(s) for trip ${tripId}`);
+  }
+
+  return superseded;
+}
+
+/**
+ * Mark open suggestions whose plan visits an activity that was removed from the trip as superseded.
+ * Call after removing an activity.
+ */
+export async function supersedeSuggestionsWithActivity(
+  store: TripStore,
+  tripId: string,
+  activityId: string
+): Promise<string[]> {
+  const superseded: string[] = [];
+  for (const suggestion of await store.listSuggestions(tripId)) {
+    if (suggestion.status !== "pending" && suggestion.status !== "accepted") continue;
+    if (!suggestion.afterPlan.items.some((item) => item.activityId === activityId)) continue;
+
+    await store.setSuggestionStatus(tripId, suggestion.suggestionId, "superseded");
+    emit(tripId, "suggestion:superseded", {
+      suggestionId: suggestion.suggestionId,
+      latestVersion: suggestion.beforePlan.version,
+    });
+    superseded.push(suggestion.suggestionId);
+  }
+
+  return superseded;
+}
@@ -0,0 +1,68 @@
+/**
+ * Replan service - re-plan the rest of a day from the traveler's current time and position
+ *
+ * Completed activities, and breaks that are already over, are frozen at the
+ * front of the day as they were planned. Everything else still planned for
+ * the day is optimized again starting at `nowMin` from the current location.
+ */
+import type { Itinerary, ItineraryItem, LatLng } from "@adaptive/types";
+import type { ActivityRecord } from "../store/index.js";
+import { formatHHMM, parseHHMM } from "../utils/time.js";
+import type { MealName } from "./breaks.service.js";
+import { generateItinerary, type GenerateItineraryParams } from "./planner.service.js";
+
+export interface ReplanDayParams extends Omit<GenerateItineraryParams, "startLocation" | "optimizeOrder" | "skipMeals"> {
+  /** The day's latest itinerary, if it has one */
+  latest?: Itinerary;
+  /** Minutes since midnight to plan from */
+  nowMin: number;
+  currentLocation: LatLng;
+  completedActivityIds: string[];
+}
+
+/**
+ * Plan the rest of the day; the trip must already be narrowed to the day
+ */
+export async function replanDay(params: ReplanDayParams): Promise<Itinerary> {
+  const { latest, nowMin, currentLocation, completedActivityIds, ...planParams } = params;
+  const completed = new Set(completedActivityIds);
+
+  const done: ItineraryItem[] = (latest?.items ?? [])
+    .filter((item) => completed.has(item.activityId) || (item.systemAdded && parseHHMM(item.endTime) <= nowMin))
+    .map((item) => ({ ...item, completed: true }));
+  const skipMeals = done
+    .filter((item) => item.breakKind === "meal")
+    .map((item) => item.activityId.replace(/^brk_/, "") as MealName);
+
+  // Before the day starts there is nothing to re-plan from but its start
+  const startMin = Math.max(nowMin, parseHHMM(planParams.trip.startTime));
+  const startTime = formatHHMM(startMin);
+  const remaining: ActivityRecord[] = planParams.activities.filter((activity) => !completed.has(activity.activityId));
+
+  const rest = await generateItinerary({
+    ...planParams,
+    trip: { ...planParams.trip, startTime },
+    activities: remaining,
+    startLocation: currentLocation,
+    optimizeOrder: true,
+    skipMeals,
+  });
+
+  return {
+    ...rest,
+    items: [...done, ...renumberRestBreaks(rest.items, done)],
+    totalTravelMin: done.reduce((total, item) => total + item.travelFromPrevMin, 0) + rest.totalTravelMin,
+    replannedFrom: { time: startTime, location: currentLocation },
+  };
+}
+
+/**
+ * Rest breaks are numbered per plan; continue after the ones already taken
+ * so every item id in the day stays unique
+ */
+function renumberRestBreaks(items: ItineraryItem[], done: ItineraryItem[]): ItineraryItem[] {
+  let restCount = done.filter((item) => item.breakKind === "rest").length;
+  return items.map((item) =>
+    item.breakKind === "rest" ? { ...item, activityId: `brk_rest_${++restCount}` } : item
+  );
+}
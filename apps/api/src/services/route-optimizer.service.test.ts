@@ -0,0 +1,154 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getOptimizeMaxPasses,
+  getOptimizeTimeBudgetMs,
+  optimizeRoute,
+  routeCostSec,
+  type RouteOptimizationInput,
+} from "./route-optimizer.service.js";
+
+type Point = [number, number];
+
+/**
+ * Seconds between points, straight line at one unit per second
+ */
+function euclideanMatrix(points: Point[]): number[][] {
+  return points.map(([x1, y1]) => points.map(([x2, y2]) => Math.hypot(x2 - x1, y2 - y1)));
+}
+
+/**
+ * Reproducible pseudo-random points (linear congruential generator)
+ */
+function randomPoints(count: number, seed: number): Point[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return (state / 2 ** 32) * 1000;
+  };
+  return Array.from({ length: count }, () => [next(), next()]);
+}
+
+/**
+ * Whether segments ab and cd properly cross
+ */
+function crosses([a, b]: [Point, Point], [c, d]: [Point, Point]): boolean {
+  const side = (p: Point, q: Point, r: Point) => Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+}
+
+/**
+ * Matrix index 0 is the start; stops are indices 1..count
+ */
+function instance(count: number, seed: number, locked: boolean[] = []): RouteOptimizationInput & { points: Point[] } {
+  const points = randomPoints(count + 1, seed);
+  return {
+    points,
+    durationMatrix: euclideanMatrix(points),
+    stops: points.slice(1).map((_, i) => i + 1),
+    locked: points.slice(1).map((_, i) => locked[i] ?? false),
+    startIndex: 0,
+  };
+}
+
+const SEEDS = [1, 7, 42, 1234, 99991];
+
+describe("optimizeRoute", () => {
+  it("untangles crossing legs", () => {
+    for (const seed of SEEDS) {
+      const input = instance(9, seed);
+      const { order } = optimizeRoute(input);
+      const path = [0, ...order.map((pos) => input.stops[pos])].map((index) => input.points[index]);
+      const legs = path.slice(1).map((point, i): [Point, Point] => [path[i], point]);
+
+      for (let i = 0; i < legs.length; i++) {
+        for (let j = i + 2; j < legs.length; j++) {
+          assert.ok(!crosses(legs[i], legs[j]), `seed ${seed}: legs ${i} and ${j} cross`);
+        }
+      }
+    }
+  });
+
+  it("never makes the greedy tour worse", () => {
+    for (const seed of SEEDS) {
+      const input = instance(10, seed);
+      const result = optimizeRoute(input);
+      assert.ok(result.optimizedTravelMin <= result.greedyTravelMin, `seed ${seed}`);
+      assert.equal(result.improvementMin, result.greedyTravelMin - result.optimizedTravelMin);
+      assert.ok(result.converged, `seed ${seed}`);
+    }
+  });
+
+  it("keeps every locked stop in its slot", () => {
+    const locked = [false, true, false, false, false, true, false, false, true];
+    for (const seed of SEEDS) {
+      const input = instance(locked.length, seed, locked);
+      const { order } = optimizeRoute(input);
+      assert.deepEqual([...order].sort((a, b) => a - b), input.stops.map((_, pos) => pos));
+      locked.forEach((isLocked, pos) => {
+        if (isLocked) assert.equal(order[pos], pos, `seed ${seed}: locked stop ${pos} moved`);
+      });
+    }
+  });
+
+  it("keeps a single locked stop in place while free stops cross it", () => {
+    // The locked stop sits far from the others, so the cheapest route would visit it last
+    const points: Point[] = [[0, 0], [100, 0], [1, 0], [2, 0]];
+    const { order } = optimizeRoute({
+      durationMatrix: euclideanMatrix(points),
+      stops: [1, 2, 3],
+      locked: [true, false, false],
+      startIndex: 0,
+    });
+    assert.equal(order[0], 0);
+  });
+
+  it("routes from the start to the end location", () => {
+    // On a line: start at 2, stops at 1 and 3, end at 4
+    const points: Point[] = [[2, 0], [1, 0], [3, 0], [4, 0]];
+    const input = { durationMatrix: euclideanMatrix(points), stops: [1, 2], locked: [false, false], startIndex: 0 };
+
+    assert.deepEqual(optimizeRoute({ ...input, endIndex: 3 }).order, [0, 1]);
+    assert.deepEqual(optimizeRoute({ ...input, stops: [2, 1], endIndex: 3 }).order, [1, 0]);
+
+    const result = optimizeRoute({ ...input, endIndex: 3 });
+    const route = result.order.map((pos) => input.stops[pos]);
+    assert.equal(result.optimizedTravelMin, Math.round(routeCostSec(input.durationMatrix, route, 0, 3) / 60));
+  });
+
+  it("gives the same order for the same matrix", () => {
+    for (const seed of SEEDS) {
+      const input = instance(10, seed, [false, false, true]);
+      assert.deepEqual(optimizeRoute(input), optimizeRoute(structuredClone(input)));
+      assert.deepEqual(optimizeRoute({ ...input, maxPasses: 2 }), optimizeRoute({ ...input, maxPasses: 2 }));
+    }
+  });
+
+  it("reports a search the time budget cut short", () => {
+    const input = instance(10, SEEDS[0]);
+    const result = optimizeRoute({ ...input, timeBudgetMs: 0 });
+
+    assert.equal(result.timedOut, true);
+    assert.equal(result.converged, false);
+    assert.equal(result.optimizedTravelMin, result.greedyTravelMin);
+    assert.deepEqual([...result.order].sort((a, b) => a - b), input.stops.map((_, pos) => pos));
+    assert.equal(optimizeRoute(input).timedOut, false);
+  });
+});
+
+describe("optimizer limits", () => {
+  it("fall back to the defaults for malformed settings", () => {
+    const saved = { ...process.env };
+    try {
+      process.env.PLANNER_OPTIMIZE_MAX_PASSES = "many";
+      process.env.PLANNER_OPTIMIZE_TIME_BUDGET_MS = "-5";
+      assert.equal(getOptimizeMaxPasses(), 1000);
+      assert.equal(getOptimizeTimeBudgetMs(), 2000);
+
+      process.env.PLANNER_OPTIMIZE_MAX_PASSES = "0";
+      assert.equal(getOptimizeMaxPasses(), 0);
+    } finally {
+      process.env = saved;
+    }
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Route optimizer service - Order stops to minimise travel time
+ *
+ * Builds a nearest-neighbour tour and improves it with 2-opt and Or-opt
+ * local search. Locked stops act as anchors: each keeps its slot in the
+ * order, while unlocked stops are rearranged in the slots around them,
+ * moving within and between the segments the anchors split the route into.
+ * With timing information the search solves a TSP
+ * with time windows: stops wait for their window to open, and a stop that
+ * cannot fit is skipped at a cost larger than any travel saving. A stop
+ * cost callback can make some start times dearer than others, e.g. an
+ * outdoor stop during rain, in the same seconds as travel.
+ * Moves are scanned in a fixed order, only strict improvements are accepted
+ * and the search is bounded by a number of improvement passes rather than
+ * wall-clock time, so the same input always gives the same order. A
+ * wall-clock budget only guards against inputs too large for the pass limit
+ * and is reported when it cuts the search short.
+ */
+import { earliestFeasibleStart, type TimeWindow } from "../utils/time-windows.js";
+
+// Ignore improvements smaller than this (seconds) to avoid float churn
+const EPSILON_SEC = 1e-6;
+
+// Or-opt relocates chains of up to this many consecutive stops
+const MAX_OR_OPT_CHAIN = 3;
+
+// Defaults for PLANNER_OPTIMIZE_MAX_PASSES and PLANNER_OPTIMIZE_TIME_BUDGET_MS
+const DEFAULT_MAX_PASSES = 1000;
+const DEFAULT_TIME_BUDGET_MS = 2000;
+
+// Cost of skipping a stop that cannot fit its time window (one day of travel)
+const SKIPPED_STOP_PENALTY_SEC = 24 * 60 * 60;
+
+export interface RouteTiming {
+  /** Minutes since midnight the route starts at */
+  startMin: number;
+  /** Visit length of each stop, aligned with `stops` */
+  durationsMin: number[];
+  /** Windows each stop may occupy, aligned with `stops` */
+  windows: TimeWindow[][];
+  /** Extra cost in seconds of travel of starting stop `pos` at `startMin`; never reported as travel */
+  stopCostSec?: (pos: number, startMin: number) => number;
+}
+
+export interface RouteOptimizationInput {
+  /** Duration matrix in seconds; matrix[from][to] */
+  durationMatrix: number[][];
+  /** Matrix index of each stop, in the current order */
+  stops: number[];
+  /** Anchor stops that must keep their slot in the order (same length as stops) */
+  locked: boolean[];
+  /** Matrix index the route starts from, if any */
+  startIndex?: number;
+  /** Matrix index the route ends at, if any */
+  endIndex?: number;
+  /** Visit durations and time windows; omit to minimise travel only */
+  timing?: RouteTiming;
+  /** Most improvement passes local search may make */
+  maxPasses?: number;
+  /** Wall-clock milliseconds after which no further pass starts */
+  timeBudgetMs?: number;
+}
+
+export interface RouteOptimizationResult {
+  /** Positions into the input `stops`, in visiting order */
+  order: number[];
+  /** Travel minutes of the nearest-neighbour starting tour */
+  greedyTravelMin: number;
+  /** Travel minutes after local search */
+  optimizedTravelMin: number;
+  /** Stops that still cannot fit their time windows in the returned order */
+  skippedCount: number;
+  /** Minutes saved by local search over the nearest-neighbour tour */
+  improvementMin: number;
+  /** False when the pass limit or time budget ran out before reaching a local optimum */
+  converged: boolean;
+  /** True when the time budget cut the search short; the order then depends on machine speed */
+  timedOut: boolean;
+}
+
+/**
+ * Default limit on local search passes, configurable via PLANNER_OPTIMIZE_MAX_PASSES
+ */
+export function getOptimizeMaxPasses(): number {
+  return readLimitEnv("PLANNER_OPTIMIZE_MAX_PASSES", DEFAULT_MAX_PASSES);
+}
+
+/**
+ * Default wall-clock safety budget for local search, configurable via PLANNER_OPTIMIZE_TIME_BUDGET_MS
+ */
+export function getOptimizeTimeBudgetMs(): number {
+  return readLimitEnv("PLANNER_OPTIMIZE_TIME_BUDGET_MS", DEFAULT_TIME_BUDGET_MS);
+}
+
+/**
+ * A non-negative integer from the environment; unset or malformed values give the default
+ */
+function readLimitEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Find a short visiting order for the given stops
+ */
+export function optimizeRoute(input: RouteOptimizationInput): RouteOptimizationResult {
+  const { durationMatrix, stops, locked, startIndex, endIndex, timing } = input;
+  const maxPasses = input.maxPasses ?? getOptimizeMaxPasses();
+  const deadline = Date.now() + (input.timeBudgetMs ?? getOptimizeTimeBudgetMs());
+
+  const evaluate = (order: number[]) =>
+    timing
+      ? timedRouteCost(durationMatrix, order, stops, timing, startIndex, endIndex)
+      : {
+          travelSec: routeCostSec(durationMatrix, order.map((pos) => stops[pos]), startIndex, endIndex),
+          skipped: 0,
+          stopSec: 0,
+        };
+  const cost = (order: number[]) => {
+    const { travelSec, skipped, stopSec } = evaluate(order);
+    return travelSec + stopSec + skipped * SKIPPED_STOP_PENALTY_SEC;
+  };
+
+  let order = nearestNeighborTour(durationMatrix, stops, locked, startIndex);
+  const greedy = evaluate(order);
+
+  let bestCost = cost(order);
+  let converged = false;
+  let timedOut = false;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    if (Date.now() >= deadline) {
+      timedOut = true;
+      break;
+    }
+    const candidate = firstImprovingMove(order, locked, cost, bestCost);
+    if (!candidate) {
+      converged = true;
+      break;
+    }
+    order = candidate.order;
+    bestCost = candidate.cost;
+  }
+
+  const optimized = evaluate(order);
+  const greedyTravelMin = Math.round(greedy.travelSec / 60);
+  const optimizedTravelMin = Math.round(optimized.travelSec / 60);
+
+  return {
+    order,
+    greedyTravelMin,
+    optimizedTravelMin,
+    skippedCount: optimized.skipped,
+    improvementMin: greedyTravelMin - optimizedTravelMin,
+    converged,
+    timedOut,
+  };
+}
+
+/**
+ * Total travel seconds of a route through the given matrix indices
+ */
+export function routeCostSec(
+  durationMatrix: number[][],
+  route: number[],
+  startIndex?: number,
+  endIndex?: number
+): number {
+  if (route.length === 0) return 0;
+
+  let total = startIndex !== undefined ? durationMatrix[startIndex][route[0]] : 0;
+  for (let i = 1; i < route.length; i++) {
+    total += durationMatrix[route[i - 1]][route[i]];
+  }
+  if (endIndex !== undefined) {
+    total += durationMatrix[route[route.length - 1]][endIndex];
+  }
+  return total;
+}
+
+/**
+ * Simulate a timed route: each stop starts at the earliest legal time after
+ * arrival, and stops that cannot fit are skipped (travel goes straight from
+ * the previous visited stop to the next one)
+ */
+function timedRouteCost(
+  durationMatrix: number[][],
+  order: number[],
+  stops: number[],
+  timing: RouteTiming,
+  startIndex?: number,
+  endIndex?: number
+): { travelSec: number; skipped: number; stopSec: number } {
+  let travelSec = 0;
+  let skipped = 0;
+  let stopSec = 0;
+  let clockMin = timing.startMin;
+  let prev = startIndex;
+
+  for (const pos of order) {
+    const legSec = prev !== undefined ? durationMatrix[prev][stops[pos]] : 0;
+    const startMin = earliestFeasibleStart(clockMin + legSec / 60, timing.durationsMin[pos], timing.windows[pos]);
+    if (startMin === null) {
+      skipped++;
+      continue;
+    }
+    travelSec += legSec;
+    stopSec += timing.stopCostSec?.(pos, startMin) ?? 0;
+    clockMin = startMin + timing.durationsMin[pos];
+    prev = stops[pos];
+  }
+
+  if (endIndex !== undefined && prev !== undefined && skipped < order.length) {
+    travelSec += durationMatrix[prev][endIndex];
+  }
+  return { travelSec, skipped, stopSec };
+}
+
+/**
+ * Greedy tour: locked stops keep their original slot, every free slot takes
+ * the closest unvisited unlocked stop, whichever segment it came from.
+ * Without a start point the first free slot takes the first unlocked stop.
+ */
+function nearestNeighborTour(
+  durationMatrix: number[][],
+  stops: number[],
+  locked: boolean[],
+  startIndex?: number
+): number[] {
+  const remaining = stops.map((_, pos) => pos).filter((pos) => !locked[pos]);
+  const order: number[] = [];
+  let current = startIndex;
+
+  for (let slot = 0; slot < stops.length; slot++) {
+    let next: number;
+    if (locked[slot]) {
+      next = slot;
+    } else {
+      let bestIdx = 0;
+      if (current !== undefined) {
+        for (let i = 1; i < remaining.length; i++) {
+          const from = current;
+          if (durationMatrix[from][stops[remaining[i]]] < durationMatrix[from][stops[remaining[bestIdx]]]) {
+            bestIdx = i;
+          }
+        }
+      }
+      next = remaining.splice(bestIdx, 1)[0];
+    }
+    order.push(next);
+    current = stops[next];
+  }
+
+  return order;
+}
+
+/**
+ * Scan 2-opt then Or-opt moves in a fixed order and return the first one
+ * that shortens the route, or null at a local optimum. Anchors never leave
+ * their slot: the moves rearrange the sequence of free stops, which then
+ * fills the free slots in order, so a stop moved past an anchor shifts the
+ * free stops between them the other way.
+ */
+function firstImprovingMove(
+  order: number[],
+  locked: boolean[],
+  cost: (order: number[]) => number,
+  currentCost: number
+): { order: number[]; cost: number } | null {
+  const freeSlots = order.map((_, slot) => slot).filter((slot) => !locked[order[slot]]);
+  const free = freeSlots.map((slot) => order[slot]);
+  const n = free.length;
+
+  const accept = (sequence: number[]) => {
+    const candidate = [...order];
+    freeSlots.forEach((slot, i) => {
+      candidate[slot] = sequence[i];
+    });
+    const candidateCost = cost(candidate);
+    return candidateCost < currentCost - EPSILON_SEC ? { order: candidate, cost: candidateCost } : null;
+  };
+
+  // 2-opt: reverse free[i..j]
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const candidate = [...free.slice(0, i), ...free.slice(i, j + 1).reverse(), ...free.slice(j + 1)];
+      const improved = accept(candidate);
+      if (improved) return improved;
+    }
+  }
+
+  // Or-opt: move a chain of 1..3 free stops to another position, possibly past an anchor
+  for (let len = 1; len <= Math.min(MAX_OR_OPT_CHAIN, n - 1); len++) {
+    for (let i = 0; i + len <= n; i++) {
+      const chain = free.slice(i, i + len);
+      const rest = [...free.slice(0, i), ...free.slice(i + len)];
+      for (let k = 0; k <= rest.length; k++) {
+        if (k === i) continue; // same position
+        const candidate = [...rest.slice(0, k), ...chain, ...rest.slice(k)];
+        const improved = accept(candidate);
+        if (improved) return improved;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RoutingProvider } from "@adaptive/integrations";
+import { createHaversineRoutingProvider, getDurationMatrix } from "./routing.service.js";
+
+process.env.TRIP_STORE = "memory";
+
+const coordinates = [
+  { lat: 48.85, lng: 2.35 },
+  { lat: 48.86, lng: 2.34 },
+  { lat: 48.87, lng: 2.3 },
+];
+
+/**
+ * A router that finds no way from the first point to the second
+ */
+function partialProvider(): RoutingProvider {
+  return {
+    ...createHaversineRoutingProvider(),
+    name: "osrm",
+    profileKey: (mode) => `test-partial/${mode}`,
+    async getDurations({ sources, destinations }) {
+      return (sources ?? [0, 1, 2]).map((from) =>
+        (destinations ?? [0, 1, 2]).map((to) => (from === 0 && to === 1 ? null : from === to ? 0 : 600))
+      );
+    },
+  };
+}
+
+describe("getDurationMatrix", () => {
+  it("estimates the pairs a provider cannot route", async () => {
+    const matrix = await getDurationMatrix(partialProvider(), "walking", coordinates);
+    const estimate = await createHaversineRoutingProvider().getDurations({
+      coordinates,
+      sources: [0],
+      destinations: [1],
+      mode: "walking",
+    });
+
+    assert.equal(matrix[0][1], estimate[0][0]);
+    assert.equal(matrix[1][0], 600);
+    assert.ok(matrix.every((row) => row.every((durationSec) => Number.isFinite(durationSec))));
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Routing service - pick the routing provider for a trip and fetch duration matrices through the cache
+ *
+ * A request may name a provider; otherwise ROUTING_PROVIDER_BY_CITY (e.g.
+ * "Paris=osrm,Chennai=mapbox") and then ROUTING_PROVIDER decide, falling back
+ * to Mapbox when a token is set and haversine estimates when not.
+ */
+import type { Activity, Itinerary, LatLng, RouteLeg, RoutingProviderName, TravelMode } from "@adaptive/types";
+import { RoutingProviderNameSchema } from "@adaptive/types";
+import {
+  allIndices,
+  createMapboxRoutingProvider,
+  createOsrmRoutingProvider,
+  createValhallaRoutingProvider,
+  type RoutingProvider,
+} from "@adaptive/integrations";
+import { haversineKm, estimateTravelMin } from "../utils/geo.js";
+import { getMatrixCache } from "./matrix-cache.service.js";
+
+/**
+ * Straight-line travel estimate in seconds, as the planner makes for legs it has no routed time for
+ */
+function estimateSec(from: LatLng, to: LatLng, mode: TravelMode): number {
+  return estimateTravelMin(haversineKm(from.lat, from.lng, to.lat, to.lng), mode) * 60;
+}
+
+/**
+ * Straight-line estimates from utils/geo; needs no network at all
+ */
+export function createHaversineRoutingProvider(): RoutingProvider {
+  return {
+    name: "haversine",
+
+    profileKey(mode) {
+      return `haversine/${mode}`;
+    },
+
+    isTrafficAware() {
+      return false;
+    },
+
+    async getDurations({ coordinates, sources, destinations, mode }) {
+      return (sources ?? allIndices(coordinates)).map((from) =>
+        (destinations ?? allIndices(coordinates)).map((to) =>
+          from === to ? 0 : estimateSec(coordinates[from], coordinates[to], mode)
+        )
+      );
+    },
+
+    async getLegGeometry(from, to, mode) {
+      return {
+        coordinates: [
+          [from.lng, from.lat],
+          [to.lng, to.lat],
+        ],
+        durationSec: estimateSec(from, to, mode),
+        distanceM: haversineKm(from.lat, from.lng, to.lat, to.lng) * 1000,
+      };
+    },
+  };
+}
+
+/**
+ * Whether the settings a provider needs are present
+ */
+export function isRoutingProviderConfigured(name: RoutingProviderName): boolean {
+  switch (name) {
+    case "mapbox":
+      return Boolean(process.env.MAPBOX_ACCESS_TOKEN);
+    case "osrm":
+      return Boolean(process.env.OSRM_BASE_URL);
+    case "valhalla":
+      return Boolean(process.env.VALHALLA_BASE_URL);
+    case "haversine":
+      return true;
+  }
+}
+
+/**
+ * The provider a trip in `city` should use, honouring an explicit request first.
+ * Unconfigured providers fall back to haversine estimates.
+ */
+export function getRoutingProvider(city: string, requested?: RoutingProviderName): RoutingProvider {
+  const name = requested ?? getCityProvider(city) ?? getDefaultProviderName();
+  if (!isRoutingProviderConfigured(name)) {
+    console.warn(`[Routing] Provider "${name}" is not configured, using haversine estimates`);
+    return createHaversineRoutingProvider();
+  }
+
+  switch (name) {
+    case "mapbox":
+      return createMapboxRoutingProvider({
+        accessToken: process.env.MAPBOX_ACCESS_TOKEN!,
+        trafficProfile: process.env.MAPBOX_TRAFFIC_PROFILE || "mapbox/driving-traffic",
+        // Large matrices are fetched as tiles, this many at a time
+        concurrency: Number.parseInt(process.env.MAPBOX_MATRIX_CONCURRENCY || "4", 10),
+      });
+    case "osrm":
+      return createOsrmRoutingProvider({ baseUrl: process.env.OSRM_BASE_URL! });
+    case "valhalla":
+      return createValhallaRoutingProvider({ baseUrl: process.env.VALHALLA_BASE_URL! });
+    case "haversine":
+      return createHaversineRoutingProvider();
+  }
+}
+
+/**
+ * Duration matrix in seconds for a provider; routed providers go through the
+ * duration cache, estimates are cheaper to recompute than to look up. Pairs
+ * the provider finds no route between get the straight-line estimate.
+ */
+export async function getDurationMatrix(
+  provider: RoutingProvider,
+  mode: TravelMode,
+  coordinates: LatLng[],
+  departMin?: number
+): Promise<number[][]> {
+  const matrix =
+    provider.name === "haversine"
+      ? await provider.getDurations({ coordinates, mode })
+      : await getMatrixCache().getDurationMatrix({ provider, mode, coordinates, departMin });
+  return matrix.map((row, i) =>
+    row.map((durationSec, j) => durationSec ?? estimateSec(coordinates[i], coordinates[j], mode))
+  );
+}
+
+/**
+ * Road geometry for each leg of a planned day: from `start` through every
+ * located stop and, when the day returns, on to `end`. Rest breaks stay where
+ * the traveler already is, so they add no leg. Legs the provider cannot route
+ * are drawn as straight lines and marked estimated.
+ */
+export async function buildRouteLegs(
+  provider: RoutingProvider,
+  itinerary: Itinerary,
+  activities: Activity[],
+  start?: LatLng,
+  end?: LatLng
+): Promise<RouteLeg[]> {
+  const places = new Map(activities.map((activity) => [activity.activityId, activity.place]));
+  const stops: { activityId?: string; location: LatLng; mode: TravelMode }[] = [];
+  for (const item of itinerary.items) {
+    const location = item.location ?? places.get(item.activityId);
+    if (!location) continue;
+    stops.push({ activityId: item.activityId, location, mode: item.travelMode ?? "driving" });
+  }
+  if (end && itinerary.returnTravelMin !== undefined) {
+    stops.push({ location: end, mode: itinerary.returnTravelMode ?? "driving" });
+  }
+
+  const legs: RouteLeg[] = [];
+  let previous: { activityId?: string; location: LatLng } | undefined = start && { location: start };
+  for (const stop of stops) {
+    if (previous) {
+      legs.push(await routeLeg(provider, previous, stop));
+    }
+    previous = stop;
+  }
+  return legs;
+}
+
+async function routeLeg(
+  provider: RoutingProvider,
+  from: { activityId?: string; location: LatLng },
+  to: { activityId?: string; location: LatLng; mode: TravelMode }
+): Promise<RouteLeg> {
+  const leg = { fromActivityId: from.activityId, toActivityId: to.activityId, mode: to.mode };
+  try {
+    return { ...leg, ...(await provider.getLegGeometry(from.location, to.location, to.mode)) };
+  } catch (error) {
+    console.warn(`[Routing] ${provider.name} could not route a leg, drawing a straight line:`, error);
+    const estimate = await createHaversineRoutingProvider().getLegGeometry(from.location, to.location, to.mode);
+    return { ...leg, ...estimate, estimated: true };
+  }
+}
+
+function getDefaultProviderName(): RoutingProviderName {
+  const configured = parseProviderName(process.env.ROUTING_PROVIDER, "ROUTING_PROVIDER");
+  if (configured) return configured;
+  return process.env.MAPBOX_ACCESS_TOKEN ? "mapbox" : "haversine";
+}
+
+/**
+ * Provider named for a city in ROUTING_PROVIDER_BY_CITY, matched case-insensitively
+ */
+function getCityProvider(city: string): RoutingProviderName | undefined {
+  for (const entry of (process.env.ROUTING_PROVIDER_BY_CITY || "").split(",")) {
+    const [entryCity, provider] = entry.split("=").map((part) => part.trim());
+    if (entryCity && entryCity.toLowerCase() === city.trim().toLowerCase()) {
+      return parseProviderName(provider, "ROUTING_PROVIDER_BY_CITY");
+    }
+  }
+  return undefined;
+}
+
+function parseProviderName(value: string | undefined, setting: string): RoutingProviderName | undefined {
+  if (!value) return undefined;
+  const parsed = RoutingProviderNameSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn(`[Routing] Ignoring unknown provider "${value}" in ${setting}`);
+    return undefined;
+  }
+  return parsed.data;
+}
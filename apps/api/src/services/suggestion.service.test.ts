@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Itinerary, ItineraryItem, Suggestion } from "@adaptive/types";
+import type { ActivityRecord, ItineraryVersionRecord, TripRecord } from "../store/index.js";
+import { buildAppliedItinerary, rebaseSuggestionPlan } from "./suggestion.service.js";
+
+const hotel = { name: "Hotel", lat: 48.85, lng: 2.35 };
+
+const tripRecord: TripRecord = {
+  tripId: "trp_test",
+  city: "Paris",
+  date: "2026-10-20",
+  startTime: "09:00",
+  endTime: "18:00",
+  days: [{ date: "2026-10-20", startTime: "09:00", endTime: "18:00" }],
+  preferences: { pace: "medium", interests: [], avoid: [], budget: "medium" },
+  baseLocation: hotel,
+  createdAt: "2026-10-01T00:00:00.000Z",
+};
+
+/**
+ * Stops due north of the hotel, about 1.1 km apart
+ */
+function activity(index: number): ActivityRecord {
+  return {
+    activityId: `act_${index}`,
+    place: {
+      provider: "test",
+      providerPlaceId: `place_${index}`,
+      name: `Place ${index}`,
+      lat: 48.85 + index * 0.01,
+      lng: 2.35,
+    },
+    durationMin: 60,
+    locked: false,
+    addedAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+function item(index: number, startTime: string, endTime: string, travelFromPrevMin: number): ItineraryItem {
+  return { activityId: `act_${index}`, placeName: `Place ${index}`, startTime, endTime, travelFromPrevMin };
+}
+
+function version(itinerary: Itinerary, number = 1): ItineraryVersionRecord {
+  return {
+    version: number,
+    date: "2026-10-20",
+    itinerary,
+    generatedAt: "2026-10-01T00:00:00.000Z",
+    source: { type: "generated" },
+  };
+}
+
+function suggestion(before: ItineraryItem[], after: ItineraryItem[]): Suggestion {
+  return {
+    suggestionId: "sug_test",
+    kind: "reorder",
+    status: "pending",
+    createdAt: "2026-10-20T08:00:00.000Z",
+    trigger: "weather",
+    reasons: [],
+    confidence: 0.8,
+    beforePlan: { version: 1, items: before },
+    afterPlan: { items: after },
+  };
+}
+
+describe("buildAppliedItinerary", () => {
+  const activities = [activity(1), activity(3)];
+  const before = [item(1, "09:00", "10:00", 0), item(3, "10:10", "11:10", 10)];
+  const latest = version({
+    items: before,
+    totalTravelMin: 50,
+    returnTravelMin: 40,
+    returnTravelMode: "transit",
+  });
+
+  it("estimates the way back from a new last stop in the same mode", () => {
+    const after = [item(3, "09:00", "10:00", 0), item(1, "10:10", "11:10", 10)];
+    const applied = buildAppliedItinerary(suggestion(before, after), latest, tripRecord, activities);
+
+    assert.ok(applied);
+    assert.equal(applied.returnTravelMode, "transit");
+    assert.ok(applied.returnTravelMin! < 40, "the new last stop is nearer the hotel");
+    assert.equal(applied.totalTravelMin, 10 + applied.returnTravelMin!);
+  });
+
+  it("keeps the routed way back when the day ends at the same stop", () => {
+    const after = [item(1, "09:30", "10:30", 0), item(3, "10:40", "11:40", 10)];
+    const applied = buildAppliedItinerary(suggestion(before, after), latest, tripRecord, activities);
+
+    assert.ok(applied);
+    assert.equal(applied.returnTravelMin, 40);
+    assert.equal(applied.returnTravelMode, "transit");
+    assert.equal(applied.totalTravelMin, 50);
+  });
+});
+
+describe("rebaseSuggestionPlan", () => {
+  const before = [item(1, "09:00", "10:00", 0), item(3, "10:10", "11:10", 10)];
+  const after = [item(3, "09:00", "10:00", 0), item(1, "10:10", "11:10", 10)];
+
+  it("keeps the plan as suggested on the version it was built on", () => {
+    const latest = version({ items: before, totalTravelMin: 10 });
+
+    assert.deepEqual(rebaseSuggestionPlan(suggestion(before, after), latest), after);
+  });
+
+  it("re-times the plan against a newer version visiting the same stops in the same order", () => {
+    const retimed = [item(1, "09:00", "10:30", 0), item(3, "10:40", "11:10", 10)];
+    const latest = version({ items: retimed, totalTravelMin: 10 }, 2);
+
+    const rebased = rebaseSuggestionPlan(suggestion(before, after), latest);
+
+    assert.deepEqual(
+      rebased?.map((entry) => [entry.activityId, entry.startTime, entry.endTime]),
+      [
+        ["act_3", "09:00", "09:30"],
+        ["act_1", "10:10", "11:40"],
+      ]
+    );
+  });
+
+  it("gives up on a newer version with other stops or another order", () => {
+    for (const items of [after, [item(1, "09:00", "10:00", 0)]]) {
+      const latest = version({ items, totalTravelMin: 0 }, 2);
+
+      assert.equal(rebaseSuggestionPlan(suggestion(before, after), latest), null);
+    }
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Suggestion service - Build weather and crowd-based suggestions
+ * Suggestion service - Build weather, crowd, community, transit and delay suggestions
  */
 import { nanoid } from "nanoid";
 import type {
@@ -7,35 +7,91 @@ import type {
   Activity,
   Itinerary,
   ItineraryItem,
+  LatLng,
   Suggestion,
   Weights,
   CrowdSignalItem,
   CommunitySignalReport,
 } from "@adaptive/types";
-import type { WeatherSignalRecord, CrowdSignalRecord, TransitSignalRecord } from "../store/store.js";
+import type {
+  ItineraryVersionRecord,
+  WeatherSignalRecord,
+  CrowdSignalRecord,
+  TransitSignalRecord,
+} from "../store/index.js";
 import { buildPlanDiff } from "./diff.service.js";
+import type { DelayAssessment } from "./progress.service.js";
 import { computeImpact, computeConfidence } from "./impact.service.js";
+import { validateItinerary } from "./itinerary-validation.service.js";
 import { parseHHMM, formatHHMM } from "../utils/time.js";
-import { haversineKm } from "../utils/geo.js";
+import { haversineKm, estimateTravelMin } from "../utils/geo.js";
+import { earliestFeasibleStart, getActivityWindows } from "../utils/time-windows.js";
+
+/**
+ * The part of a day suggestions may change and where it starts
+ */
+interface DayParts {
+  date: string;
+  /** Items completed before a replan or behind a late traveler; never moved or re-timed */
+  done: ItineraryItem[];
+  ahead: ItineraryItem[];
+  /** HH:mm the items ahead start from */
+  startTime: string;
+  /** Whether the first item ahead is travelled to rather than starting the day */
+  underway: boolean;
+}
+
+/**
+ * Split a day into what is done and what is still ahead. The completed items
+ * lead the day and only the rest is open to change, starting where a replan
+ * left the traveler or else when the last completed item ends.
+ */
+function splitDay(itinerary: Itinerary, trip: Trip): DayParts {
+  const done = itinerary.items.filter((item) => item.completed);
+  return {
+    date: trip.date,
+    done,
+    ahead: itinerary.items.filter((item) => !item.completed),
+    startTime: itinerary.replannedFrom?.time ?? done[done.length - 1]?.endTime ?? trip.startTime,
+    underway: itinerary.replannedFrom !== undefined || done.length > 0,
+  };
+}
 
 /**
  * Recalculate itinerary times after reordering
+ * Stops wait for their place to open, and pinned ones for their start time;
+ * returns null when the new order reaches a pinned item too late.
  * Note: travel times need to be recalculated separately using Mapbox
+ * @param fromPosition - The first item is travelled to rather than starting the day
  */
 function recalculateItineraryTimes(
   items: ItineraryItem[],
-  tripStartTime: string
-): ItineraryItem[] {
+  tripStartTime: string,
+  activities: Activity[],
+  date: string,
+  fromPosition = false
+): ItineraryItem[] | null {
   const tripStartMin = parseHHMM(tripStartTime);
+  const activitiesById = new Map(activities.map((activity) => [activity.activityId, activity]));
   const recalculated: ItineraryItem[] = [];
   let currentTimeMin = tripStartMin;
 
   for (let i = 0; i < items.length; i++) {
-    const item = items[i];
-    // First item always starts at trip start time
-    const travelFromPrevMin = i === 0 ? 0 : Math.max(item.travelFromPrevMin, 5);
-    const startTime = currentTimeMin + travelFromPrevMin;
+    const { waitMin: _previousWaitMin, bufferMin: previousBufferMin, ...item } = items[i];
+    // First item starts the day at trip start time; later ones keep their pace buffer
+    const startsDay = i === 0 && !fromPosition;
+    const travelFromPrevMin = startsDay ? 0 : Math.max(item.travelFromPrevMin, 5);
+    const bufferMin = startsDay ? 0 : previousBufferMin ?? 0;
+    const arrivalTime = currentTimeMin + travelFromPrevMin + bufferMin;
     const duration = parseHHMM(item.endTime) - parseHHMM(item.startTime);
+
+    // Windows are sized by the planned visit, which the trip's pace may have stretched
+    const activity = activitiesById.get(item.activityId);
+    const feasibleStart =
+      activity && earliestFeasibleStart(arrivalTime, duration, getActivityWindows({ ...activity, durationMin: duration }, date));
+    if (feasibleStart === null && activity?.pinnedStart) return null;
+    // A stop that fits no window keeps its arrival; validation rejects the plan
+    const startTime = feasibleStart ?? arrivalTime;
     const endTime = startTime + duration;
 
     recalculated.push({
@@ -43,6 +99,8 @@ function recalculateItineraryTimes(
       startTime: formatHHMM(startTime),
       endTime: formatHHMM(endTime),
       travelFromPrevMin,
+      ...(startTime > arrivalTime && { waitMin: startTime - arrivalTime }),
+      ...(bufferMin > 0 && { bufferMin }),
     });
 
     currentTimeMin = endTime;
@@ -51,6 +109,147 @@ function recalculateItineraryTimes(
   return recalculated;
 }
 
+/**
+ * Re-time the reordered items ahead and put the done ones back in front;
+ * null when the new order misses a pinned start time
+ */
+function retimeAhead(day: DayParts, reordered: ItineraryItem[], activities: Activity[]): ItineraryItem[] | null {
+  const timed = recalculateItineraryTimes(reordered, day.startTime, activities, day.date, day.underway);
+  return timed && [...day.done, ...timed];
+}
+
+/**
+ * Whether a suggested plan passes the same validation as applying it does;
+ * logs why when it does not
+ */
+function isFeasiblePlan(
+  trip: Trip,
+  activities: Activity[],
+  latestItinerary: Itinerary,
+  afterPlanItems: ItineraryItem[],
+  label: string,
+  allowOverrun = false
+): boolean {
+  const { valid, errors } = validateItinerary(
+    { ...latestItinerary, items: afterPlanItems },
+    { trip, activities, reference: latestItinerary.items, allowOverrun }
+  );
+  if (!valid) {
+    const codes = [...new Set(errors.map((issue) => issue.code))].join(", ");
+    console.log(`[Suggestion] ${label}: Suggested plan is infeasible (${codes}), skipping suggestion`);
+  }
+  return valid;
+}
+
+/**
+ * Items suggestions must not move: locked activities keep their position,
+ * pinned ones their start time, and system-added breaks stay where they are
+ */
+function getAnchorIds(activities: Activity[], items: ItineraryItem[]): Set<string> {
+  return new Set([
+    ...activities.filter((a) => a.locked || a.pinnedStart).map((a) => a.activityId),
+    ...items.filter((item) => item.systemAdded).map((item) => item.activityId),
+  ]);
+}
+
+/**
+ * Rebase a suggestion's after plan onto the latest itinerary version.
+ * A suggestion still makes sense when the latest version visits the same
+ * activities in the same order as its base; the new order is kept and
+ * durations are taken from the latest version. Returns null when it cannot
+ * be rebased.
+ */
+export function rebaseSuggestionPlan(
+  suggestion: Suggestion,
+  latest: ItineraryVersionRecord
+): ItineraryItem[] | null {
+  if (suggestion.beforePlan.version === latest.version) {
+    return suggestion.afterPlan.items;
+  }
+
+  const baseIds = suggestion.beforePlan.items.map((item) => item.activityId).join(",");
+  const latestIds = latest.itinerary.items.map((item) => item.activityId).join(",");
+  if (baseIds !== latestIds) {
+    return null;
+  }
+
+  const latestById = new Map(latest.itinerary.items.map((item) => [item.activityId, item]));
+  return suggestion.afterPlan.items.map((item) => {
+    const latestItem = latestById.get(item.activityId)!;
+    const durationMin = parseHHMM(latestItem.endTime) - parseHHMM(latestItem.startTime);
+    return {
+      ...item,
+      endTime: formatHHMM(parseHHMM(item.startTime) + durationMin),
+    };
+  });
+}
+
+/**
+ * The itinerary applying a suggestion saves, or null when the suggestion
+ * cannot be rebased onto the latest version. A plan built on the latest
+ * version is kept as suggested; one rebased onto a newer version is re-timed
+ * against it. The trip must already be narrowed to the suggestion's day.
+ */
+export function buildAppliedItinerary(
+  suggestion: Suggestion,
+  latest: ItineraryVersionRecord,
+  trip: Trip,
+  activities: Activity[]
+): Itinerary | null {
+  const afterItems = rebaseSuggestionPlan(suggestion, latest);
+  if (!afterItems) {
+    return null;
+  }
+
+  const items =
+    suggestion.beforePlan.version === latest.version
+      ? afterItems
+      : retimeAhead(
+          splitDay(latest.itinerary, trip),
+          afterItems.filter((item) => !item.completed),
+          activities
+        ) ?? afterItems;
+
+  const back = returnLeg(items, latest.itinerary, trip, activities);
+  return {
+    items,
+    totalTravelMin: items.reduce((sum, item) => sum + item.travelFromPrevMin, back.returnTravelMin ?? 0),
+    ...back,
+    unscheduled: latest.itinerary.unscheduled,
+    preferenceEffects: latest.itinerary.preferenceEffects,
+    replannedFrom: latest.itinerary.replannedFrom,
+  };
+}
+
+/**
+ * The way back to the trip's end location after a changed plan. A day that
+ * still ends at the same stop keeps the latest version's routed leg; one
+ * ending elsewhere is estimated from the new last stop, in the mode the
+ * latest version came back in, the way the planner estimates unrouted legs.
+ */
+function returnLeg(
+  items: ItineraryItem[],
+  latest: Itinerary,
+  trip: Trip,
+  activities: Activity[]
+): Pick<Itinerary, "returnTravelMin" | "returnTravelMode"> {
+  const kept = { returnTravelMin: latest.returnTravelMin, returnTravelMode: latest.returnTravelMode };
+  const end = trip.endLocation ?? trip.baseLocation;
+  const last = items[items.length - 1];
+  if (latest.returnTravelMin === undefined || !end || !last) return kept;
+  if (last.activityId === latest.items[latest.items.length - 1]?.activityId) return kept;
+
+  const place = activities.find((activity) => activity.activityId === last.activityId)?.place;
+  const from: LatLng | undefined = last.location ?? place;
+  if (!from) return kept;
+
+  const mode = latest.returnTravelMode ?? "driving";
+  return {
+    returnTravelMin: estimateTravelMin(haversineKm(from.lat, from.lng, end.lat, end.lng), mode),
+    returnTravelMode: mode,
+  };
+}
+
 /**
  * Check if a time falls within risk hours
  */
@@ -156,9 +355,12 @@ function reorderToAvoidRain(
 export function buildWeatherSuggestion(
   trip: Trip,
   activities: Activity[],
-  latestItinerary: Itinerary | undefined,
+  latestVersion: ItineraryVersionRecord | undefined,
   weatherSignal: WeatherSignalRecord | null
 ): Suggestion | null {
+  const latestItinerary = latestVersion?.itinerary;
+  const baseVersion = latestVersion?.version ?? 0;
+
   // No weather data
   if (!weatherSignal || weatherSignal.riskHours.length === 0) {
     return null;
@@ -169,9 +371,12 @@ export function buildWeatherSuggestion(
     return null;
   }
 
+  // Only what is still ahead may change
+  const day = splitDay(latestItinerary, trip);
+
   // Find risky outdoor activities
   const riskyActivities = findRiskyOutdoorActivities(
-    latestItinerary.items,
+    day.ahead,
     activities,
     weatherSignal.riskHours
   );
@@ -181,10 +386,8 @@ export function buildWeatherSuggestion(
     return null;
   }
 
-  // Respect locked activities
-  const lockedIds = new Set(
-    activities.filter((a) => a.locked).map((a) => a.activityId)
-  );
+  // Respect locked and pinned activities
+  const lockedIds = getAnchorIds(activities, day.ahead);
 
   // Build suggestion
   const suggestionId = `sug_${nanoid(12)}`;
@@ -202,22 +405,26 @@ export function buildWeatherSuggestion(
   ];
 
   // Reorder itinerary (respecting locked activities)
-  const reorderedItems = reorderToAvoidRain(latestItinerary.items, riskyActivities, lockedIds);
+  const reorderedItems = reorderToAvoidRain(day.ahead, riskyActivities, lockedIds);
 
   // Check if there's actually a change - if not, don't create suggestion
   const hasActualChange = reorderedItems.some((item, idx) => 
-    item.activityId !== latestItinerary.items[idx]?.activityId
+    item.activityId !== day.ahead[idx]?.activityId
   );
   if (!hasActualChange) {
     console.log("[Suggestion] Weather: No actual reordering needed, skipping suggestion");
     return null;
   }
 
-  // Recalculate times based on new order
-  const afterPlanItems = recalculateItineraryTimes(reorderedItems, trip.startTime);
-
-  // Get current version from latestItinerary
-  const currentVersion = latestItinerary.totalTravelMin ? 1 : 1;
+  // Recalculate times based on new order, keeping pinned start times
+  const afterPlanItems = retimeAhead(day, reorderedItems, activities);
+  if (!afterPlanItems) {
+    console.log("[Suggestion] Weather: Reordering would miss a pinned start time, skipping suggestion");
+    return null;
+  }
+  if (!isFeasiblePlan(trip, activities, latestItinerary, afterPlanItems, "Weather")) {
+    return null;
+  }
 
   // Compute diff, impact, and confidence
   const diff = buildPlanDiff(latestItinerary.items, afterPlanItems);
@@ -242,11 +449,10 @@ export function buildWeatherSuggestion(
     confidence,
     impact,
     beforePlan: {
-      version: currentVersion,
+      version: baseVersion,
       items: latestItinerary.items,
     },
     afterPlan: {
-      version: currentVersion + 1,
       items: afterPlanItems,
     },
     diff,
@@ -373,9 +579,12 @@ function reorderToAvoidCrowds(
 export function buildCrowdSuggestion(
   trip: Trip,
   activities: Activity[],
-  latestItinerary: Itinerary | undefined,
+  latestVersion: ItineraryVersionRecord | undefined,
   crowdSignalRecord: CrowdSignalRecord | null
 ): Suggestion | null {
+  const latestItinerary = latestVersion?.itinerary;
+  const baseVersion = latestVersion?.version ?? 0;
+
   // No crowd data
   if (!crowdSignalRecord || crowdSignalRecord.crowds.length === 0) {
     return null;
@@ -386,9 +595,12 @@ export function buildCrowdSuggestion(
     return null;
   }
 
+  // Only what is still ahead may change
+  const day = splitDay(latestItinerary, trip);
+
   // Find crowded activities
   const crowdedActivities = findCrowdedActivities(
-    latestItinerary.items,
+    day.ahead,
     activities,
     crowdSignalRecord.crowds
   );
@@ -398,10 +610,8 @@ export function buildCrowdSuggestion(
     return null;
   }
 
-  // Respect locked activities
-  const lockedIds = new Set(
-    activities.filter((a) => a.locked).map((a) => a.activityId)
-  );
+  // Respect locked and pinned activities
+  const lockedIds = getAnchorIds(activities, day.ahead);
 
   // Build suggestion
   const suggestionId = `sug_${nanoid(12)}`;
@@ -426,19 +636,26 @@ export function buildCrowdSuggestion(
   reasons.push("Shifted crowded stops earlier to avoid peak hours");
 
   // Reorder itinerary (respecting locked activities)
-  const reorderedItems = reorderToAvoidCrowds(latestItinerary.items, crowdedActivities, lockedIds);
+  const reorderedItems = reorderToAvoidCrowds(day.ahead, crowdedActivities, lockedIds);
 
   // Check if there's actually a change - if not, don't create suggestion
   const hasActualChange = reorderedItems.some((item, idx) => 
-    item.activityId !== latestItinerary.items[idx]?.activityId
+    item.activityId !== day.ahead[idx]?.activityId
   );
   if (!hasActualChange) {
     console.log("[Suggestion] Crowd: No actual reordering needed, skipping suggestion");
     return null;
   }
 
-  // Recalculate times based on new order
-  const afterPlanItems = recalculateItineraryTimes(reorderedItems, trip.startTime);
+  // Recalculate times based on new order, keeping pinned start times
+  const afterPlanItems = retimeAhead(day, reorderedItems, activities);
+  if (!afterPlanItems) {
+    console.log("[Suggestion] Crowd: Reordering would miss a pinned start time, skipping suggestion");
+    return null;
+  }
+  if (!isFeasiblePlan(trip, activities, latestItinerary, afterPlanItems, "Crowd")) {
+    return null;
+  }
 
   // Compute diff, impact, and confidence
   const diff = buildPlanDiff(latestItinerary.items, afterPlanItems);
@@ -463,11 +680,10 @@ export function buildCrowdSuggestion(
     confidence,
     impact,
     beforePlan: {
-      version: 1,
+      version: baseVersion,
       items: latestItinerary.items,
     },
     afterPlan: {
-      version: 2,
       items: afterPlanItems,
     },
     diff,
@@ -483,9 +699,12 @@ export function buildCrowdSuggestion(
 export function buildCommunitySuggestion(
   trip: Trip,
   activities: Activity[],
-  latestItinerary: Itinerary | undefined,
+  latestVersion: ItineraryVersionRecord | undefined,
   communityReports: CommunitySignalReport[]
 ): Suggestion | null {
+  const latestItinerary = latestVersion?.itinerary;
+  const baseVersion = latestVersion?.version ?? 0;
+
   if (!latestItinerary || latestItinerary.items.length === 0 || communityReports.length === 0) {
     return null;
   }
@@ -495,7 +714,9 @@ export function buildCommunitySuggestion(
     return null;
   }
 
-  const lockedIds = new Set(activities.filter((a) => a.locked).map((a) => a.activityId));
+  // Only what is still ahead may change
+  const day = splitDay(latestItinerary, trip);
+  const lockedIds = getAnchorIds(activities, day.ahead);
   const affectedActivityIds = new Set<string>();
   const indoorCandidateIds = new Set<string>();
   const reasons: string[] = [];
@@ -541,7 +762,7 @@ export function buildCommunitySuggestion(
     return null;
   }
 
-  const afterPlanItems = [...latestItinerary.items];
+  const afterPlanItems = [...day.ahead];
   const impacted: ItineraryItem[] = [];
   const safe: ItineraryItem[] = [];
 
@@ -575,18 +796,21 @@ export function buildCommunitySuggestion(
     reasons.push("Moved reported risk-area stops later in the route.");
   }
 
-  if (reordered.length !== latestItinerary.items.length) {
+  if (reordered.length !== day.ahead.length) {
     return null;
   }
 
   const hasActualChange = reordered.some(
-    (item, idx) => item.activityId !== latestItinerary.items[idx]?.activityId
+    (item, idx) => item.activityId !== day.ahead[idx]?.activityId
   );
   if (!hasActualChange) {
     return null;
   }
 
-  const timed = recalculateItineraryTimes(reordered, trip.startTime);
+  const timed = retimeAhead(day, reordered, activities);
+  if (!timed || !isFeasiblePlan(trip, activities, latestItinerary, timed, "Community")) {
+    return null;
+  }
   const diff = buildPlanDiff(latestItinerary.items, timed);
   const impact = computeImpact(latestItinerary.items, timed, "traffic");
   const confidence = computeConfidence(
@@ -612,11 +836,10 @@ export function buildCommunitySuggestion(
     confidence,
     impact,
     beforePlan: {
-      version: 1,
+      version: baseVersion,
       items: latestItinerary.items,
     },
     afterPlan: {
-      version: 2,
       items: timed,
     },
     diff,
@@ -632,9 +855,12 @@ export function buildCommunitySuggestion(
 export function buildTransitSuggestion(
   trip: Trip,
   activities: Activity[],
-  latestItinerary: Itinerary | undefined,
+  latestVersion: ItineraryVersionRecord | undefined,
   transitSignal: TransitSignalRecord | null
 ): Suggestion | null {
+  const latestItinerary = latestVersion?.itinerary;
+  const baseVersion = latestVersion?.version ?? 0;
+
   // No transit data
   if (!transitSignal || transitSignal.alerts.length === 0) {
     return null;
@@ -645,6 +871,9 @@ export function buildTransitSuggestion(
     return null;
   }
 
+  // Only what is still ahead may change
+  const day = splitDay(latestItinerary, trip);
+
   // Get TRANSIT_DELAY_THRESHOLD_MIN from env, default to 10
   const delayThreshold = parseInt(process.env.TRANSIT_DELAY_THRESHOLD_MIN || "10", 10);
 
@@ -657,10 +886,8 @@ export function buildTransitSuggestion(
     return null;
   }
 
-  // Respect locked activities
-  const lockedIds = new Set(
-    activities.filter((a) => a.locked).map((a) => a.activityId)
-  );
+  // Respect locked and pinned activities
+  const lockedIds = getAnchorIds(activities, day.ahead);
 
   // Build reasons
   const reasons: string[] = [];
@@ -681,7 +908,7 @@ export function buildTransitSuggestion(
   let shiftedCount = 0;
   const maxToShift = 2;
 
-  for (const item of latestItinerary.items) {
+  for (const item of day.ahead) {
     if (lockedIds.has(item.activityId)) {
       // Keep locked items in order
       restItems.push(item);
@@ -700,15 +927,22 @@ export function buildTransitSuggestion(
 
   // Check if there's actually a change - if not, don't create suggestion
   const hasActualChange = reorderedItems.some((item, idx) => 
-    item.activityId !== latestItinerary.items[idx]?.activityId
+    item.activityId !== day.ahead[idx]?.activityId
   );
   if (!hasActualChange) {
     console.log("[Suggestion] Transit: No actual reordering needed, skipping suggestion");
     return null;
   }
 
-  // Recalculate times based on new order
-  const afterPlanItems = recalculateItineraryTimes(reorderedItems, trip.startTime);
+  // Recalculate times based on new order, keeping pinned start times
+  const afterPlanItems = retimeAhead(day, reorderedItems, activities);
+  if (!afterPlanItems) {
+    console.log("[Suggestion] Transit: Reordering would miss a pinned start time, skipping suggestion");
+    return null;
+  }
+  if (!isFeasiblePlan(trip, activities, latestItinerary, afterPlanItems, "Transit")) {
+    return null;
+  }
 
   const suggestionId = `sug_${nanoid(10)}`;
 
@@ -736,11 +970,10 @@ export function buildTransitSuggestion(
     confidence,
     impact,
     beforePlan: {
-      version: 1,
+      version: baseVersion,
       items: latestItinerary.items,
     },
     afterPlan: {
-      version: 2,
       items: afterPlanItems,
     },
     diff,
@@ -748,3 +981,101 @@ export function buildTransitSuggestion(
 
   return suggestion;
 }
+
+/**
+ * Build a delay suggestion: when the traveler runs late, push the stops still
+ * to come back so the plan matches where they really are
+ * Returns null if no suggestion needed
+ */
+export function buildDelaySuggestion(
+  trip: Trip,
+  activities: Activity[],
+  latestVersion: ItineraryVersionRecord | undefined,
+  assessment: DelayAssessment,
+  lateThresholdMin: number
+): Suggestion | null {
+  const latestItinerary = latestVersion?.itinerary;
+  const baseVersion = latestVersion?.version ?? 0;
+
+  // On time, or nothing left to re-time
+  if (!latestItinerary || assessment.lateMin < lateThresholdMin || assessment.resumeMin === undefined) {
+    return null;
+  }
+  const [next, ...rest] = assessment.upcoming;
+  if (!next) {
+    return null;
+  }
+
+  // Keep the order; only the times move, pinned stops absorbing what slack they can
+  const retimed = recalculateItineraryTimes(
+    [{ ...next, travelFromPrevMin: assessment.firstLegMin ?? next.travelFromPrevMin }, ...rest],
+    formatHHMM(assessment.resumeMin),
+    activities,
+    trip.date,
+    true
+  );
+  if (!retimed) {
+    console.log("[Suggestion] Delay: Running late would miss a pinned start time, skipping suggestion");
+    return null;
+  }
+  const afterPlanItems = [...assessment.past, ...retimed];
+  // The traveler is already late, so the day may have to run past its end
+  if (!isFeasiblePlan(trip, activities, latestItinerary, afterPlanItems, "Delay", true)) {
+    return null;
+  }
+
+  const placeName = (activityId?: string) =>
+    latestItinerary.items.find((item) => item.activityId === activityId)?.placeName ?? "the last stop";
+  const reasons = [`Running about ${assessment.lateMin} min behind plan`];
+  switch (assessment.cause) {
+    case "overstay":
+      reasons.push(`Still at ${placeName(assessment.atActivityId)} past its planned length`);
+      break;
+    case "late_start":
+      reasons.push(`Arrived late at ${placeName(assessment.atActivityId)}`);
+      break;
+    case "late_departure":
+      reasons.push(`Left ${placeName(assessment.atActivityId)} later than planned`);
+      break;
+    case "en_route":
+      reasons.push(`Still on the way to ${placeName(assessment.atActivityId)}`);
+      break;
+  }
+  reasons.push(
+    `Pushed the ${retimed.length === 1 ? "next stop" : `next ${retimed.length} stops`} back to match`
+  );
+  const finishMin = parseHHMM(retimed[retimed.length - 1].endTime);
+  if (finishMin > parseHHMM(trip.endTime)) {
+    reasons.push(`The day now runs until ${formatHHMM(finishMin)}, past the planned end at ${trip.endTime}`);
+  }
+
+  const diff = buildPlanDiff(latestItinerary.items, afterPlanItems);
+  const impact = { ...computeImpact(latestItinerary.items, afterPlanItems, "delay"), lateMin: assessment.lateMin };
+  const dummyWeights: Weights = {
+    weatherWeight: 1.0,
+    crowdWeight: 1.0,
+    transitWeight: 1.0,
+    travelWeight: 1.0,
+    changeAversion: 1.0,
+  };
+  const confidence = computeConfidence(dummyWeights, "delay", impact, diff.moved.length + diff.swapped.length);
+
+  return {
+    suggestionId: `sug_${nanoid(12)}`,
+    kind: "shift",
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    trigger: "delay",
+    reasons,
+    confidence,
+    impact,
+    beforePlan: {
+      version: baseVersion,
+      items: latestItinerary.items,
+    },
+    afterPlan: {
+      items: afterPlanItems,
+    },
+    diff,
+  };
+}
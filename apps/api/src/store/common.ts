@@ -0,0 +1,65 @@
+/**
+ * Behaviour shared by every TripStore implementation
+ */
+import type { ItineraryItem, Suggestion, SuggestionTrigger, Weights } from "@adaptive/types";
+
+// Default weights for a new trip
+export const DEFAULT_WEIGHTS: Weights = {
+  weatherWeight: 1.0,
+  crowdWeight: 1.0,
+  transitWeight: 1.0,
+  travelWeight: 1.0,
+  changeAversion: 1.0,
+};
+
+// Minimum time between automatically created suggestions
+export const SUGGESTION_COOLDOWN_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Check whether a suggestion duplicates an existing one
+ * (same kind and same beforePlan items)
+ */
+export function isDuplicateSuggestion(existing: Suggestion[], suggestion: Suggestion): boolean {
+  const newIds = suggestion.beforePlan.items.map((i: ItineraryItem) => i.activityId).join(",");
+
+  return existing.some((candidate) => {
+    // A superseded suggestion no longer blocks a fresh one on the newer itinerary
+    if (candidate.status === "superseded") return false;
+    if (candidate.kind !== suggestion.kind) return false;
+    // Running late is judged afresh against every version, and is never a repeat of a signal's shift
+    if (
+      (candidate.trigger === "delay") !== (suggestion.trigger === "delay") ||
+      (suggestion.trigger === "delay" && candidate.beforePlan.version !== suggestion.beforePlan.version)
+    ) {
+      return false;
+    }
+    if (candidate.beforePlan.items.length !== suggestion.beforePlan.items.length) return false;
+
+    const existingIds = candidate.beforePlan.items.map((i: ItineraryItem) => i.activityId).join(",");
+    return existingIds === newIds;
+  });
+}
+
+/**
+ * Apply accept/reject feedback to a copy of the weights
+ */
+export function applyWeightFeedback(
+  current: Weights,
+  { trigger, accepted }: { trigger: SuggestionTrigger; accepted: boolean }
+): Weights {
+  const tripWeights = { ...current };
+  const delta = accepted ? 0.05 : -0.05;
+  const aversionDelta = accepted ? -0.03 : 0.03;
+
+  if (trigger === "weather") {
+    tripWeights.weatherWeight = Math.max(0.5, Math.min(2.0, tripWeights.weatherWeight + delta));
+  } else if (trigger === "crowds") {
+    tripWeights.crowdWeight = Math.max(0.5, Math.min(2.0, tripWeights.crowdWeight + delta));
+  } else if (trigger === "transit" || trigger === "traffic") {
+    tripWeights.transitWeight = Math.max(0.5, Math.min(2.0, tripWeights.transitWeight + delta));
+  }
+
+  tripWeights.changeAversion = Math.max(0.5, Math.min(2.0, tripWeights.changeAversion + aversionDelta));
+
+  return tripWeights;
+}
@@ -0,0 +1,33 @@
+/**
+ * Trip store selection - picks the storage backend from configuration
+ */
+import type { TripStore } from "./types.js";
+import { createMemoryTripStore } from "./memory.store.js";
+import { createPrismaTripStore } from "./prisma.store.js";
+
+export type {
+  TripStore,
+  TripRecord,
+  ActivityRecord,
+  ItineraryVersionRecord,
+  WeatherSignalRecord,
+  CrowdSignalRecord,
+  TransitSignalRecord,
+  TripDataRecord,
+} from "./types.js";
+export { createMemoryTripStore } from "./memory.store.js";
+export { createPrismaTripStore } from "./prisma.store.js";
+
+/**
+ * Create the trip store named by `kind` (defaults to TRIP_STORE, then "prisma")
+ */
+export function createTripStore(kind: string = process.env.TRIP_STORE || "prisma"): TripStore {
+  switch (kind) {
+    case "memory":
+      return createMemoryTripStore();
+    case "prisma":
+      return createPrismaTripStore();
+    default:
+      throw new Error(`Unknown TRIP_STORE "${kind}". Use "memory" or "prisma".`);
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * In-memory TripStore - fast and disposable, used for tests and local experiments
+ */
+import { nanoid } from "nanoid";
+import type { ActivityVisit, LocationPing, Suggestion, Weights } from "@adaptive/types";
+import type {
+  TripStore,
+  TripRecord,
+  ActivityRecord,
+  ItineraryVersionRecord,
+  PlanCandidateRecord,
+  WeatherSignalRecord,
+  CrowdSignalRecord,
+  TransitSignalRecord,
+} from "./types.js";
+import {
+  DEFAULT_WEIGHTS,
+  SUGGESTION_COOLDOWN_MS,
+  applyWeightFeedback,
+  isDuplicateSuggestion,
+} from "./common.js";
+import { expandTripDays } from "../utils/days.js";
+
+/**
+ * Create an in-memory trip store. Each call returns an isolated store.
+ */
+export function createMemoryTripStore(): TripStore {
+  const trips = new Map<string, TripRecord>();
+  const activities = new Map<string, ActivityRecord[]>();
+  const itineraries = new Map<string, ItineraryVersionRecord[]>();
+  const planCandidates = new Map<string, PlanCandidateRecord[]>(); // tripId -> offered candidates
+  const visits = new Map<string, ActivityVisit[]>();
+  const locationPings = new Map<string, LocationPing[]>();
+  // Signal maps are keyed by signalKey(tripId, date)
+  const weatherSignals = new Map<string, WeatherSignalRecord>();
+  const crowdSignals = new Map<string, CrowdSignalRecord>();
+  const transitSignals = new Map<string, TransitSignalRecord>();
+  const suggestions = new Map<string, Suggestion[]>();
+  const weights = new Map<string, Weights>();
+  const suggestionCooldowns = new Map<string, number>(); // tripId -> last suggestion timestamp
+
+  function signalKey(tripId: string, date: string): string {
+    return `${tripId}:${date}`;
+  }
+
+  function latestForDate(tripId: string, date: string): ItineraryVersionRecord | undefined {
+    const tripItineraries = itineraries.get(tripId) || [];
+    for (let i = tripItineraries.length - 1; i >= 0; i--) {
+      if (tripItineraries[i].date === date) return tripItineraries[i];
+    }
+    return undefined;
+  }
+
+  function assertTripExists(tripId: string): void {
+    if (!trips.has(tripId)) {
+      throw new Error(`Trip ${tripId} not found`);
+    }
+  }
+
+  async function getWeights(tripId: string): Promise<Weights> {
+    let tripWeights = weights.get(tripId);
+    if (!tripWeights) {
+      tripWeights = { ...DEFAULT_WEIGHTS };
+      weights.set(tripId, tripWeights);
+    }
+    return tripWeights;
+  }
+
+  async function getLastSuggestionTime(tripId: string): Promise<number | null> {
+    return suggestionCooldowns.get(tripId) || null;
+  }
+
+  return {
+    async createTrip(data) {
+      const tripId = `trp_${nanoid(12)}`;
+      const trip: TripRecord = {
+        tripId,
+        city: data.city,
+        date: data.date,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        days: expandTripDays(data),
+        baseLocation: data.baseLocation,
+        endLocation: data.endLocation,
+        preferences: data.preferences,
+        createdAt: new Date().toISOString(),
+      };
+
+      trips.set(tripId, trip);
+      activities.set(tripId, []);
+      itineraries.set(tripId, []);
+
+      return { tripId, trip };
+    },
+
+    async getTrip(tripId) {
+      const trip = trips.get(tripId);
+      if (!trip) return null;
+
+      const latestItineraries = trip.days
+        .map((day) => latestForDate(tripId, day.date))
+        .filter((record): record is ItineraryVersionRecord => record !== undefined);
+
+      return {
+        trip,
+        activities: activities.get(tripId) || [],
+        latestItinerary: latestForDate(tripId, trip.days[0].date),
+        latestItineraries,
+      };
+    },
+
+    async updateTripLocations(tripId, patch) {
+      const trip = trips.get(tripId);
+      if (!trip) return null;
+
+      if (patch.baseLocation !== undefined) trip.baseLocation = patch.baseLocation ?? undefined;
+      if (patch.endLocation !== undefined) trip.endLocation = patch.endLocation ?? undefined;
+      return trip;
+    },
+
+    async addActivities(tripId, newActivities) {
+      assertTripExists(tripId);
+
+      const activityRecords: ActivityRecord[] = newActivities.map((input) => ({
+        activityId: `act_${nanoid(12)}`,
+        place: input.place,
+        durationMin: input.durationMin,
+        locked: input.locked,
+        date: input.date,
+        openingHours: input.openingHours,
+        earliestStart: input.earliestStart,
+        latestEnd: input.latestEnd,
+        pinnedStart: input.pinnedStart ?? undefined,
+        pinToleranceMin: input.pinToleranceMin,
+        priority: input.priority,
+        addedAt: new Date().toISOString(),
+      }));
+
+      activities.set(tripId, [...(activities.get(tripId) || []), ...activityRecords]);
+      return activityRecords;
+    },
+
+    async updateActivity(tripId, activityId, patch) {
+      const activity = (activities.get(tripId) || []).find((a) => a.activityId === activityId);
+      if (!activity) return null;
+
+      if (patch.place !== undefined) activity.place = patch.place;
+      if (patch.durationMin !== undefined) activity.durationMin = patch.durationMin;
+      if (patch.locked !== undefined) activity.locked = patch.locked;
+      // null clears a field
+      if (patch.date !== undefined) activity.date = patch.date ?? undefined;
+      if (patch.openingHours !== undefined) activity.openingHours = patch.openingHours ?? undefined;
+      if (patch.earliestStart !== undefined) activity.earliestStart = patch.earliestStart ?? undefined;
+      if (patch.latestEnd !== undefined) activity.latestEnd = patch.latestEnd ?? undefined;
+      if (patch.pinnedStart !== undefined) activity.pinnedStart = patch.pinnedStart ?? undefined;
+      if (patch.pinToleranceMin !== undefined) activity.pinToleranceMin = patch.pinToleranceMin ?? undefined;
+      if (patch.priority !== undefined) activity.priority = patch.priority ?? undefined;
+      return activity;
+    },
+
+    async removeActivity(tripId, activityId) {
+      const tripActivities = activities.get(tripId) || [];
+      const remaining = tripActivities.filter((a) => a.activityId !== activityId);
+      if (remaining.length === tripActivities.length) return false;
+
+      activities.set(tripId, remaining);
+      return true;
+    },
+
+    async reorderActivities(tripId, activityIds) {
+      assertTripExists(tripId);
+
+      const byId = new Map((activities.get(tripId) || []).map((a) => [a.activityId, a]));
+      const reordered = activityIds.map((id) => {
+        const activity = byId.get(id);
+        if (!activity) throw new Error(`Activity ${id} not found`);
+        return activity;
+      });
+
+      activities.set(tripId, reordered);
+      return reordered;
+    },
+
+    async addItineraryVersion(tripId, date, itinerary, source) {
+      assertTripExists(tripId);
+
+      const tripItineraries = itineraries.get(tripId) || [];
+      const version = tripItineraries.length + 1;
+
+      tripItineraries.push({
+        version,
+        date,
+        itinerary,
+        generatedAt: new Date().toISOString(),
+        source,
+      });
+      itineraries.set(tripId, tripItineraries);
+
+      return version;
+    },
+
+    async getLatestItinerary(tripId, date) {
+      return latestForDate(tripId, date) || null;
+    },
+
+    async listItineraryVersions(tripId, date) {
+      const tripItineraries = itineraries.get(tripId) || [];
+      if (date === undefined) return tripItineraries;
+      return tripItineraries.filter((record) => record.date === date);
+    },
+
+    async getItineraryVersion(tripId, version) {
+      const tripItineraries = itineraries.get(tripId) || [];
+      return tripItineraries.find((record) => record.version === version) || null;
+    },
+
+    async getActivities(tripId) {
+      return activities.get(tripId) || [];
+    },
+
+    async getTripIds() {
+      return Array.from(trips.keys());
+    },
+
+    async savePlanCandidates(tripId, date, baseVersion, candidates) {
+      assertTripExists(tripId);
+
+      const createdAt = new Date().toISOString();
+      const otherDays = (planCandidates.get(tripId) || []).filter((record) => record.date !== date);
+      planCandidates.set(tripId, [
+        ...otherDays,
+        ...candidates.map((candidate) => ({ date, baseVersion, candidate, createdAt })),
+      ]);
+    },
+
+    async getPlanCandidate(tripId, candidateId) {
+      const records = planCandidates.get(tripId) || [];
+      return records.find((record) => record.candidate.candidateId === candidateId) || null;
+    },
+
+    async saveActivityVisit(tripId, visit) {
+      assertTripExists(tripId);
+
+      const others = (visits.get(tripId) || []).filter(
+        (existing) => existing.activityId !== visit.activityId || existing.date !== visit.date
+      );
+      visits.set(tripId, [...others, { ...visit }]);
+    },
+
+    async getActivityVisits(tripId, date) {
+      return (visits.get(tripId) || [])
+        .filter((visit) => visit.date === date)
+        .sort((a, b) => a.checkedInAt.localeCompare(b.checkedInAt));
+    },
+
+    async addLocationPing(tripId, ping) {
+      assertTripExists(tripId);
+      locationPings.set(tripId, [...(locationPings.get(tripId) || []), { ...ping }]);
+    },
+
+    async getLatestLocationPing(tripId) {
+      const pings = locationPings.get(tripId) || [];
+      return pings.reduce<LocationPing | null>(
+        (latest, ping) => (!latest || ping.recordedAt > latest.recordedAt ? ping : latest),
+        null
+      );
+    },
+
+    async upsertWeatherSignal(tripId, date, data) {
+      assertTripExists(tripId);
+      weatherSignals.set(signalKey(tripId, date), { ...data });
+    },
+
+    async getWeatherSignal(tripId, date) {
+      return weatherSignals.get(signalKey(tripId, date)) || null;
+    },
+
+    async upsertCrowdSignals(tripId, date, data) {
+      assertTripExists(tripId);
+      crowdSignals.set(signalKey(tripId, date), { ...data });
+    },
+
+    async getCrowdSignals(tripId, date) {
+      return crowdSignals.get(signalKey(tripId, date)) || null;
+    },
+
+    async upsertTransitSignals(tripId, date, data) {
+      assertTripExists(tripId);
+      transitSignals.set(signalKey(tripId, date), { ...data });
+    },
+
+    async getTransitSignals(tripId, date) {
+      return transitSignals.get(signalKey(tripId, date)) || null;
+    },
+
+    async addSuggestion(tripId, suggestion) {
+      assertTripExists(tripId);
+
+      const tripSuggestions = suggestions.get(tripId) || [];
+      if (isDuplicateSuggestion(tripSuggestions, suggestion)) {
+        console.log(`[Store] Skipping duplicate suggestion of kind: ${suggestion.kind}`);
+        return;
+      }
+
+      tripSuggestions.push(suggestion);
+      suggestions.set(tripId, tripSuggestions);
+    },
+
+    async listSuggestions(tripId, status) {
+      const tripSuggestions = suggestions.get(tripId) || [];
+      if (status) {
+        return tripSuggestions.filter((s) => s.status === status);
+      }
+      return tripSuggestions;
+    },
+
+    async setSuggestionStatus(tripId, suggestionId, status) {
+      const suggestion = (suggestions.get(tripId) || []).find((s) => s.suggestionId === suggestionId);
+      if (!suggestion) return false;
+
+      suggestion.status = status;
+      return true;
+    },
+
+    async markSuggestionApplied(tripId, suggestionId, version) {
+      const suggestion = (suggestions.get(tripId) || []).find((s) => s.suggestionId === suggestionId);
+      if (!suggestion) return false;
+
+      suggestion.status = "applied";
+      suggestion.afterPlan = { ...suggestion.afterPlan, version };
+      return true;
+    },
+
+    async getSuggestion(tripId, suggestionId) {
+      const tripSuggestions = suggestions.get(tripId) || [];
+      return tripSuggestions.find((s) => s.suggestionId === suggestionId) || null;
+    },
+
+    getWeights,
+
+    async updateWeights(tripId, feedback) {
+      const updated = applyWeightFeedback(await getWeights(tripId), feedback);
+      weights.set(tripId, updated);
+      return updated;
+    },
+
+    async canCreateSuggestion(tripId) {
+      const lastSuggestionTime = await getLastSuggestionTime(tripId);
+      if (!lastSuggestionTime) return true;
+      return Date.now() - lastSuggestionTime > SUGGESTION_COOLDOWN_MS;
+    },
+
+    async updateSuggestionCooldown(tripId) {
+      suggestionCooldowns.set(tripId, Date.now());
+    },
+
+    getLastSuggestionTime,
+  };
+}
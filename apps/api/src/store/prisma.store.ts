@@ -0,0 +1,736 @@
+/**
+ * Prisma-backed TripStore - durable storage in the shared SQLite database
+ */
+import { nanoid } from "nanoid";
+import { db } from "@adaptive/store";
+import type {
+  ActivityPriority,
+  ActivityVisit,
+  Itinerary,
+  ItinerarySource,
+  OpeningPeriod,
+  Place,
+  PlanObjective,
+  PlanScore,
+  TripDay,
+  TripLocation,
+  TripPreferences,
+  Suggestion,
+  SuggestionStatus,
+  SuggestionTrigger,
+  CrowdSignalItem,
+  TransitAlert,
+  Weights,
+} from "@adaptive/types";
+import type {
+  TripStore,
+  TripRecord,
+  ActivityRecord,
+  ItineraryVersionRecord,
+  PlanCandidateRecord,
+} from "./types.js";
+import {
+  DEFAULT_WEIGHTS,
+  SUGGESTION_COOLDOWN_MS,
+  applyWeightFeedback,
+  isDuplicateSuggestion,
+} from "./common.js";
+import { expandTripDays } from "../utils/days.js";
+
+type SignalType = "weather" | "crowds" | "transit";
+
+// ===== Row mapping =====
+// SQLite has no JSON column type, so nested objects are stored as JSON text.
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function fromJson<T>(value: string): T {
+  return JSON.parse(value) as T;
+}
+
+function fromOptionalJson<T>(value: string | null): T | undefined {
+  return value === null ? undefined : fromJson<T>(value);
+}
+
+function mapTripRow(row: {
+  id: string;
+  city: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  days: string;
+  baseLocation: string | null;
+  endLocation: string | null;
+  preferences: string;
+  createdAt: Date;
+}): TripRecord {
+  return {
+    tripId: row.id,
+    city: row.city,
+    date: row.date,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    days: fromJson<TripDay[]>(row.days),
+    baseLocation: fromOptionalJson<TripLocation>(row.baseLocation),
+    endLocation: fromOptionalJson<TripLocation>(row.endLocation),
+    preferences: fromJson<TripPreferences>(row.preferences),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function mapActivityRow(row: {
+  id: string;
+  place: string;
+  durationMin: number;
+  locked: boolean;
+  date: string | null;
+  openingHours: string | null;
+  earliestStart: string | null;
+  latestEnd: string | null;
+  pinnedStart: string | null;
+  pinToleranceMin: number | null;
+  priority: string | null;
+  addedAt: Date;
+}): ActivityRecord {
+  return {
+    activityId: row.id,
+    place: fromJson<Place>(row.place),
+    durationMin: row.durationMin,
+    locked: row.locked,
+    date: row.date ?? undefined,
+    openingHours: fromOptionalJson<OpeningPeriod[]>(row.openingHours),
+    earliestStart: row.earliestStart ?? undefined,
+    latestEnd: row.latestEnd ?? undefined,
+    pinnedStart: row.pinnedStart ?? undefined,
+    pinToleranceMin: row.pinToleranceMin ?? undefined,
+    priority: (row.priority as ActivityPriority | null) ?? undefined,
+    addedAt: row.addedAt.toISOString(),
+  };
+}
+
+function mapItineraryRow(row: {
+  version: number;
+  date: string;
+  itinerary: string;
+  generatedAt: Date;
+  source: string;
+  suggestionId: string | null;
+  fromVersion: number | null;
+  objective: string | null;
+}): ItineraryVersionRecord {
+  const source: ItinerarySource = { type: row.source as ItinerarySource["type"] };
+  if (row.suggestionId !== null) source.suggestionId = row.suggestionId;
+  if (row.fromVersion !== null) source.fromVersion = row.fromVersion;
+  if (row.objective !== null) source.objective = row.objective as PlanObjective;
+
+  return {
+    version: row.version,
+    date: row.date,
+    itinerary: fromJson<Itinerary>(row.itinerary),
+    generatedAt: row.generatedAt.toISOString(),
+    source,
+  };
+}
+
+function mapPlanCandidateRow(row: {
+  id: string;
+  date: string;
+  baseVersion: number | null;
+  objective: string;
+  itinerary: string;
+  score: string;
+  tradeoffs: string;
+  createdAt: Date;
+}): PlanCandidateRecord {
+  return {
+    date: row.date,
+    baseVersion: row.baseVersion ?? undefined,
+    candidate: {
+      candidateId: row.id,
+      objective: row.objective as PlanObjective,
+      itinerary: fromJson<Itinerary>(row.itinerary),
+      score: fromJson<PlanScore>(row.score),
+      tradeoffs: fromJson<string[]>(row.tradeoffs),
+    },
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function mapVisitRow(row: {
+  activityId: string;
+  date: string;
+  category: string | null;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  checkedInAt: Date;
+  checkedOutAt: Date | null;
+  actualDurationMin: number | null;
+}): ActivityVisit {
+  return {
+    activityId: row.activityId,
+    date: row.date,
+    checkedInAt: row.checkedInAt.toISOString(),
+    checkedOutAt: row.checkedOutAt?.toISOString(),
+    plannedStart: row.plannedStart ?? undefined,
+    plannedEnd: row.plannedEnd ?? undefined,
+    actualDurationMin: row.actualDurationMin ?? undefined,
+    category: row.category ?? undefined,
+  };
+}
+
+function mapSuggestionRow(row: {
+  id: string;
+  kind: string;
+  status: string;
+  trigger: string;
+  reasons: string;
+  confidence: number;
+  impact: string | null;
+  beforePlan: string;
+  afterPlan: string;
+  diff: string | null;
+  date: string | null;
+  createdAt: string;
+}): Suggestion {
+  return {
+    suggestionId: row.id,
+    kind: row.kind as Suggestion["kind"],
+    status: row.status as SuggestionStatus,
+    createdAt: row.createdAt,
+    date: row.date ?? undefined,
+    trigger: row.trigger as SuggestionTrigger,
+    reasons: fromJson<string[]>(row.reasons),
+    confidence: row.confidence,
+    impact: fromOptionalJson<Suggestion["impact"]>(row.impact),
+    beforePlan: fromJson<Suggestion["beforePlan"]>(row.beforePlan),
+    afterPlan: fromJson<Suggestion["afterPlan"]>(row.afterPlan),
+    diff: fromOptionalJson<Suggestion["diff"]>(row.diff),
+  };
+}
+
+async function assertTripExists(tripId: string): Promise<void> {
+  const count = await db.trip.count({ where: { id: tripId } });
+  if (count === 0) {
+    throw new Error(`Trip ${tripId} not found`);
+  }
+}
+
+/**
+ * Write the latest signal of a given type for a trip day
+ */
+async function upsertSignal(
+  tripId: string,
+  type: SignalType,
+  date: string,
+  observedAt: string,
+  payload: unknown,
+  raw?: any
+): Promise<void> {
+  await assertTripExists(tripId);
+
+  const data = {
+    observedAt,
+    payload: toJson(payload),
+    raw: raw === undefined ? null : toJson(raw),
+  };
+
+  await db.tripSignal.upsert({
+    where: { tripId_type_date: { tripId, type, date } },
+    create: { tripId, type, date, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Read the latest signal of a given type for a trip day
+ */
+async function getSignal<T>(
+  tripId: string,
+  type: SignalType,
+  date: string
+): Promise<{ observedAt: string; payload: T; raw?: any } | null> {
+  const row = await db.tripSignal.findUnique({
+    where: { tripId_type_date: { tripId, type, date } },
+  });
+  if (!row) return null;
+
+  return {
+    observedAt: row.observedAt,
+    payload: fromJson<T>(row.payload),
+    raw: fromOptionalJson<any>(row.raw),
+  };
+}
+
+async function getWeights(tripId: string): Promise<Weights> {
+  const row = await db.tripWeights.upsert({
+    where: { tripId },
+    create: { tripId, ...DEFAULT_WEIGHTS },
+    update: {},
+  });
+
+  return {
+    weatherWeight: row.weatherWeight,
+    crowdWeight: row.crowdWeight,
+    transitWeight: row.transitWeight,
+    travelWeight: row.travelWeight,
+    changeAversion: row.changeAversion,
+  };
+}
+
+async function getLastSuggestionTime(tripId: string): Promise<number | null> {
+  const row = await db.trip.findUnique({
+    where: { id: tripId },
+    select: { lastSuggestionAt: true },
+  });
+  return row?.lastSuggestionAt ? row.lastSuggestionAt.getTime() : null;
+}
+
+/**
+ * Create a trip store backed by the Prisma client from @adaptive/store
+ */
+export function createPrismaTripStore(): TripStore {
+  return {
+    async createTrip(data) {
+      const tripId = `trp_${nanoid(12)}`;
+      const row = await db.trip.create({
+        data: {
+          id: tripId,
+          city: data.city,
+          date: data.date,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          days: toJson(expandTripDays(data)),
+          baseLocation: data.baseLocation ? toJson(data.baseLocation) : null,
+          endLocation: data.endLocation ? toJson(data.endLocation) : null,
+          preferences: toJson(data.preferences),
+        },
+      });
+
+      return { tripId, trip: mapTripRow(row) };
+    },
+
+    async getTrip(tripId) {
+      const row = await db.trip.findUnique({
+        where: { id: tripId },
+        include: { activities: { orderBy: { position: "asc" } } },
+      });
+      if (!row) return null;
+
+      const trip = mapTripRow(row);
+      const latestRows = await Promise.all(
+        trip.days.map((day) =>
+          db.itineraryVersion.findFirst({
+            where: { tripId, date: day.date },
+            orderBy: { version: "desc" },
+          })
+        )
+      );
+      const latestByDay = latestRows.map((latestRow) => (latestRow ? mapItineraryRow(latestRow) : undefined));
+
+      return {
+        trip,
+        activities: row.activities.map(mapActivityRow),
+        latestItinerary: latestByDay[0],
+        latestItineraries: latestByDay.filter(
+          (record): record is ItineraryVersionRecord => record !== undefined
+        ),
+      };
+    },
+
+    async updateTripLocations(tripId, patch) {
+      const { count } = await db.trip.updateMany({
+        where: { id: tripId },
+        data: {
+          ...(patch.baseLocation !== undefined && {
+            baseLocation: patch.baseLocation ? toJson(patch.baseLocation) : null,
+          }),
+          ...(patch.endLocation !== undefined && {
+            endLocation: patch.endLocation ? toJson(patch.endLocation) : null,
+          }),
+        },
+      });
+      if (count === 0) return null;
+
+      const row = await db.trip.findUnique({ where: { id: tripId } });
+      return row ? mapTripRow(row) : null;
+    },
+
+    async addActivities(tripId, newActivities) {
+      await assertTripExists(tripId);
+
+      const addedAt = new Date();
+      const rows = await db.$transaction(async (tx) => {
+        const last = await tx.activity.findFirst({
+          where: { tripId },
+          orderBy: { position: "desc" },
+          select: { position: true },
+        });
+        const firstPosition = last ? last.position + 1 : 0;
+
+        const data = newActivities.map((input, index) => ({
+          id: `act_${nanoid(12)}`,
+          tripId,
+          place: toJson(input.place),
+          durationMin: input.durationMin,
+          locked: input.locked,
+          date: input.date ?? null,
+          openingHours: input.openingHours ? toJson(input.openingHours) : null,
+          earliestStart: input.earliestStart ?? null,
+          latestEnd: input.latestEnd ?? null,
+          pinnedStart: input.pinnedStart ?? null,
+          pinToleranceMin: input.pinToleranceMin ?? null,
+          priority: input.priority ?? null,
+          position: firstPosition + index,
+          addedAt,
+        }));
+        await tx.activity.createMany({ data });
+        return data;
+      });
+
+      return rows.map(mapActivityRow);
+    },
+
+    async updateActivity(tripId, activityId, patch) {
+      const { count } = await db.activity.updateMany({
+        where: { id: activityId, tripId },
+        data: {
+          ...(patch.place !== undefined && { place: toJson(patch.place) }),
+          ...(patch.durationMin !== undefined && { durationMin: patch.durationMin }),
+          ...(patch.locked !== undefined && { locked: patch.locked }),
+          ...(patch.date !== undefined && { date: patch.date }),
+          ...(patch.openingHours !== undefined && {
+            openingHours: patch.openingHours === null ? null : toJson(patch.openingHours),
+          }),
+          ...(patch.earliestStart !== undefined && { earliestStart: patch.earliestStart }),
+          ...(patch.latestEnd !== undefined && { latestEnd: patch.latestEnd }),
+          ...(patch.pinnedStart !== undefined && { pinnedStart: patch.pinnedStart }),
+          ...(patch.pinToleranceMin !== undefined && { pinToleranceMin: patch.pinToleranceMin }),
+          ...(patch.priority !== undefined && { priority: patch.priority }),
+        },
+      });
+      if (count === 0) return null;
+
+      const row = await db.activity.findUnique({ where: { id: activityId } });
+      return row ? mapActivityRow(row) : null;
+    },
+
+    async removeActivity(tripId, activityId) {
+      const { count } = await db.activity.deleteMany({ where: { id: activityId, tripId } });
+      return count > 0;
+    },
+
+    async reorderActivities(tripId, activityIds) {
+      await assertTripExists(tripId);
+
+      await db.$transaction(
+        activityIds.map((id, position) =>
+          db.activity.update({ where: { id, tripId }, data: { position } })
+        )
+      );
+
+      const rows = await db.activity.findMany({
+        where: { tripId },
+        orderBy: { position: "asc" },
+      });
+      return rows.map(mapActivityRow);
+    },
+
+    async addItineraryVersion(tripId, date, itinerary, source) {
+      await assertTripExists(tripId);
+
+      // Number versions inside a transaction so concurrent writers cannot reuse one
+      return db.$transaction(async (tx) => {
+        const latest = await tx.itineraryVersion.findFirst({
+          where: { tripId },
+          orderBy: { version: "desc" },
+          select: { version: true },
+        });
+        const version = (latest?.version ?? 0) + 1;
+
+        await tx.itineraryVersion.create({
+          data: {
+            tripId,
+            version,
+            date,
+            itinerary: toJson(itinerary),
+            source: source.type,
+            suggestionId: source.suggestionId ?? null,
+            fromVersion: source.fromVersion ?? null,
+            objective: source.objective ?? null,
+          },
+        });
+
+        return version;
+      });
+    },
+
+    async getLatestItinerary(tripId, date) {
+      const row = await db.itineraryVersion.findFirst({
+        where: { tripId, date },
+        orderBy: { version: "desc" },
+      });
+      return row ? mapItineraryRow(row) : null;
+    },
+
+    async listItineraryVersions(tripId, date) {
+      const rows = await db.itineraryVersion.findMany({
+        where: { tripId, ...(date !== undefined && { date }) },
+        orderBy: { version: "asc" },
+      });
+      return rows.map(mapItineraryRow);
+    },
+
+    async getItineraryVersion(tripId, version) {
+      const row = await db.itineraryVersion.findUnique({
+        where: { tripId_version: { tripId, version } },
+      });
+      return row ? mapItineraryRow(row) : null;
+    },
+
+    async getActivities(tripId) {
+      const rows = await db.activity.findMany({
+        where: { tripId },
+        orderBy: { position: "asc" },
+      });
+      return rows.map(mapActivityRow);
+    },
+
+    async getTripIds() {
+      const rows = await db.trip.findMany({
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+      });
+      return rows.map((row: { id: string }) => row.id);
+    },
+
+    async savePlanCandidates(tripId, date, baseVersion, candidates) {
+      await assertTripExists(tripId);
+
+      await db.$transaction([
+        db.planCandidate.deleteMany({ where: { tripId, date } }),
+        db.planCandidate.createMany({
+          data: candidates.map((candidate) => ({
+            id: candidate.candidateId,
+            tripId,
+            date,
+            baseVersion: baseVersion ?? null,
+            objective: candidate.objective,
+            itinerary: toJson(candidate.itinerary),
+            score: toJson(candidate.score),
+            tradeoffs: toJson(candidate.tradeoffs),
+          })),
+        }),
+      ]);
+    },
+
+    async getPlanCandidate(tripId, candidateId) {
+      const row = await db.planCandidate.findFirst({
+        where: { id: candidateId, tripId },
+      });
+      return row ? mapPlanCandidateRow(row) : null;
+    },
+
+    async saveActivityVisit(tripId, visit) {
+      await assertTripExists(tripId);
+
+      const data = {
+        category: visit.category ?? null,
+        plannedStart: visit.plannedStart ?? null,
+        plannedEnd: visit.plannedEnd ?? null,
+        checkedInAt: new Date(visit.checkedInAt),
+        checkedOutAt: visit.checkedOutAt ? new Date(visit.checkedOutAt) : null,
+        actualDurationMin: visit.actualDurationMin ?? null,
+      };
+      await db.activityVisit.upsert({
+        where: { tripId_activityId_date: { tripId, activityId: visit.activityId, date: visit.date } },
+        create: { tripId, activityId: visit.activityId, date: visit.date, ...data },
+        update: data,
+      });
+    },
+
+    async getActivityVisits(tripId, date) {
+      const rows = await db.activityVisit.findMany({
+        where: { tripId, date },
+        orderBy: { checkedInAt: "asc" },
+      });
+      return rows.map(mapVisitRow);
+    },
+
+    async addLocationPing(tripId, ping) {
+      await assertTripExists(tripId);
+      await db.locationPing.create({
+        data: {
+          tripId,
+          lat: ping.location.lat,
+          lng: ping.location.lng,
+          recordedAt: new Date(ping.recordedAt),
+        },
+      });
+    },
+
+    async getLatestLocationPing(tripId) {
+      const row = await db.locationPing.findFirst({
+        where: { tripId },
+        orderBy: { recordedAt: "desc" },
+      });
+      return row
+        ? { location: { lat: row.lat, lng: row.lng }, recordedAt: row.recordedAt.toISOString() }
+        : null;
+    },
+
+    async upsertWeatherSignal(tripId, date, data) {
+      await upsertSignal(
+        tripId,
+        "weather",
+        date,
+        data.observedAt,
+        { summary: data.summary, riskHours: data.riskHours },
+        data.raw
+      );
+    },
+
+    async getWeatherSignal(tripId, date) {
+      const signal = await getSignal<{ summary: string; riskHours: string[] }>(
+        tripId,
+        "weather",
+        date
+      );
+      if (!signal) return null;
+
+      return {
+        observedAt: signal.observedAt,
+        summary: signal.payload.summary,
+        riskHours: signal.payload.riskHours,
+        raw: signal.raw,
+      };
+    },
+
+    async upsertCrowdSignals(tripId, date, data) {
+      await upsertSignal(tripId, "crowds", date, data.observedAt, data.crowds, data.raw);
+    },
+
+    async getCrowdSignals(tripId, date) {
+      const signal = await getSignal<CrowdSignalItem[]>(tripId, "crowds", date);
+      if (!signal) return null;
+
+      return {
+        observedAt: signal.observedAt,
+        crowds: signal.payload,
+        raw: signal.raw,
+      };
+    },
+
+    async upsertTransitSignals(tripId, date, data) {
+      await upsertSignal(tripId, "transit", date, data.observedAt, data.alerts, data.raw);
+    },
+
+    async getTransitSignals(tripId, date) {
+      const signal = await getSignal<TransitAlert[]>(tripId, "transit", date);
+      if (!signal) return null;
+
+      return {
+        observedAt: signal.observedAt,
+        alerts: signal.payload,
+        raw: signal.raw,
+      };
+    },
+
+    async addSuggestion(tripId, suggestion) {
+      await assertTripExists(tripId);
+
+      const sameKind = await db.suggestion.findMany({
+        where: { tripId, kind: suggestion.kind },
+      });
+      if (isDuplicateSuggestion(sameKind.map(mapSuggestionRow), suggestion)) {
+        console.log(`[Store] Skipping duplicate suggestion of kind: ${suggestion.kind}`);
+        return;
+      }
+
+      await db.suggestion.create({
+        data: {
+          id: suggestion.suggestionId,
+          tripId,
+          kind: suggestion.kind,
+          status: suggestion.status,
+          trigger: suggestion.trigger,
+          reasons: toJson(suggestion.reasons),
+          confidence: suggestion.confidence,
+          impact: suggestion.impact === undefined ? null : toJson(suggestion.impact),
+          beforePlan: toJson(suggestion.beforePlan),
+          afterPlan: toJson(suggestion.afterPlan),
+          diff: suggestion.diff === undefined ? null : toJson(suggestion.diff),
+          date: suggestion.date ?? null,
+          createdAt: suggestion.createdAt,
+        },
+      });
+    },
+
+    async listSuggestions(tripId, status) {
+      const rows = await db.suggestion.findMany({
+        where: status ? { tripId, status } : { tripId },
+        orderBy: { createdAt: "asc" },
+      });
+      return rows.map(mapSuggestionRow);
+    },
+
+    async setSuggestionStatus(tripId, suggestionId, status) {
+      const result = await db.suggestion.updateMany({
+        where: { id: suggestionId, tripId },
+        data: { status },
+      });
+      return result.count > 0;
+    },
+
+    async markSuggestionApplied(tripId, suggestionId, version) {
+      const row = await db.suggestion.findFirst({
+        where: { id: suggestionId, tripId },
+        select: { afterPlan: true },
+      });
+      if (!row) return false;
+
+      await db.suggestion.update({
+        where: { id: suggestionId },
+        data: {
+          status: "applied",
+          afterPlan: toJson({ ...fromJson<Suggestion["afterPlan"]>(row.afterPlan), version }),
+        },
+      });
+      return true;
+    },
+
+    async getSuggestion(tripId, suggestionId) {
+      const row = await db.suggestion.findFirst({
+        where: { id: suggestionId, tripId },
+      });
+      return row ? mapSuggestionRow(row) : null;
+    },
+
+    getWeights,
+
+    async updateWeights(tripId, feedback) {
+      const updated = applyWeightFeedback(await getWeights(tripId), feedback);
+      await db.tripWeights.update({
+        where: { tripId },
+        data: updated,
+      });
+      return updated;
+    },
+
+    async canCreateSuggestion(tripId) {
+      const lastSuggestionTime = await getLastSuggestionTime(tripId);
+      if (!lastSuggestionTime) return true;
+      return Date.now() - lastSuggestionTime > SUGGESTION_COOLDOWN_MS;
+    },
+
+    async updateSuggestionCooldown(tripId) {
+      await db.trip.update({
+        where: { id: tripId },
+        data: { lastSuggestionAt: new Date() },
+      });
+    },
+
+    getLastSuggestionTime,
+  };
+}
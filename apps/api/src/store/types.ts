@@ -0,0 +1,184 @@
+/**
+ * Trip store contract shared by the in-memory and Prisma implementations
+ */
+import type {
+  Trip,
+  Activity,
+  ActivityInput,
+  ActivityVisit,
+  Itinerary,
+  ItinerarySource,
+  CreateTripRequest,
+  LocationPing,
+  PlanCandidate,
+  UpdateActivityRequest,
+  UpdateTripLocationsRequest,
+  Suggestion,
+  SuggestionStatus,
+  SuggestionTrigger,
+  CrowdSignalItem,
+  TransitAlert,
+  Weights,
+} from "@adaptive/types";
+
+// Internal record types
+export interface TripRecord extends Trip {
+  tripId: string;
+  createdAt: string;
+}
+
+export interface ActivityRecord extends Activity {
+  activityId: string;
+  addedAt: string;
+}
+
+export interface ItineraryVersionRecord {
+  version: number;
+  date: string;
+  itinerary: Itinerary;
+  generatedAt: string;
+  source: ItinerarySource;
+}
+
+export interface PlanCandidateRecord {
+  /** Trip day the candidate plans */
+  date: string;
+  /** Latest version of that day when the candidate was planned */
+  baseVersion?: number;
+  candidate: PlanCandidate;
+  createdAt: string;
+}
+
+export interface WeatherSignalRecord {
+  observedAt: string;
+  summary: string;
+  riskHours: string[];
+  raw?: any;
+}
+
+export interface CrowdSignalRecord {
+  observedAt: string;
+  crowds: CrowdSignalItem[];
+  raw?: any;
+}
+
+export interface TransitSignalRecord {
+  observedAt: string;
+  alerts: TransitAlert[];
+  raw?: any;
+}
+
+export interface TripDataRecord {
+  trip: TripRecord;
+  activities: ActivityRecord[];
+  /** Latest itinerary of the first day */
+  latestItinerary?: ItineraryVersionRecord;
+  /** Latest itinerary of every day that has one, in day order */
+  latestItineraries: ItineraryVersionRecord[];
+}
+
+/**
+ * Storage backend for trips and everything hanging off them.
+ * Every method is async so durable and in-memory backends are interchangeable.
+ */
+export interface TripStore {
+  /** Create a new trip, expanding its date range into days */
+  createTrip(data: CreateTripRequest): Promise<{ tripId: string; trip: TripRecord }>;
+  /** Get trip with its activities and latest itinerary */
+  getTrip(tripId: string): Promise<TripDataRecord | null>;
+  /** Set or clear the trip's base and end locations; returns null if the trip does not exist */
+  updateTripLocations(
+    tripId: string,
+    patch: UpdateTripLocationsRequest
+  ): Promise<TripRecord | null>;
+  /** Append activities to a trip, keeping existing activity IDs */
+  addActivities(tripId: string, activities: ActivityInput[]): Promise<ActivityRecord[]>;
+  /** Patch a single activity; null clears an optional field; returns null if it does not exist */
+  updateActivity(
+    tripId: string,
+    activityId: string,
+    patch: UpdateActivityRequest
+  ): Promise<ActivityRecord | null>;
+  /** Remove a single activity; returns false if it does not exist */
+  removeActivity(tripId: string, activityId: string): Promise<boolean>;
+  /** Reorder activities; `activityIds` must list every activity of the trip */
+  reorderActivities(tripId: string, activityIds: string[]): Promise<ActivityRecord[]>;
+  /**
+   * Add a new itinerary version for one trip day and return its number.
+   * Version numbers are unique across the whole trip.
+   */
+  addItineraryVersion(
+    tripId: string,
+    date: string,
+    itinerary: Itinerary,
+    source: ItinerarySource
+  ): Promise<number>;
+  /** Get the latest itinerary of a trip day */
+  getLatestItinerary(tripId: string, date: string): Promise<ItineraryVersionRecord | null>;
+  /** List itinerary versions for a trip (optionally one day), oldest first */
+  listItineraryVersions(tripId: string, date?: string): Promise<ItineraryVersionRecord[]>;
+  /** Get a single itinerary version */
+  getItineraryVersion(tripId: string, version: number): Promise<ItineraryVersionRecord | null>;
+  /** Get activities for a trip */
+  getActivities(tripId: string): Promise<ActivityRecord[]>;
+  /** Replace the plan candidates offered for a trip day; an empty list clears them */
+  savePlanCandidates(
+    tripId: string,
+    date: string,
+    baseVersion: number | undefined,
+    candidates: PlanCandidate[]
+  ): Promise<void>;
+  /** Get an offered plan candidate */
+  getPlanCandidate(tripId: string, candidateId: string): Promise<PlanCandidateRecord | null>;
+  /** Get all trip IDs (for worker polling) */
+  getTripIds(): Promise<string[]>;
+
+  /** Save a check-in or check-out, replacing the visit to the same activity that day */
+  saveActivityVisit(tripId: string, visit: ActivityVisit): Promise<void>;
+  /** Visits on a trip day, in check-in order */
+  getActivityVisits(tripId: string, date: string): Promise<ActivityVisit[]>;
+  addLocationPing(tripId: string, ping: LocationPing): Promise<void>;
+  /** The most recently recorded ping, if any */
+  getLatestLocationPing(tripId: string): Promise<LocationPing | null>;
+
+  // Signals are kept per trip day
+  upsertWeatherSignal(
+    tripId: string,
+    date: string,
+    data: { observedAt: string; summary: string; riskHours: string[]; raw?: any }
+  ): Promise<void>;
+  getWeatherSignal(tripId: string, date: string): Promise<WeatherSignalRecord | null>;
+  upsertCrowdSignals(
+    tripId: string,
+    date: string,
+    data: { observedAt: string; crowds: CrowdSignalItem[]; raw?: any }
+  ): Promise<void>;
+  getCrowdSignals(tripId: string, date: string): Promise<CrowdSignalRecord | null>;
+  upsertTransitSignals(
+    tripId: string,
+    date: string,
+    data: { observedAt: string; alerts: TransitAlert[]; raw?: any }
+  ): Promise<void>;
+  getTransitSignals(tripId: string, date: string): Promise<TransitSignalRecord | null>;
+
+  /** Add a suggestion, skipping duplicates of the same kind and before-plan */
+  addSuggestion(tripId: string, suggestion: Suggestion): Promise<void>;
+  listSuggestions(tripId: string, status?: string): Promise<Suggestion[]>;
+  setSuggestionStatus(tripId: string, suggestionId: string, status: SuggestionStatus): Promise<boolean>;
+  /** Mark a suggestion applied and record the itinerary version applying it created */
+  markSuggestionApplied(tripId: string, suggestionId: string, version: number): Promise<boolean>;
+  getSuggestion(tripId: string, suggestionId: string): Promise<Suggestion | null>;
+
+  /** Get weights for a trip (creates defaults if missing) */
+  getWeights(tripId: string): Promise<Weights>;
+  /** Update weights based on feedback */
+  updateWeights(
+    tripId: string,
+    feedback: { trigger: SuggestionTrigger; accepted: boolean }
+  ): Promise<Weights>;
+
+  /** Check if the suggestion cooldown has passed */
+  canCreateSuggestion(tripId: string): Promise<boolean>;
+  updateSuggestionCooldown(tripId: string): Promise<void>;
+  getLastSuggestionTime(tripId: string): Promise<number | null>;
+}
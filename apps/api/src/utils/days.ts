@@ -0,0 +1,59 @@
+/**
+ * Trip day utilities for multi-day trips
+ */
+import type { CreateTripRequest, TripDay } from "@adaptive/types";
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string
+ */
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Expand a create-trip request into one entry per day, applying per-day overrides
+ */
+export function expandTripDays(request: CreateTripRequest): TripDay[] {
+  const endDate = request.endDate ?? request.date;
+  const overrides = new Map((request.days ?? []).map((day) => [day.date, day]));
+
+  const days: TripDay[] = [];
+  for (let date = request.date; date <= endDate; date = addDays(date, 1)) {
+    days.push(
+      overrides.get(date) ?? { date, startTime: request.startTime, endTime: request.endTime }
+    );
+  }
+  return days;
+}
+
+/**
+ * Find a trip day by date; defaults to the first day when no date is given
+ */
+export function resolveTripDay(
+  trip: { days: TripDay[] },
+  date?: string
+): TripDay | undefined {
+  if (date === undefined) return trip.days[0];
+  return trip.days.find((day) => day.date === date);
+}
+
+/**
+ * The day live signals (community reports, transit delays) apply to:
+ * today when the trip is underway, otherwise the first day
+ */
+export function currentTripDay(trip: { days: TripDay[] }, now: Date = new Date()): TripDay {
+  const today = now.toISOString().slice(0, 10);
+  return trip.days.find((day) => day.date === today) ?? trip.days[0];
+}
+
+/**
+ * Narrow a trip to a single day so day-agnostic planners see that day's date and hours
+ */
+export function tripForDay<T extends { date: string; startTime: string; endTime: string }>(
+  trip: T,
+  day: TripDay
+): T {
+  return { ...trip, date: day.date, startTime: day.startTime, endTime: day.endTime };
+}
@@ -0,0 +1,75 @@
+/**
+ * Pace and budget profiles - how trip preferences translate into planning numbers
+ */
+import type { Budget, Pace } from "@adaptive/types";
+
+export interface PaceProfile {
+  /** Multiplier applied to activity durations */
+  durationScale: number;
+  /** Transition time between consecutive stops */
+  bufferMin: number;
+  /** Most stops planned on a single day */
+  maxStops: number;
+  /** Visiting time after which a rest break is added */
+  restEveryMin: number;
+  /** Length of a rest break; 0 adds none */
+  restMin: number;
+}
+
+export interface BudgetProfile {
+  /** Most expensive provider price tier that fits (1-4) */
+  maxPriceTier: number;
+  /** Price tier places are ranked towards */
+  preferredPriceTier: number;
+}
+
+export const PACE_PROFILES: Record<Pace, PaceProfile> = {
+  slow: { durationScale: 1.25, bufferMin: 15, maxStops: 4, restEveryMin: 120, restMin: 20 },
+  medium: { durationScale: 1, bufferMin: 10, maxStops: 6, restEveryMin: 180, restMin: 15 },
+  fast: { durationScale: 0.85, bufferMin: 5, maxStops: 9, restEveryMin: 0, restMin: 0 },
+};
+
+export const BUDGET_PROFILES: Record<Budget, BudgetProfile> = {
+  low: { maxPriceTier: 2, preferredPriceTier: 1 },
+  medium: { maxPriceTier: 3, preferredPriceTier: 2 },
+  high: { maxPriceTier: 4, preferredPriceTier: 3 },
+};
+
+// Rough spend per person (USD) for a visit at each provider price tier
+const PRICE_TIER_COST_USD: Record<number, number> = {
+  1: 10,
+  2: 25,
+  3: 50,
+  4: 100,
+};
+
+/**
+ * Scale a visit length by pace, rounded to 5 minutes
+ */
+export function scaleDuration(durationMin: number, profile: PaceProfile): number {
+  return Math.max(5, Math.round((durationMin * profile.durationScale) / 5) * 5);
+}
+
+/**
+ * Estimated spend per person for a place, or undefined when its price tier is unknown
+ */
+export function estimateCost(priceTier: number | undefined): number | undefined {
+  return priceTier === undefined ? undefined : PRICE_TIER_COST_USD[priceTier];
+}
+
+/**
+ * Drop places priced above the budget and rank the rest: places closest to
+ * the preferred tier first, places without a price tier last, otherwise
+ * keeping the provider's order
+ */
+export function rankPlacesByBudget<T extends { priceTier?: number }>(places: T[], budget: Budget): T[] {
+  const profile = BUDGET_PROFILES[budget];
+  const distance = (place: T) =>
+    place.priceTier === undefined ? Infinity : Math.abs(place.priceTier - profile.preferredPriceTier);
+
+  return places
+    .filter((place) => place.priceTier === undefined || place.priceTier <= profile.maxPriceTier)
+    .map((place, index) => ({ place, index }))
+    .sort((a, b) => distance(a.place) - distance(b.place) || a.index - b.index)
+    .map(({ place }) => place);
+}
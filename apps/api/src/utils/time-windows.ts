@@ -0,0 +1,152 @@
+/**
+ * Time-window utilities for opening hours, earliest/latest constraints and pinned starts
+ */
+import type { OpeningPeriod } from "@adaptive/types";
+import { parseHHMM } from "./time.js";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Weather risk and crowd peak hours are "HH:mm" starts of hour-long slots
+const SLOT_MIN = 60;
+
+/**
+ * A span of the day an activity may occupy, in minutes since midnight
+ */
+export interface TimeWindow {
+  openMin: number;
+  closeMin: number;
+}
+
+/**
+ * The fields of an activity that constrain when it can happen
+ */
+export interface TimeConstrained {
+  place: { openingHours?: OpeningPeriod[] };
+  durationMin: number;
+  openingHours?: OpeningPeriod[];
+  earliestStart?: string;
+  latestEnd?: string;
+  pinnedStart?: string;
+  pinToleranceMin?: number;
+}
+
+/**
+ * Day of week for a YYYY-MM-DD date (0 = Sunday ... 6 = Saturday)
+ */
+export function getDayOfWeek(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Windows an activity may occupy on a date, sorted by opening time.
+ * Hand-entered hours win over provider hours; no hours at all means open all day.
+ * Returns an empty list when the place is closed that day.
+ */
+export function getActivityWindows(activity: TimeConstrained, date: string): TimeWindow[] {
+  const openingHours = activity.openingHours ?? activity.place.openingHours;
+  const dayOfWeek = getDayOfWeek(date);
+
+  let windows: TimeWindow[] =
+    openingHours && openingHours.length > 0
+      ? openingHours
+          .filter((period) => period.day === dayOfWeek)
+          .map((period) => ({ openMin: parseHHMM(period.open), closeMin: parseHHMM(period.close) }))
+      : [{ openMin: 0, closeMin: MINUTES_PER_DAY }];
+
+  // Narrow every window to the activity's own earliest start and latest end,
+  // and a pinned activity to its start time plus the tolerance
+  const pin = getPinWindow(activity);
+  const earliest = Math.max(activity.earliestStart ? parseHHMM(activity.earliestStart) : 0, pin?.openMin ?? 0);
+  const latest = Math.min(
+    activity.latestEnd ? parseHHMM(activity.latestEnd) : MINUTES_PER_DAY,
+    pin?.closeMin ?? MINUTES_PER_DAY
+  );
+  windows = windows
+    .map((window) => ({
+      openMin: Math.max(window.openMin, earliest),
+      closeMin: Math.min(window.closeMin, latest),
+    }))
+    .filter((window) => window.closeMin > window.openMin);
+
+  return windows.sort((a, b) => a.openMin - b.openMin);
+}
+
+/**
+ * Span a pinned activity may occupy: it starts at pinnedStart, or up to
+ * pinToleranceMin later, and runs for its full duration. Null when it is not pinned.
+ */
+export function getPinWindow(activity: TimeConstrained): TimeWindow | null {
+  if (!activity.pinnedStart) return null;
+
+  const pinnedMin = parseHHMM(activity.pinnedStart);
+  const toleranceMin = activity.pinToleranceMin ?? 0;
+  return {
+    openMin: pinnedMin,
+    closeMin: pinnedMin + toleranceMin + activity.durationMin,
+  };
+}
+
+/**
+ * Cut the given spans (e.g. rain risk hours) out of a set of windows
+ */
+export function excludeSpans(windows: TimeWindow[], spans: TimeWindow[]): TimeWindow[] {
+  let remaining = windows;
+  for (const span of spans) {
+    remaining = remaining.flatMap((window) =>
+      [
+        { openMin: window.openMin, closeMin: Math.min(window.closeMin, span.openMin) },
+        { openMin: Math.max(window.openMin, span.closeMin), closeMin: window.closeMin },
+      ].filter((part) => part.closeMin > part.openMin)
+    );
+  }
+  return remaining;
+}
+
+/**
+ * Spans covered by hour-long slots given as "HH:mm" starts, e.g. rain risk hours
+ */
+export function hourSlotSpans(hours: string[]): TimeWindow[] {
+  return [...new Set(hours)].map((hour) => {
+    const openMin = parseHHMM(hour);
+    return { openMin, closeMin: openMin + SLOT_MIN };
+  });
+}
+
+/**
+ * Minutes of [startMin, endMin) that fall inside the given spans
+ */
+export function overlapMin(startMin: number, endMin: number, spans: TimeWindow[]): number {
+  return spans.reduce(
+    (total, span) => total + Math.max(0, Math.min(endMin, span.closeMin) - Math.max(startMin, span.openMin)),
+    0
+  );
+}
+
+/**
+ * Whether the place has opening hours but none on this date
+ */
+export function isClosedOn(activity: TimeConstrained, date: string): boolean {
+  const openingHours = activity.openingHours ?? activity.place.openingHours;
+  if (!openingHours || openingHours.length === 0) return false;
+
+  const dayOfWeek = getDayOfWeek(date);
+  return !openingHours.some((period) => period.day === dayOfWeek);
+}
+
+/**
+ * Earliest start at or after `arrivalMin` that lets the whole visit fit in
+ * one window, or null when none does. Any gap before it is waiting time.
+ */
+export function earliestFeasibleStart(
+  arrivalMin: number,
+  durationMin: number,
+  windows: TimeWindow[]
+): number | null {
+  for (const window of windows) {
+    const startMin = Math.max(arrivalMin, window.openMin);
+    if (startMin + durationMin <= window.closeMin) {
+      return startMin;
+    }
+  }
+  return null;
+}
@@ -26,6 +26,14 @@ export function formatHHMM(minutes: number): string {
   return `${hours.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Minutes from midnight on `date` (the trip clock is UTC) at an ISO timestamp;
+ * negative before that day and 1440 or more after it
+ */
+export function minutesOnDate(iso: string, date: string): number {
+  return Math.round((new Date(iso).getTime() - new Date(`${date}T00:00:00Z`).getTime()) / 60000);
+}
+
 /**
  * Clamp a value between min and max
  * @param value - Value to clamp
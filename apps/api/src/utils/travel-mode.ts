@@ -0,0 +1,74 @@
+/**
+ * Travel mode selection - pick walking, transit or driving for each leg of a "smart" day
+ */
+import type { SmartModeOptions, TravelMode } from "@adaptive/types";
+import { estimateTravelMin } from "./geo.js";
+
+// Modes in order of preference when their travel times tie
+const MODE_PREFERENCE: TravelMode[] = ["walking", "transit", "driving"];
+
+export interface TravelLeg {
+  mode: TravelMode;
+  minutes: number;
+}
+
+export interface LegModeLimits {
+  /** Longest leg that may be walked */
+  maxWalkKm: number;
+  /** Legs at most this long are always walked when walking is allowed */
+  alwaysWalkKm: number;
+  /** Legs shorter than this are never driven unless nothing else is allowed */
+  minDriveKm: number;
+  /** Modes legs may use */
+  modes: TravelMode[];
+}
+
+/**
+ * Leg mode limits for a request, with defaults configurable via
+ * PLANNER_MAX_WALK_KM, PLANNER_ALWAYS_WALK_KM and PLANNER_MIN_DRIVE_KM
+ */
+export function getLegModeLimits(options?: SmartModeOptions): LegModeLimits {
+  const maxWalkKm = options?.maxWalkKm ?? Number.parseFloat(process.env.PLANNER_MAX_WALK_KM || "2");
+  return {
+    maxWalkKm,
+    alwaysWalkKm: Math.min(maxWalkKm, Number.parseFloat(process.env.PLANNER_ALWAYS_WALK_KM || "1")),
+    minDriveKm: Number.parseFloat(process.env.PLANNER_MIN_DRIVE_KM || "1.5"),
+    modes: options?.modes && options.modes.length > 0 ? options.modes : MODE_PREFERENCE,
+  };
+}
+
+/**
+ * Choose how to travel a leg: short hops are walked, walks over the limit and
+ * drives under the minimum are ruled out, and the fastest remaining mode wins.
+ * `knownMin` holds routed travel times where available; other modes fall back
+ * to a distance-based estimate.
+ */
+export function chooseLegMode(
+  distanceKm: number,
+  limits: LegModeLimits,
+  knownMin: Partial<Record<TravelMode, number>> = {}
+): TravelLeg {
+  const minutesBy = (mode: TravelMode) => knownMin[mode] ?? estimateTravelMin(distanceKm, mode);
+  const allowed = MODE_PREFERENCE.filter((mode) => limits.modes.includes(mode));
+
+  if (allowed.includes("walking") && distanceKm <= limits.alwaysWalkKm) {
+    return { mode: "walking", minutes: minutesBy("walking") };
+  }
+
+  const candidates = allowed.filter(
+    (mode) =>
+      !(mode === "walking" && distanceKm > limits.maxWalkKm) &&
+      !(mode === "driving" && distanceKm < limits.minDriveKm)
+  );
+  // When the limits rule out every allowed mode, the least restricted one still has to get there
+  const pool = candidates.length > 0 ? candidates : allowed;
+
+  let best: TravelLeg | null = null;
+  for (const mode of pool) {
+    const minutes = minutesBy(mode);
+    if (!best || minutes < best.minutes) {
+      best = { mode, minutes };
+    }
+  }
+  return best!;
+}
@@ -19,11 +19,28 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   return res.json() as Promise<T>;
 }
 
+export interface TripDay {
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface TripLocation {
+  lat: number;
+  lng: number;
+  name?: string;
+  address?: string;
+}
+
 export interface CreateTripRequest {
   city: string;
   date: string;
+  endDate?: string;
   startTime: string;
   endTime: string;
+  days?: TripDay[];
+  baseLocation?: TripLocation;
+  endLocation?: TripLocation;
   preferences: Record<string, unknown>;
 }
 
@@ -31,6 +48,12 @@ export interface CreateTripResponse {
   tripId: string;
 }
 
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  open: string;
+  close: string;
+}
+
 export interface ActivityInput {
   place: {
     provider: string;
@@ -41,27 +64,117 @@ export interface ActivityInput {
     category?: string;
     isIndoor?: boolean;
     address?: string;
+    openingHours?: OpeningPeriod[];
+    priceTier?: number;
   };
   durationMin: number;
   locked: boolean;
+  date?: string;
+  openingHours?: OpeningPeriod[];
+  earliestStart?: string;
+  latestEnd?: string;
+  pinnedStart?: string | null;
+  pinToleranceMin?: number;
+  priority?: ActivityPriority;
 }
 
+export type ActivityPriority = "must" | "want" | "optional";
+
+// Fields to change; null clears an optional one
+export type ActivityPatch = {
+  [K in keyof ActivityInput]?: undefined extends ActivityInput[K] ? ActivityInput[K] | null : ActivityInput[K];
+};
+
+export interface Activity extends ActivityInput {
+  activityId: string;
+  addedAt: string;
+}
+
+export type TravelMode = "driving" | "walking" | "transit";
+
 export interface ItineraryItem {
   activityId: string;
   placeName: string;
   startTime: string;
   endTime: string;
   travelFromPrevMin: number;
+  travelMode?: TravelMode;
+  waitMin?: number;
+  pinned?: boolean;
+  bufferMin?: number;
+  estimatedCost?: number;
+  systemAdded?: boolean;
+  breakKind?: "meal" | "rest";
+  location?: { lat: number; lng: number };
+  completed?: boolean;
+}
+
+export interface PinConflict {
+  activityId: string;
+  placeName: string;
+  pinnedStart: string;
+  scheduledStart: string;
+  lateMin: number;
+}
+
+export interface UnscheduledActivity {
+  activityId: string;
+  placeName: string;
+  reason: "closed" | "outside_time_window" | "over_time" | "avoided_category" | "pace_limit";
+  priority?: ActivityPriority;
+  extraTimeMin?: number;
+}
+
+export type Pace = "slow" | "medium" | "fast";
+export type Budget = "low" | "medium" | "high";
+
+export interface PreferenceEffects {
+  pace: {
+    pace: Pace;
+    durationScale: number;
+    bufferMin: number;
+    maxStops: number;
+    restEveryMin: number;
+    restMin: number;
+    droppedCount: number;
+  };
+  budget: {
+    budget: Budget;
+    maxPriceTier: number;
+    estimatedTotalCost: number;
+    overBudgetActivityIds: string[];
+  };
+}
+
+export type RoutingProviderName = "mapbox" | "osrm" | "valhalla" | "haversine";
+
+export interface ItineraryOptimization {
+  algorithm: string;
+  greedyTravelMin: number;
+  optimizedTravelMin: number;
+  improvementMin: number;
+  converged: boolean;
+  timedOut?: boolean;
+  routingProvider?: RoutingProviderName;
 }
 
 export interface Itinerary {
   items: ItineraryItem[];
   totalTravelMin: number;
+  returnTravelMin?: number;
+  returnTravelMode?: TravelMode;
+  optimization?: ItineraryOptimization;
+  unscheduled?: UnscheduledActivity[];
+  pinConflicts?: PinConflict[];
+  preferenceEffects?: PreferenceEffects;
+  replannedFrom?: { time: string; location: { lat: number; lng: number } };
 }
 
 export interface GenerateItineraryResponse {
   version: number;
+  date: string;
   itinerary: Itinerary;
+  days?: Array<{ date: string; version: number; itinerary: Itinerary }>;
 }
 
 export interface PlaceSearchResult {
@@ -73,6 +186,8 @@ export interface PlaceSearchResult {
   category?: string;
   isIndoor?: boolean;
   address?: string;
+  openingHours?: OpeningPeriod[];
+  priceTier?: number;
 }
 
 export interface PlaceSearchRequest {
@@ -82,49 +197,272 @@ export interface PlaceSearchRequest {
   limit?: number;
   interests?: string[];
   avoid?: string[];
+  budget?: Budget;
 }
 
 export interface PlaceSearchResponse {
   places: PlaceSearchResult[];
 }
 
+export type PlanObjective = "fastest" | "balanced" | "least_walking" | "indoor_first" | "least_crowded";
+
+export interface ItinerarySource {
+  type: "generated" | "suggestion" | "manual" | "rollback" | "alternative" | "replan";
+  suggestionId?: string;
+  fromVersion?: number;
+  objective?: PlanObjective;
+}
+
+export interface ItineraryVersion {
+  version: number;
+  date: string;
+  itinerary: Itinerary;
+  generatedAt: string;
+  source: ItinerarySource;
+}
+
 export interface GetTripResponse {
   trip: Record<string, unknown>;
-  activities: ActivityInput[];
+  activities: Activity[];
   latestItinerary?: {
     version: number;
+    date?: string;
     itinerary: Itinerary;
     generatedAt: string;
+    source?: ItinerarySource;
   };
+  latestItineraries?: ItineraryVersion[];
+}
+
+export interface RollbackItineraryResponse {
+  version: number;
+  date: string;
+  itinerary: Itinerary;
+  source: ItinerarySource;
 }
 
 export async function createTrip(data: CreateTripRequest): Promise<CreateTripResponse> {
   return request<CreateTripResponse>("/trip", { method: "POST", body: JSON.stringify(data) });
 }
 
-export async function addActivities(tripId: string, activities: ActivityInput[]): Promise<void> {
-  await request(`/trip/${tripId}/activities`, { method: "POST", body: JSON.stringify({ activities }) });
+export async function updateTripLocations(
+  tripId: string,
+  locations: { baseLocation?: TripLocation | null; endLocation?: TripLocation | null }
+): Promise<Record<string, unknown>> {
+  return request<Record<string, unknown>>(`/trip/${tripId}/locations`, { method: "PATCH", body: JSON.stringify(locations) });
+}
+
+export async function addActivities(tripId: string, activities: ActivityInput[]): Promise<Activity[]> {
+  const res = await request<{ ok: boolean; count: number; activities: Activity[] }>(`/trip/${tripId}/activities`, {
+    method: "POST",
+    body: JSON.stringify({ activities }),
+  });
+  return res.activities;
+}
+
+export async function addActivity(tripId: string, activity: ActivityInput): Promise<Activity> {
+  const [added] = await addActivities(tripId, [activity]);
+  return added;
 }
 
-export async function generateItinerary(tripId: string, mode: "driving" | "walking" | "transit"): Promise<GenerateItineraryResponse> {
+export async function updateActivity(
+  tripId: string,
+  activityId: string,
+  patch: ActivityPatch
+): Promise<Activity> {
+  const res = await request<{ activity: Activity }>(`/trip/${tripId}/activities/${activityId}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return res.activity;
+}
+
+export async function removeActivity(tripId: string, activityId: string): Promise<void> {
+  await request(`/trip/${tripId}/activities/${activityId}`, { method: "DELETE" });
+}
+
+export async function reorderActivities(tripId: string, activityIds: string[]): Promise<Activity[]> {
+  const res = await request<{ activities: Activity[] }>(`/trip/${tripId}/activities/order`, {
+    method: "PUT",
+    body: JSON.stringify({ activityIds }),
+  });
+  return res.activities;
+}
+
+export async function generateItinerary(tripId: string, mode: TravelMode | "smart"): Promise<GenerateItineraryResponse> {
   return request<GenerateItineraryResponse>(`/trip/${tripId}/itinerary/generate`, { method: "POST", body: JSON.stringify({ mode }) });
 }
 
+export interface PlanScore {
+  travelMin: number;
+  waitingMin: number;
+  walkingKm: number;
+  weatherExposureMin: number;
+  crowdedMin: number;
+  scheduledCount: number;
+}
+
+export interface PlanCandidate {
+  candidateId: string;
+  objective: PlanObjective;
+  itinerary: Itinerary;
+  score: PlanScore;
+  tradeoffs: string[];
+}
+
+export interface GenerateAlternativesResponse {
+  date: string;
+  baseVersion?: number;
+  candidates: PlanCandidate[];
+}
+
+export async function generateAlternatives(
+  tripId: string,
+  mode: TravelMode | "smart",
+  date?: string
+): Promise<GenerateAlternativesResponse> {
+  return request<GenerateAlternativesResponse>(`/trip/${tripId}/itinerary/alternatives`, {
+    method: "POST",
+    body: JSON.stringify({ mode, date }),
+  });
+}
+
+export async function selectAlternative(tripId: string, candidateId: string): Promise<RollbackItineraryResponse> {
+  return request<RollbackItineraryResponse>(`/trip/${tripId}/itinerary/alternatives/${candidateId}/select`, {
+    method: "POST",
+  });
+}
+
+export async function replanItinerary(
+  tripId: string,
+  body: {
+    mode: TravelMode | "smart";
+    currentLocation: { lat: number; lng: number };
+    completedActivityIds: string[];
+    now?: string;
+  }
+): Promise<RollbackItineraryResponse> {
+  return request<RollbackItineraryResponse>(`/trip/${tripId}/itinerary/replan`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
 export async function getTrip(tripId: string): Promise<GetTripResponse> {
   return request<GetTripResponse>(`/trip/${tripId}`);
 }
 
+export async function getItineraryVersions(tripId: string): Promise<{ versions: ItineraryVersion[] }> {
+  return request<{ versions: ItineraryVersion[] }>(`/trip/${tripId}/itinerary/versions`);
+}
+
+export async function getItineraryVersion(tripId: string, version: number): Promise<ItineraryVersion> {
+  return request<ItineraryVersion>(`/trip/${tripId}/itinerary/versions/${version}`);
+}
+
+export interface ItineraryDiffResponse {
+  from: number;
+  to: number;
+  diff: PlanDiff;
+}
+
+export async function getItineraryDiff(tripId: string, from: number, to: number): Promise<ItineraryDiffResponse> {
+  return request<ItineraryDiffResponse>(`/trip/${tripId}/itinerary/diff?from=${from}&to=${to}`);
+}
+
+export async function rollbackItinerary(tripId: string, version: number): Promise<RollbackItineraryResponse> {
+  return request<RollbackItineraryResponse>(`/trip/${tripId}/itinerary/rollback`, {
+    method: "POST",
+    body: JSON.stringify({ version }),
+  });
+}
+
+export async function removeItineraryBreak(
+  tripId: string,
+  itemId: string,
+  date?: string
+): Promise<RollbackItineraryResponse> {
+  const query = date ? `?date=${encodeURIComponent(date)}` : "";
+  return request<RollbackItineraryResponse>(`/trip/${tripId}/itinerary/breaks/${itemId}${query}`, {
+    method: "DELETE",
+  });
+}
+
+export interface RouteLeg {
+  fromActivityId?: string;
+  toActivityId?: string;
+  mode: TravelMode;
+  coordinates: [number, number][];
+  durationSec: number;
+  distanceM: number;
+  estimated?: boolean;
+}
+
+export interface ItineraryRouteResponse {
+  date: string;
+  version: number;
+  routingProvider: RoutingProviderName;
+  legs: RouteLeg[];
+}
+
+export async function getItineraryRoute(tripId: string, date?: string): Promise<ItineraryRouteResponse> {
+  const query = date ? `?date=${encodeURIComponent(date)}` : "";
+  return request<ItineraryRouteResponse>(`/trip/${tripId}/itinerary/route${query}`);
+}
+
+export type ItineraryIssueCode =
+  | "unknown_activity"
+  | "duplicate_activity"
+  | "invalid_times"
+  | "before_trip_start"
+  | "after_trip_end"
+  | "closed"
+  | "outside_opening_hours"
+  | "outside_time_window"
+  | "pin_missed"
+  | "locked_moved"
+  | "locked_removed"
+  | "overlap"
+  | "not_enough_travel_time"
+  | "unrealistic_travel_time"
+  | "avoided_category";
+
+export interface ItineraryIssue {
+  activityId?: string;
+  code: ItineraryIssueCode;
+  message: string;
+}
+
+export interface ValidateItineraryResponse {
+  date: string;
+  version?: number;
+  valid: boolean;
+  errors: ItineraryIssue[];
+  warnings: ItineraryIssue[];
+}
+
+export async function validateItinerary(
+  tripId: string,
+  body: { date?: string; suggestionId?: string; itinerary?: Itinerary } = {}
+): Promise<ValidateItineraryResponse> {
+  return request<ValidateItineraryResponse>(`/trip/${tripId}/itinerary/validate`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
 export async function searchPlaces(
   query: string,
   near: { lat: number; lng: number },
   radiusKm: number = 5,
   limit: number = 10,
   interests: string[] = [],
-  avoid: string[] = []
+  avoid: string[] = [],
+  budget?: Budget
 ): Promise<PlaceSearchResponse> {
   return request<PlaceSearchResponse>("/places/search", {
     method: "POST",
-    body: JSON.stringify({ query, near, radiusKm, limit, interests, avoid }),
+    body: JSON.stringify({ query, near, radiusKm, limit, interests, avoid, budget }),
   });
 }
 
@@ -167,11 +505,22 @@ export interface SignalsResponse {
   };
 }
 
+export interface PlanDiff {
+  moved: Array<{ placeName: string; from: string; to: string }>;
+  swapped: Array<{ fromPlace: string; toPlace: string }>;
+  added?: Array<{ placeName: string; startTime: string }>;
+  removed?: Array<{ placeName: string; startTime: string }>;
+  durationChanged?: Array<{ placeName: string; fromMin: number; toMin: number }>;
+  travelDeltaMin?: number;
+  summary: string;
+}
+
 export interface Suggestion {
   suggestionId: string;
   kind: "reorder" | "swap" | "shift";
-  status: "pending" | "accepted" | "rejected" | "applied";
-  trigger: "weather" | "crowds" | "transit" | "traffic" | "mixed";
+  status: "pending" | "accepted" | "rejected" | "applied" | "superseded";
+  trigger: "weather" | "crowds" | "transit" | "traffic" | "mixed" | "delay";
+  date?: string;
   createdAt: string;
   reasons: string[];
   confidence: number;
@@ -180,20 +529,17 @@ export interface Suggestion {
     weatherRiskReduced?: number;
     crowdReduced?: number;
     delayAvoidedMin?: number;
+    lateMin?: number;
   };
   beforePlan: {
     version: number;
     items: ItineraryItem[];
   };
   afterPlan: {
-    version: number;
+    version?: number; // set once the suggestion is applied
     items: ItineraryItem[];
   };
-  diff?: {
-    moved: Array<{ placeName: string; from: string; to: string }>;
-    swapped: Array<{ fromPlace: string; toPlace: string }>;
-    summary: string;
-  };
+  diff?: PlanDiff;
 }
 
 export interface ListSuggestionsResponse {
@@ -246,6 +592,68 @@ export async function sendFeedback(tripId: string, suggestionId: string, action:
   });
 }
 
+// ===== Trip Progress =====
+
+export interface ActivityVisit {
+  activityId: string;
+  date: string;
+  checkedInAt: string;
+  checkedOutAt?: string;
+  plannedStart?: string;
+  plannedEnd?: string;
+  actualDurationMin?: number;
+  category?: string;
+}
+
+export interface LocationPing {
+  location: { lat: number; lng: number };
+  recordedAt: string;
+}
+
+export interface TripProgress {
+  date: string;
+  version?: number;
+  currentActivityId?: string;
+  lateMin: number;
+  lastPing?: LocationPing;
+  visits: ActivityVisit[];
+}
+
+export interface TripProgressResponse {
+  progress: TripProgress;
+  suggestion?: Suggestion;
+}
+
+export async function checkInActivity(tripId: string, activityId: string, at?: string): Promise<TripProgressResponse> {
+  return request<TripProgressResponse>(`/trip/${tripId}/activities/${activityId}/checkin`, {
+    method: "POST",
+    body: JSON.stringify({ at }),
+  });
+}
+
+export async function checkOutActivity(tripId: string, activityId: string, at?: string): Promise<TripProgressResponse> {
+  return request<TripProgressResponse>(`/trip/${tripId}/activities/${activityId}/checkout`, {
+    method: "POST",
+    body: JSON.stringify({ at }),
+  });
+}
+
+export async function sendLocationPing(
+  tripId: string,
+  location: { lat: number; lng: number },
+  at?: string
+): Promise<TripProgressResponse> {
+  return request<TripProgressResponse>(`/trip/${tripId}/location`, {
+    method: "POST",
+    body: JSON.stringify({ location, at }),
+  });
+}
+
+export async function getTripProgress(tripId: string, date?: string): Promise<TripProgressResponse> {
+  const query = date ? `?date=${date}` : "";
+  return request<TripProgressResponse>(`/trip/${tripId}/progress${query}`);
+}
+
 // ===== Phase 7: Contributor + Admin =====
 
 export interface ContributorProfile {
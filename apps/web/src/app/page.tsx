@@ -1,7 +1,14 @@
 "use client";
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { addActivities, createTrip, generateItinerary, type ActivityInput } from "@/api/client";
+import {
+  addActivities,
+  createTrip,
+  generateItinerary,
+  type ActivityInput,
+  type TravelMode,
+  type TripLocation,
+} from "@/api/client";
 import PlacePicker from "@/components/PlacePicker";
 import { getCityCoordinates } from "@/utils/geocode";
 
@@ -21,12 +28,14 @@ export default function HomePage() {
   const router = useRouter();
   const [city, setCity] = useState("");
   const [date, setDate] = useState("");
+  const [endDate, setEndDate] = useState("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
   const [pace, setPace] = useState<"slow" | "medium" | "fast" | "">("");
   const [budget, setBudget] = useState<"low" | "medium" | "high" | "">("");
-  const [transportMode, setTransportMode] = useState<"driving" | "walking" | "transit" | "">("");
+  const [transportMode, setTransportMode] = useState<TravelMode | "smart" | "">("");
   const [activities, setActivities] = useState<LocalActivity[]>([]);
+  const [baseLocation, setBaseLocation] = useState<TripLocation | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -50,6 +59,10 @@ export default function HomePage() {
       setError("Please fill in all trip details.");
       return;
     }
+    if (endDate && endDate < date) {
+      setError("End date cannot be before the start date.");
+      return;
+    }
     if (!pace || !budget) {
       setError("Please select pace and budget preferences.");
       return;
@@ -70,8 +83,10 @@ export default function HomePage() {
       const { tripId } = await createTrip({
         city: city.trim(),
         date,
+        endDate: endDate || undefined,
         startTime,
         endTime,
+        baseLocation: baseLocation ?? undefined,
         preferences: {
           pace,
           interests: [],
@@ -148,11 +163,21 @@ export default function HomePage() {
               <label className="field-label">Date</label>
               <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="field-control" />
             </div>
+            <div>
+              <label className="field-label">End date (optional)</label>
+              <input
+                type="date"
+                value={endDate}
+                min={date || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="field-control"
+              />
+            </div>
             <div>
               <label className="field-label">Transportation</label>
               <select
                 value={transportMode}
-                onChange={(e) => setTransportMode(e.target.value as "driving" | "walking" | "transit")}
+                onChange={(e) => setTransportMode(e.target.value as TravelMode | "smart")}
                 className="field-control"
                 required
               >
@@ -160,6 +185,7 @@ export default function HomePage() {
                 <option value="driving">Driving</option>
                 <option value="walking">Walking</option>
                 <option value="transit">Transit</option>
+                <option value="smart">Mixed (best per leg)</option>
               </select>
             </div>
             <div>
@@ -224,6 +250,33 @@ export default function HomePage() {
               Searching near {city} ({cityLocation.lat.toFixed(4)}, {cityLocation.lng.toFixed(4)})
             </p>
           )}
+          {cityLocation && (
+            <div className="rounded-xl border border-[#c6d8cc] bg-[#f6fbf8] p-3">
+              <p className="mb-2 text-sm font-semibold text-[#2f4a3b]">Hotel / base (optional)</p>
+              {baseLocation ? (
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {baseLocation.name} <span className="text-xs text-[#5a6e61]">- each day starts and ends here</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setBaseLocation(null)}
+                    className="btn-subtle px-3 py-1 text-xs text-red-700"
+                  >
+                    Clear
+                  </button>
+                </div>
+              ) : (
+                <PlacePicker
+                  locationOnly
+                  defaultLocation={cityLocation}
+                  onAddPlace={(place) =>
+                    setBaseLocation({ lat: place.lat, lng: place.lng, name: place.name, address: place.address })
+                  }
+                />
+              )}
+            </div>
+          )}
           {cityLocation && <PlacePicker onAddPlace={handleAddPlace} defaultLocation={cityLocation} />}
 
           {activities.length > 0 && (
@@ -1,13 +1,27 @@
 "use client";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { getTrip, type GetTripResponse } from "@/api/client";
+import {
+  addActivity,
+  getItineraryRoute,
+  getTrip,
+  removeActivity,
+  removeItineraryBreak,
+  type Budget,
+  type GetTripResponse,
+  type RouteLeg,
+} from "@/api/client";
 import MapView from "@/components/MapView";
+import PlacePicker, { type PickedPlace } from "@/components/PlacePicker";
+import PlanAlternativesPanel from "@/components/PlanAlternativesPanel";
+import ReplanPanel from "@/components/ReplanPanel";
 import SignalsPanel from "@/components/SignalsPanel";
 import SuggestionCard from "@/components/SuggestionCard";
 import Timeline from "@/components/Timeline";
+import VersionDiffPanel from "@/components/VersionDiffPanel";
 import { useTripStream } from "@/hooks/useTripStream";
+import { getCityCoordinates } from "@/utils/geocode";
 
 export default function TripDashboardPage() {
   const params = useParams<{ tripId: string }>();
@@ -16,6 +30,7 @@ export default function TripDashboardPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [suggestionsKey, setSuggestionsKey] = useState(0);
+  const [routeLegs, setRouteLegs] = useState<RouteLeg[]>([]);
 
   const refreshTrip = useCallback(() => {
     if (!tripId) return;
@@ -32,11 +47,53 @@ export default function TripDashboardPage() {
     onSuggestionNew: () => {
       setSuggestionsKey((k) => k + 1);
     },
+    onSuggestionSuperseded: () => {
+      setSuggestionsKey((k) => k + 1);
+    },
     onItineraryVersion: () => {
       refreshTrip();
     },
+    onActivityChange: () => {
+      refreshTrip();
+    },
   });
 
+  const cityLocation = useMemo(() => {
+    const city = data && typeof data.trip.city === "string" ? data.trip.city : "";
+    return city ? getCityCoordinates(city) : null;
+  }, [data]);
+
+  async function handleAddStop(place: PickedPlace) {
+    if (!tripId) return;
+    const { durationMin, locked, pinnedStart, priority, ...placeFields } = place;
+    try {
+      await addActivity(tripId, { place: placeFields, durationMin, locked, pinnedStart, priority });
+      refreshTrip();
+    } catch (err) {
+      console.error("Failed to add stop:", err);
+    }
+  }
+
+  async function handleRemoveStop(activityId: string) {
+    if (!tripId) return;
+    try {
+      await removeActivity(tripId, activityId);
+      refreshTrip();
+    } catch (err) {
+      console.error("Failed to remove stop:", err);
+    }
+  }
+
+  async function handleRemoveBreak(itemId: string, date?: string) {
+    if (!tripId) return;
+    try {
+      await removeItineraryBreak(tripId, itemId, date);
+      refreshTrip();
+    } catch (err) {
+      console.error("Failed to remove break:", err);
+    }
+  }
+
   useEffect(() => {
     if (!tripId) return;
     setLoading(true);
@@ -46,6 +103,18 @@ export default function TripDashboardPage() {
       .finally(() => setLoading(false));
   }, [tripId]);
 
+  // Road geometry for the first day's plan, redrawn whenever a new version lands
+  const firstDayPlan = data?.latestItinerary;
+  useEffect(() => {
+    if (!tripId || !firstDayPlan) {
+      setRouteLegs([]);
+      return;
+    }
+    getItineraryRoute(tripId, firstDayPlan.date)
+      .then((route) => setRouteLegs(route.legs))
+      .catch((err) => console.error("Failed to load route:", err));
+  }, [tripId, firstDayPlan?.date, firstDayPlan?.version]);
+
   if (loading) {
     return (
       <main className="mx-auto max-w-6xl py-8">
@@ -75,6 +144,16 @@ export default function TripDashboardPage() {
   const dateStr = typeof trip.date === "string" ? trip.date : "";
   const startStr = typeof trip.startTime === "string" ? trip.startTime : "";
   const endStr = typeof trip.endTime === "string" ? trip.endTime : "";
+  const base = trip.baseLocation as { name?: string; lat: number; lng: number } | undefined;
+  const baseStr = base ? base.name || `${base.lat.toFixed(4)}, ${base.lng.toFixed(4)}` : "";
+  const dayCount = Array.isArray(trip.days) ? trip.days.length : 1;
+  const lastDay = Array.isArray(trip.days) && dayCount > 1 ? (trip.days[dayCount - 1] as { date?: unknown }) : null;
+  const endDateStr = lastDay && typeof lastDay.date === "string" ? lastDay.date : "";
+  const preferences = trip.preferences as { budget?: Budget } | undefined;
+
+  // One timeline per planned day; older responses only carry the first day
+  const dayItineraries = data.latestItineraries ?? (data.latestItinerary ? [data.latestItinerary] : []);
+  const latestVersion = dayItineraries.reduce((max, v) => Math.max(max, v.version), 0);
 
   return (
     <main className="mx-auto max-w-7xl space-y-6 py-6">
@@ -89,8 +168,10 @@ export default function TripDashboardPage() {
             <dl className="grid grid-cols-2 gap-y-2 text-sm">
               {dateStr && (
                 <>
-                  <dt className="text-[#5d7266]">Date</dt>
-                  <dd className="font-semibold">{dateStr}</dd>
+                  <dt className="text-[#5d7266]">{endDateStr ? "Dates" : "Date"}</dt>
+                  <dd className="font-semibold">
+                    {endDateStr ? `${dateStr} – ${endDateStr} (${dayCount} days)` : dateStr}
+                  </dd>
                 </>
               )}
               {startStr && (
@@ -105,6 +186,12 @@ export default function TripDashboardPage() {
                   <dd className="font-semibold">{endStr}</dd>
                 </>
               )}
+              {baseStr && (
+                <>
+                  <dt className="text-[#5d7266]">Base</dt>
+                  <dd className="font-semibold">{baseStr}</dd>
+                </>
+              )}
             </dl>
           </div>
         </div>
@@ -133,40 +220,103 @@ export default function TripDashboardPage() {
         <section className="space-y-6">
           <div className="glass-card p-5">
             <h2 className="mb-3 text-2xl">Itinerary</h2>
-            {data.latestItinerary ? (
-              <Timeline itinerary={data.latestItinerary.itinerary} version={data.latestItinerary.version} />
+            {dayItineraries.length > 0 ? (
+              <div className="space-y-5">
+                {dayItineraries.map((day) => (
+                  <div key={day.date ?? day.version}>
+                    {dayItineraries.length > 1 && day.date && (
+                      <h3 className="mb-2 text-lg font-semibold text-[#2f4a3b]">{day.date}</h3>
+                    )}
+                    <Timeline
+                      itinerary={day.itinerary}
+                      version={day.version}
+                      onRemoveBreak={(itemId) => handleRemoveBreak(itemId, day.date)}
+                    />
+                  </div>
+                ))}
+              </div>
             ) : (
               <p className="text-sm text-[#62776b]">No itinerary generated yet.</p>
             )}
           </div>
 
+          {tripId && dayItineraries.length > 0 && (
+            <div className="glass-card p-5">
+              <h2 className="mb-3 text-2xl">Re-plan Today</h2>
+              <ReplanPanel
+                tripId={tripId as string}
+                fallbackLocation={base && { lat: base.lat, lng: base.lng }}
+                onReplanned={refreshTrip}
+              />
+            </div>
+          )}
+
+          {tripId && data.activities && data.activities.length > 0 && (
+            <div className="glass-card p-5">
+              <h2 className="mb-3 text-2xl">Compare Plans</h2>
+              <PlanAlternativesPanel
+                tripId={tripId as string}
+                date={dayItineraries[0]?.date}
+                onAlternativeSelected={refreshTrip}
+              />
+            </div>
+          )}
+
+          {tripId && latestVersion > 1 && (
+            <div className="glass-card p-5">
+              <h2 className="mb-3 text-2xl">How Your Day Changed</h2>
+              <VersionDiffPanel tripId={tripId as string} latestVersion={latestVersion} />
+            </div>
+          )}
+
           <div className="glass-card p-5">
             <h2 className="mb-3 text-2xl">Map</h2>
             {data.activities && data.activities.length > 0 ? (
-              <MapView activities={data.activities} accessToken={process.env.NEXT_PUBLIC_MAPBOX_TOKEN} />
+              <MapView
+                activities={data.activities}
+                routeLegs={routeLegs}
+                accessToken={process.env.NEXT_PUBLIC_MAPBOX_TOKEN}
+              />
             ) : (
               <p className="text-sm text-[#62776b]">Add activities to see them on the map.</p>
             )}
           </div>
 
-          {data.activities && data.activities.length > 0 && (
-            <div className="glass-card p-5">
-              <h2 className="mb-3 text-2xl">Activities</h2>
-              <ul className="grid gap-2 sm:grid-cols-2">
-                {data.activities.map((a, idx) => (
-                  <li key={idx} className="rounded-xl border border-[#cadacc] bg-white/80 p-3 text-sm">
-                    <p className="font-semibold text-[#183428]">{a.place.name}</p>
+          <div className="glass-card p-5">
+            <h2 className="mb-3 text-2xl">Activities</h2>
+            {cityLocation && (
+              <PlacePicker onAddPlace={handleAddStop} defaultLocation={cityLocation} budget={preferences?.budget} />
+            )}
+            {data.activities && data.activities.length > 0 && (
+              <ul className="mt-3 grid gap-2 sm:grid-cols-2">
+                {data.activities.map((a) => (
+                  <li key={a.activityId} className="rounded-xl border border-[#cadacc] bg-white/80 p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-semibold text-[#183428]">{a.place.name}</p>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveStop(a.activityId)}
+                        className="text-xs text-[#7a4b3f] hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
                     <p className="text-xs text-[#5f7468]">{a.durationMin} min</p>
                     {a.locked && (
                       <span className="mt-1 inline-block rounded bg-orange-100 px-2 py-0.5 text-[11px] font-semibold text-orange-700">
                         LOCKED
                       </span>
                     )}
+                    {a.priority && a.priority !== "want" && (
+                      <span className="ml-1 mt-1 inline-block rounded bg-teal-100 px-2 py-0.5 text-[11px] font-semibold text-teal-800">
+                        {a.priority === "must" ? "MUST SEE" : "OPTIONAL"}
+                      </span>
+                    )}
                   </li>
                 ))}
               </ul>
-            </div>
-          )}
+            )}
+          </div>
         </section>
 
         <aside className="space-y-6 xl:sticky xl:top-5 xl:h-fit">
@@ -1,15 +1,19 @@
 "use client";
 
-import type { Suggestion } from "@/api/client";
+import type { ItineraryDiffResponse, Suggestion } from "@/api/client";
 
 interface DiffViewProps {
-  suggestion: Suggestion;
+  suggestion?: Suggestion;
+  versionDiff?: ItineraryDiffResponse;
 }
 
-export default function DiffView({ suggestion }: DiffViewProps) {
-  const { diff, beforePlan, afterPlan, impact } = suggestion;
+export default function DiffView({ suggestion, versionDiff }: DiffViewProps) {
+  const diff = versionDiff?.diff ?? suggestion?.diff;
+  const impact = suggestion?.impact;
+  const fromVersion = versionDiff?.from ?? suggestion?.beforePlan?.version;
+  const toVersion = versionDiff?.to ?? suggestion?.afterPlan?.version;
 
-  if (!diff && !beforePlan && !afterPlan) {
+  if (!diff && fromVersion === undefined && toVersion === undefined) {
     return null;
   }
 
@@ -46,6 +50,55 @@ export default function DiffView({ suggestion }: DiffViewProps) {
         </div>
       )}
 
+      {diff && diff.added && diff.added.length > 0 && (
+        <div className="mb-2 rounded-lg border border-[#d8e6dc] bg-white p-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[#556c60]">Added</p>
+          <ul className="mt-1 space-y-1 text-xs text-[#566d61]">
+            {diff.added.map((item, idx) => (
+              <li key={idx}>
+                <span className="font-semibold text-[#2f4b3d]">{item.placeName}</span> at {item.startTime}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff && diff.removed && diff.removed.length > 0 && (
+        <div className="mb-2 rounded-lg border border-[#d8e6dc] bg-white p-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[#556c60]">Removed</p>
+          <ul className="mt-1 space-y-1 text-xs text-[#566d61]">
+            {diff.removed.map((item, idx) => (
+              <li key={idx}>
+                <span className="font-semibold text-[#2f4b3d]">{item.placeName}</span> (was {item.startTime})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff && diff.durationChanged && diff.durationChanged.length > 0 && (
+        <div className="mb-2 rounded-lg border border-[#d8e6dc] bg-white p-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[#556c60]">Duration</p>
+          <ul className="mt-1 space-y-1 text-xs text-[#566d61]">
+            {diff.durationChanged.map((item, idx) => (
+              <li key={idx}>
+                <span className="font-semibold text-[#2f4b3d]">{item.placeName}</span> {item.fromMin} min to {item.toMin} min
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff && diff.travelDeltaMin !== undefined && diff.travelDeltaMin !== 0 && (
+        <p className="mb-2 text-xs text-[#566d61]">
+          Travel time:{" "}
+          <span className="font-semibold text-[#2f4b3d]">
+            {diff.travelDeltaMin > 0 ? "+" : ""}
+            {diff.travelDeltaMin} min
+          </span>
+        </p>
+      )}
+
       {impact && (
         <div className="mt-2 border-t border-[#d8e6dc] pt-2">
           <p className="text-xs font-semibold uppercase tracking-wide text-[#556c60]">Impact</p>
@@ -70,20 +123,25 @@ export default function DiffView({ suggestion }: DiffViewProps) {
                 {impact.delayAvoidedMin} min delay avoided
               </span>
             )}
+            {impact.lateMin !== undefined && impact.lateMin > 0 && (
+              <span className="rounded bg-rose-100 px-2 py-0.5 text-xs font-semibold text-rose-700">
+                {impact.lateMin} min behind plan
+              </span>
+            )}
           </div>
         </div>
       )}
 
-      {suggestion.confidence !== undefined && (
+      {suggestion && suggestion.confidence !== undefined && (
         <p className="mt-2 border-t border-[#d8e6dc] pt-2 text-xs text-[#546b5f]">
           Confidence: <span className="font-semibold">{Math.round(suggestion.confidence * 100)}%</span>
         </p>
       )}
 
-      {beforePlan && afterPlan && (
+      {fromVersion !== undefined && toVersion !== undefined && (
         <p className="mt-1 text-xs text-[#546b5f]">
-          Version: <span className="font-semibold">v{beforePlan.version}</span> to{" "}
-          <span className="font-semibold">v{afterPlan.version}</span>
+          Version: <span className="font-semibold">v{fromVersion}</span> to{" "}
+          <span className="font-semibold">v{toVersion}</span>
         </p>
       )}
     </div>
@@ -1,16 +1,19 @@
 "use client";
 import { useEffect, useRef } from "react";
 import mapboxgl from "mapbox-gl";
-import type { ActivityInput } from "@/api/client";
+import type { ActivityInput, RouteLeg } from "@/api/client";
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN ?? "";
 
+const ROUTE_SOURCE_ID = "itinerary-route";
+
 interface MapViewProps {
   activities: ActivityInput[];
+  routeLegs?: RouteLeg[];
   accessToken?: string;
 }
 
-export default function MapView({ activities, accessToken }: MapViewProps) {
+export default function MapView({ activities, routeLegs = [], accessToken }: MapViewProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const markersAdded = useRef(false);
@@ -69,6 +72,47 @@ export default function MapView({ activities, accessToken }: MapViewProps) {
     }
   }, [activities, accessToken]);
 
+  useEffect(() => {
+    const current = map.current;
+    if (!current || !accessToken) return;
+
+    const data: GeoJSON.FeatureCollection<GeoJSON.LineString> = {
+      type: "FeatureCollection",
+      features: routeLegs.map((leg) => ({
+        type: "Feature",
+        properties: { estimated: Boolean(leg.estimated) },
+        geometry: { type: "LineString", coordinates: leg.coordinates },
+      })),
+    };
+
+    const draw = () => {
+      const source = current.getSource(ROUTE_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data);
+        return;
+      }
+      current.addSource(ROUTE_SOURCE_ID, { type: "geojson", data });
+      current.addLayer({
+        id: ROUTE_SOURCE_ID,
+        type: "line",
+        source: ROUTE_SOURCE_ID,
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: {
+          "line-color": "#2563eb",
+          "line-width": 4,
+          // Straight-line fallbacks are drawn fainter than routed legs
+          "line-opacity": ["case", ["get", "estimated"], 0.4, 0.8],
+        },
+      });
+    };
+
+    if (current.isStyleLoaded()) {
+      draw();
+    } else {
+      current.once("load", draw);
+    }
+  }, [routeLegs, accessToken]);
+
   if (!accessToken) {
     return (
       <div className="flex h-72 w-full items-center justify-center rounded-xl border border-[#c7d8cc] bg-[#f7fbf8] p-4 text-center text-sm text-[#5a7064]">
@@ -1,30 +1,48 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { searchPlaces, type PlaceSearchResult } from "@/api/client";
+import {
+  searchPlaces,
+  type ActivityPriority,
+  type Budget,
+  type OpeningPeriod,
+  type PlaceSearchResult,
+} from "@/api/client";
+
+export interface PickedPlace {
+  provider: string;
+  providerPlaceId: string;
+  name: string;
+  lat: number;
+  lng: number;
+  category?: string;
+  address?: string;
+  openingHours?: OpeningPeriod[];
+  priceTier?: number;
+  durationMin: number;
+  locked: boolean;
+  pinnedStart?: string;
+  priority: ActivityPriority;
+}
 
 interface PlacePickerProps {
-  onAddPlace: (place: {
-    provider: string;
-    providerPlaceId: string;
-    name: string;
-    lat: number;
-    lng: number;
-    category?: string;
-    address?: string;
-    durationMin: number;
-    locked: boolean;
-  }) => void;
+  onAddPlace: (place: PickedPlace) => void;
   defaultLocation: { lat: number; lng: number };
+  /** Pick a plain location (e.g. a hotel) without duration or lock options */
+  locationOnly?: boolean;
+  /** Hide places above this budget and list the best-priced first */
+  budget?: Budget;
 }
 
-export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePickerProps) {
+export default function PlacePicker({ onAddPlace, defaultLocation, locationOnly = false, budget }: PlacePickerProps) {
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<PlaceSearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [selectedDuration, setSelectedDuration] = useState<number | "">("");
   const [selectedLocked, setSelectedLocked] = useState(false);
+  const [selectedPinnedStart, setSelectedPinnedStart] = useState("");
+  const [selectedPriority, setSelectedPriority] = useState<ActivityPriority>("want");
   const [searchRadius, setSearchRadius] = useState(10);
   const [searchLocation, setSearchLocation] = useState(defaultLocation);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -55,7 +73,7 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
     debounceRef.current = setTimeout(async () => {
       setLoading(true);
       try {
-        const res = await searchPlaces(query, searchLocation, searchRadius, 20);
+        const res = await searchPlaces(query, searchLocation, searchRadius, 20, [], [], budget);
         setResults(res.places);
         setShowResults(true);
       } catch (err) {
@@ -69,10 +87,10 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [query, searchLocation, searchRadius]);
+  }, [query, searchLocation, searchRadius, budget]);
 
   function handleSelectPlace(place: PlaceSearchResult) {
-    if (!selectedDuration || selectedDuration < 1) {
+    if (!locationOnly && (!selectedDuration || selectedDuration < 1)) {
       alert("Please enter a valid duration (minimum 1 minute).");
       return;
     }
@@ -85,14 +103,20 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
       lng: place.lng,
       category: place.category,
       address: place.address,
-      durationMin: selectedDuration,
+      openingHours: place.openingHours,
+      priceTier: place.priceTier,
+      durationMin: selectedDuration || 0,
       locked: selectedLocked,
+      pinnedStart: selectedPinnedStart || undefined,
+      priority: selectedPriority,
     });
 
     setQuery("");
     setResults([]);
     setShowResults(false);
     setSelectedLocked(false);
+    setSelectedPinnedStart("");
+    setSelectedPriority("want");
   }
 
   return (
@@ -124,7 +148,8 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
         </div>
       </div>
 
-      <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+      {!locationOnly && (
+      <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto]">
         <div>
           <label className="field-label">Duration (minutes)</label>
           <input
@@ -138,11 +163,33 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
             required
           />
         </div>
+        <div className="sm:w-36">
+          <label className="field-label">Fixed start</label>
+          <input
+            type="time"
+            value={selectedPinnedStart}
+            onChange={(e) => setSelectedPinnedStart(e.target.value)}
+            className="field-control"
+          />
+        </div>
+        <div className="sm:w-32">
+          <label className="field-label">Priority</label>
+          <select
+            value={selectedPriority}
+            onChange={(e) => setSelectedPriority(e.target.value as ActivityPriority)}
+            className="field-control"
+          >
+            <option value="must">Must see</option>
+            <option value="want">Want</option>
+            <option value="optional">Optional</option>
+          </select>
+        </div>
         <label className="flex items-center gap-2 rounded-xl border border-[#c7d8cc] bg-[#f6fbf8] px-3 py-2 text-sm font-medium text-[#3e564a]">
           <input type="checkbox" checked={selectedLocked} onChange={(e) => setSelectedLocked(e.target.checked)} className="rounded" />
-          Lock time
+          Keep order
         </label>
       </div>
+      )}
 
       <div className="relative">
         <input
@@ -150,7 +197,7 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
           value={query}
           onChange={(e) => setQuery(e.target.value)}
           onFocus={() => results.length > 0 && setShowResults(true)}
-          placeholder="Search places (museum, cafe, park...)"
+          placeholder={locationOnly ? "Search your hotel or address..." : "Search places (museum, cafe, park...)"}
           className="field-control pr-24"
         />
         {loading && (
@@ -168,7 +215,10 @@ export default function PlacePicker({ onAddPlace, defaultLocation }: PlacePicker
                 className="w-full rounded-lg px-3 py-2 text-left hover:bg-[#eef7f2]"
               >
                 <div className="text-sm font-semibold text-[#173428]">{place.name}</div>
-                <div className="text-xs text-[#5c7467]">{place.category || "General"}</div>
+                <div className="text-xs text-[#5c7467]">
+                  {place.category || "General"}
+                  {place.priceTier !== undefined && ` · ${"$".repeat(place.priceTier)}`}
+                </div>
                 {place.address && <div className="truncate text-xs text-[#7a8f84]">{place.address}</div>}
               </button>
             </li>
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import {
+  generateAlternatives,
+  selectAlternative,
+  type PlanCandidate,
+  type PlanObjective,
+  type TravelMode,
+} from "@/api/client";
+
+const OBJECTIVE_LABELS: Record<PlanObjective, string> = {
+  fastest: "Fastest",
+  balanced: "Balanced",
+  least_walking: "Least walking",
+  indoor_first: "Stay dry",
+  least_crowded: "Avoid crowds",
+};
+
+interface PlanAlternativesPanelProps {
+  tripId: string;
+  /** Trip day to plan; the first day when omitted */
+  date?: string;
+  onAlternativeSelected: () => void;
+}
+
+export default function PlanAlternativesPanel({ tripId, date, onAlternativeSelected }: PlanAlternativesPanelProps) {
+  const [mode, setMode] = useState<TravelMode | "smart">("smart");
+  const [candidates, setCandidates] = useState<PlanCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selecting, setSelecting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleCompare() {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await generateAlternatives(tripId, mode, date);
+      setCandidates(data.candidates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to plan alternatives");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSelect(candidateId: string) {
+    setSelecting(candidateId);
+    try {
+      await selectAlternative(tripId, candidateId);
+      setCandidates([]);
+      onAlternativeSelected();
+    } catch (err) {
+      if (err instanceof Error && err.message.startsWith("API 409")) {
+        // The itinerary changed since these were planned; they no longer apply
+        setCandidates([]);
+        setError("The itinerary changed since these plans were made. Compare again.");
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Failed to use this plan");
+    } finally {
+      setSelecting(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as TravelMode | "smart")}
+          className="field-control w-auto"
+        >
+          <option value="smart">Mixed (best per leg)</option>
+          <option value="driving">Driving</option>
+          <option value="walking">Walking</option>
+          <option value="transit">Transit</option>
+        </select>
+        <button onClick={handleCompare} disabled={loading} className="btn-brand px-3 py-1.5 text-sm">
+          {loading ? "Planning..." : "Compare plans"}
+        </button>
+      </div>
+
+      {error && <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      {candidates.map((candidate) => (
+        <div key={candidate.candidateId} className="rounded-xl border border-[#c7d8cc] bg-white/80 p-4">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <span className="rounded bg-[#dff4ec] px-2 py-1 text-xs font-semibold uppercase tracking-wide text-[#205843]">
+              {OBJECTIVE_LABELS[candidate.objective]}
+            </span>
+            <span className="text-xs text-[#5a7063]">
+              {candidate.score.scheduledCount} {candidate.score.scheduledCount === 1 ? "stop" : "stops"}
+            </span>
+          </div>
+
+          <dl className="mb-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-[#42594d]">
+            <dt>Travel</dt>
+            <dd className="font-semibold">{candidate.score.travelMin} min</dd>
+            <dt>Waiting</dt>
+            <dd className="font-semibold">{candidate.score.waitingMin} min</dd>
+            <dt>Walking</dt>
+            <dd className="font-semibold">{candidate.score.walkingKm} km</dd>
+            <dt>Outdoors in rain risk</dt>
+            <dd className="font-semibold">{candidate.score.weatherExposureMin} min</dd>
+            <dt>At peak crowds</dt>
+            <dd className="font-semibold">{candidate.score.crowdedMin} min</dd>
+          </dl>
+
+          {candidate.tradeoffs.length > 0 && (
+            <ul className="mb-3 list-inside list-disc text-sm text-[#42594d]">
+              {candidate.tradeoffs.map((tradeoff) => (
+                <li key={tradeoff}>{tradeoff}</li>
+              ))}
+            </ul>
+          )}
+
+          <p className="mb-3 text-xs text-[#5a7063]">
+            {candidate.itinerary.items.map((item) => `${item.startTime} ${item.placeName}`).join(" → ")}
+          </p>
+
+          <button
+            onClick={() => handleSelect(candidate.candidateId)}
+            disabled={selecting !== null}
+            className="btn-brand px-3 py-1.5 text-sm"
+          >
+            {selecting === candidate.candidateId ? "Saving..." : "Use this plan"}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { getTripProgress, replanItinerary, type TravelMode } from "@/api/client";
+
+interface ReplanPanelProps {
+  tripId: string;
+  /** Used when the browser cannot tell where the traveler is */
+  fallbackLocation?: { lat: number; lng: number };
+  onReplanned: () => void;
+}
+
+function currentPosition(): Promise<{ lat: number; lng: number }> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not available in this browser"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      (err) => reject(new Error(err.message)),
+      { timeout: 10000 }
+    );
+  });
+}
+
+export default function ReplanPanel({ tripId, fallbackLocation, onReplanned }: ReplanPanelProps) {
+  const [mode, setMode] = useState<TravelMode | "smart">("smart");
+  const [replanning, setReplanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleReplan() {
+    setReplanning(true);
+    setError(null);
+    try {
+      // Today's check-ins say what is done and, failing the browser, where the traveler last was
+      const { progress } = await getTripProgress(tripId);
+      const currentLocation = await currentPosition().catch((err) => {
+        const known = progress.lastPing?.location ?? fallbackLocation;
+        if (!known) throw err;
+        return known;
+      });
+      const completedActivityIds = progress.visits
+        .filter((visit) => visit.checkedOutAt)
+        .map((visit) => visit.activityId);
+
+      await replanItinerary(tripId, { mode, currentLocation, completedActivityIds });
+      onReplanned();
+    } catch (err) {
+      if (err instanceof Error && err.message.startsWith("API 409")) {
+        setError("The rest of today cannot be fitted in from here. Try removing a stop first.");
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Failed to re-plan the day");
+    } finally {
+      setReplanning(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-[#4f6559]">
+        Running behind or off route? Plan the rest of today from where you are now.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as TravelMode | "smart")}
+          className="field-control w-auto"
+        >
+          <option value="smart">Mixed (best per leg)</option>
+          <option value="driving">Driving</option>
+          <option value="walking">Walking</option>
+          <option value="transit">Transit</option>
+        </select>
+        <button onClick={handleReplan} disabled={replanning} className="btn-brand px-3 py-1.5 text-sm">
+          {replanning ? "Re-planning..." : "Re-plan from here"}
+        </button>
+      </div>
+
+      {error && <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+    </div>
+  );
+}
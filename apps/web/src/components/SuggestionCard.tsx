@@ -38,6 +38,11 @@ export default function SuggestionCard({ tripId, onSuggestionApplied }: Suggesti
       await fetchSuggestions();
       onSuggestionApplied();
     } catch (err) {
+      if (err instanceof Error && err.message.startsWith("API 409")) {
+        // The itinerary changed underneath this suggestion; drop it from the list
+        setSuggestions((prev) => prev.filter((s) => s.suggestionId !== suggestionId));
+        return;
+      }
       setError(err instanceof Error ? err.message : "Failed to apply suggestion");
     } finally {
       setApplying(null);
@@ -1,15 +1,34 @@
 "use client";
-import type { Itinerary } from "@/api/client";
+import type { Itinerary, UnscheduledActivity } from "@/api/client";
+
+const UNSCHEDULED_REASON_LABELS: Record<UnscheduledActivity["reason"], string> = {
+  closed: "closed that day",
+  outside_time_window: "does not fit its opening hours",
+  over_time: "would run past the end of the day",
+  pace_limit: "too many stops for your pace",
+  avoided_category: "matches something you asked to avoid",
+};
 
 interface TimelineProps {
   itinerary: Itinerary;
   version?: number;
+  /** Called to remove a system-added meal or rest break */
+  onRemoveBreak?: (itemId: string) => void;
 }
 
-export default function Timeline({ itinerary, version }: TimelineProps) {
-  const { items, totalTravelMin } = itinerary;
+export default function Timeline({ itinerary, version, onRemoveBreak }: TimelineProps) {
+  const {
+    items,
+    totalTravelMin,
+    returnTravelMin,
+    returnTravelMode,
+    optimization,
+    unscheduled,
+    pinConflicts,
+    preferenceEffects,
+  } = itinerary;
 
-  if (!items || items.length === 0) {
+  if ((!items || items.length === 0) && (!unscheduled || unscheduled.length === 0)) {
     return <p className="text-sm text-[#5f7569]">No itinerary items to display.</p>;
   }
 
@@ -23,18 +42,95 @@ export default function Timeline({ itinerary, version }: TimelineProps) {
       <ul className="space-y-3">
         {items.map((item, idx) => (
           <li key={item.activityId} className="relative rounded-xl border border-[#c6d8cc] bg-white/90 p-4">
-            <span className="absolute left-0 top-0 h-full w-1 rounded-l-xl bg-gradient-to-b from-teal-500 to-emerald-500" />
-            {idx > 0 && item.travelFromPrevMin > 0 && (
-              <p className="mb-1 pl-2 text-xs font-medium text-[#668072]">{item.travelFromPrevMin} min travel</p>
+            <span
+              className={`absolute left-0 top-0 h-full w-1 rounded-l-xl bg-gradient-to-b ${
+                item.systemAdded ? "from-amber-300 to-amber-400" : "from-teal-500 to-emerald-500"
+              }`}
+            />
+            {item.systemAdded && onRemoveBreak && (
+              <button
+                type="button"
+                onClick={() => onRemoveBreak(item.activityId)}
+                className="absolute right-3 top-3 text-xs font-semibold text-[#7a8f84] hover:text-rose-700"
+              >
+                Remove
+              </button>
+            )}
+            {item.travelFromPrevMin > 0 && (
+              <p className="mb-1 pl-2 text-xs font-medium text-[#668072]">
+                {item.travelFromPrevMin} min {item.travelMode ?? "travel"}{idx === 0 ? " from base" : ""}
+                {item.bufferMin ? ` + ${item.bufferMin} min buffer` : ""}
+              </p>
+            )}
+            {item.waitMin !== undefined && item.waitMin > 0 && (
+              <p className="mb-1 pl-2 text-xs font-medium text-amber-700">
+                {item.waitMin} min wait for opening
+              </p>
             )}
             <p className="pl-2 text-xs font-semibold uppercase tracking-wide text-[#678074]">
               {item.startTime} - {item.endTime}
+              {item.pinned && <span className="ml-2 normal-case text-[#2f6b52]">(fixed time)</span>}
+              {item.completed && <span className="ml-2 normal-case text-[#2f6b52]">(done)</span>}
             </p>
-            <p className="pl-2 text-base font-semibold text-[#163327]">{item.placeName}</p>
+            <p className="pl-2 text-base font-semibold text-[#163327]">
+              {item.placeName}
+              {item.systemAdded && (
+                <span className="ml-2 text-xs font-medium text-amber-700">
+                  {item.breakKind === "rest" ? "rest break" : "meal break"} · added for you
+                </span>
+              )}
+            </p>
+            {item.estimatedCost !== undefined && (
+              <p className="pl-2 text-xs text-[#668072]">~${item.estimatedCost} per person</p>
+            )}
           </li>
         ))}
       </ul>
+      {pinConflicts && pinConflicts.length > 0 && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50/80 p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-rose-800">Fixed times at risk</p>
+          <ul className="mt-1 space-y-1">
+            {pinConflicts.map((conflict) => (
+              <li key={conflict.activityId} className="text-sm text-rose-900">
+                {conflict.placeName} - booked for {conflict.pinnedStart}, earliest arrival {conflict.scheduledStart} ({conflict.lateMin} min late)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {unscheduled && unscheduled.length > 0 && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50/80 p-3">
+          <p className="text-xs font-semibold uppercase tracking-wide text-amber-800">Could not be scheduled</p>
+          <ul className="mt-1 space-y-1">
+            {unscheduled.map((entry) => (
+              <li key={entry.activityId} className="text-sm text-amber-900">
+                {entry.placeName} - {UNSCHEDULED_REASON_LABELS[entry.reason]}
+                {entry.priority && <span className="text-amber-700"> ({entry.priority})</span>}
+                {entry.extraTimeMin !== undefined && entry.extraTimeMin > 0 && (
+                  <span className="text-amber-700"> · needs {entry.extraTimeMin} more min</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {returnTravelMin !== undefined && (
+        <p className="text-sm text-[#566e61]">Return to base: {returnTravelMin} min{returnTravelMode ? ` ${returnTravelMode}` : ""}</p>
+      )}
       <p className="text-sm text-[#566e61]">Total travel: {totalTravelMin} min</p>
+      {preferenceEffects && (
+        <p className="text-xs text-[#668072]">
+          {preferenceEffects.pace.pace} pace: visits x{preferenceEffects.pace.durationScale},{" "}
+          {preferenceEffects.pace.bufferMin} min between stops, up to {preferenceEffects.pace.maxStops} stops
+          {preferenceEffects.budget.estimatedTotalCost > 0 &&
+            ` · est. $${preferenceEffects.budget.estimatedTotalCost} per person (${preferenceEffects.budget.budget} budget)`}
+        </p>
+      )}
+      {optimization && optimization.improvementMin > 0 && (
+        <p className="text-xs text-[#668072]">
+          Route optimized: {optimization.improvementMin} min less travel than a nearest-stop-first route
+        </p>
+      )}
     </div>
   );
 }
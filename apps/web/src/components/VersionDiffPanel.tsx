@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getItineraryDiff,
+  getItineraryVersions,
+  type ItineraryDiffResponse,
+  type ItineraryVersion,
+} from "@/api/client";
+import DiffView from "./DiffView";
+
+interface VersionDiffPanelProps {
+  tripId: string;
+  latestVersion: number;
+}
+
+function describeSource(version: ItineraryVersion): string {
+  switch (version.source.type) {
+    case "suggestion":
+      return "suggestion";
+    case "rollback":
+      return `rollback to v${version.source.fromVersion}`;
+    case "manual":
+      return "manual edit";
+    case "alternative":
+      return "chosen alternative";
+    case "replan":
+      return "re-planned from here";
+    default:
+      return "generated";
+  }
+}
+
+export default function VersionDiffPanel({ tripId, latestVersion }: VersionDiffPanelProps) {
+  const [versions, setVersions] = useState<ItineraryVersion[]>([]);
+  const [from, setFrom] = useState(Math.max(1, latestVersion - 1));
+  const [to, setTo] = useState(latestVersion);
+  const [versionDiff, setVersionDiff] = useState<ItineraryDiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getItineraryVersions(tripId)
+      .then((data) => setVersions(data.versions || []))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load versions"));
+    setFrom(Math.max(1, latestVersion - 1));
+    setTo(latestVersion);
+  }, [tripId, latestVersion]);
+
+  useEffect(() => {
+    if (from === to) {
+      setVersionDiff(null);
+      return;
+    }
+    getItineraryDiff(tripId, from, to)
+      .then((data) => {
+        setVersionDiff(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load diff"));
+  }, [tripId, from, to]);
+
+  if (versions.length < 2) {
+    return <p className="text-sm text-[#62776b]">Changes appear here once the itinerary has more than one version.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-[#4f6559]">
+        <label htmlFor="diff-from">Compare</label>
+        <select
+          id="diff-from"
+          value={from}
+          onChange={(e) => setFrom(Number(e.target.value))}
+          className="rounded-lg border border-[#cadacc] bg-white px-2 py-1 text-sm"
+        >
+          {versions.map((v) => (
+            <option key={v.version} value={v.version}>
+              v{v.version} · {v.date} ({describeSource(v)})
+            </option>
+          ))}
+        </select>
+        <label htmlFor="diff-to">with</label>
+        <select
+          id="diff-to"
+          value={to}
+          onChange={(e) => setTo(Number(e.target.value))}
+          className="rounded-lg border border-[#cadacc] bg-white px-2 py-1 text-sm"
+        >
+          {versions.map((v) => (
+            <option key={v.version} value={v.version}>
+              v{v.version} · {v.date} ({describeSource(v)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {from === to ? (
+        <p className="text-sm text-[#62776b]">Pick two different versions to compare.</p>
+      ) : (
+        versionDiff && <DiffView versionDiff={versionDiff} />
+      )}
+    </div>
+  );
+}
@@ -8,14 +8,18 @@ interface UseTripStreamOptions {
   tripId: string;
   onSignalUpdate?: (data: unknown) => void;
   onSuggestionNew?: (data: unknown) => void;
+  onSuggestionSuperseded?: (data: unknown) => void;
   onItineraryVersion?: (data: unknown) => void;
+  onActivityChange?: (data: unknown) => void;
 }
 
 export function useTripStream({
   tripId,
   onSignalUpdate,
   onSuggestionNew,
+  onSuggestionSuperseded,
   onItineraryVersion,
+  onActivityChange,
 }: UseTripStreamOptions) {
   const eventSourceRef = useRef<EventSource | null>(null);
 
@@ -45,6 +49,15 @@ export function useTripStream({
       }
     });
 
+    eventSource.addEventListener("suggestion:superseded", (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        onSuggestionSuperseded?.(data);
+      } catch (err) {
+        console.error("Failed to parse suggestion:superseded event:", err);
+      }
+    });
+
     eventSource.addEventListener("itinerary:version", (event) => {
       try {
         const data = JSON.parse(event.data);
@@ -54,6 +67,17 @@ export function useTripStream({
       }
     });
 
+    for (const eventName of ["activity:added", "activity:updated", "activity:removed", "activities:reordered"]) {
+      eventSource.addEventListener(eventName, (event: MessageEvent) => {
+        try {
+          const data = JSON.parse(event.data);
+          onActivityChange?.(data);
+        } catch (err) {
+          console.error(`Failed to parse ${eventName} event:`, err);
+        }
+      });
+    }
+
     eventSource.onerror = (err) => {
       // Only log errors in development
       if (process.env.NODE_ENV === 'development') {
@@ -61,7 +85,7 @@ export function useTripStream({
       }
       eventSource.close();
     };
-  }, [tripId, onSignalUpdate, onSuggestionNew, onItineraryVersion]);
+  }, [tripId, onSignalUpdate, onSuggestionNew, onSuggestionSuperseded, onItineraryVersion, onActivityChange]);
 
   useEffect(() => {
     connect();
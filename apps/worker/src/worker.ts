@@ -59,12 +59,27 @@ const TRANSIT_NEXT_SECONDS = parseInt(
 // Types
 // ============================================================================
 
+interface TripDay {
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface TripLocation {
+  lat: number;
+  lng: number;
+  name?: string;
+  address?: string;
+}
+
 interface Trip {
   tripId: string;
   city: string;
   date: string;
   startTime: string;
   endTime: string;
+  days?: TripDay[];
+  baseLocation?: TripLocation;
 }
 
 interface Activity {
@@ -80,19 +95,23 @@ interface Activity {
   };
 }
 
+interface ItineraryVersion {
+  version: number;
+  date?: string;
+  itinerary: {
+    items: Array<{
+      activityId: string;
+      startTime: string;
+      endTime: string;
+    }>;
+  };
+}
+
 interface TripData {
   trip: Trip;
   activities: Activity[];
-  latestItinerary?: {
-    version: number;
-    itinerary: {
-      items: Array<{
-        activityId: string;
-        startTime: string;
-        endTime: string;
-      }>;
-    };
-  };
+  latestItinerary?: ItineraryVersion;
+  latestItineraries?: ItineraryVersion[];
 }
 
 interface ForecastItem {
@@ -114,12 +133,19 @@ interface OpenWeatherForecastResponse {
   list: ForecastItem[];
 }
 
+interface TransitAlert {
+  line: string;
+  delayMin: number;
+  message: string;
+}
+
 // ============================================================================
 // Venue ID Cache (in-memory)
-// Maps placeId -> { venueId: string, peakHours: string[] }
+// Maps placeId -> { venueId: string, analysis: any }
+// Peak hours are derived per trip day from the cached weekly analysis
 // ============================================================================
 
-const venueCache = new Map<string, { venueId: string; peakHours: string[] }>();
+const venueCache = new Map<string, { venueId: string; analysis: any }>();
 
 // ============================================================================
 // Weather Helpers
@@ -142,6 +168,39 @@ async function fetchTripData(tripId: string): Promise<TripData> {
   return await response.json();
 }
 
+/**
+ * Every day of a trip; trips created before multi-day support have a single day
+ */
+function getTripDays(trip: Trip): TripDay[] {
+  if (trip.days && trip.days.length > 0) {
+    return trip.days;
+  }
+  return [{ date: trip.date, startTime: trip.startTime, endTime: trip.endTime }];
+}
+
+/**
+ * Activities planned for a day, in itinerary order; falls back to every
+ * activity (nearest the base location first, when known) when the day has
+ * no itinerary yet
+ */
+function getDayActivities(tripData: TripData, date: string): Activity[] {
+  const latest = tripData.latestItineraries?.find((v) => v.date === date);
+  if (!latest) {
+    const base = tripData.trip.baseLocation;
+    if (!base) {
+      return tripData.activities;
+    }
+    const distance = (a: Activity) =>
+      (a.place.lat - base.lat) ** 2 + (a.place.lng - base.lng) ** 2;
+    return [...tripData.activities].sort((a, b) => distance(a) - distance(b));
+  }
+
+  const byId = new Map(tripData.activities.map((a) => [a.activityId, a]));
+  return latest.itinerary.items
+    .map((item) => byId.get(item.activityId))
+    .filter((a): a is Activity => a !== undefined);
+}
+
 function getDateAtMidnight(dateStr: string): Date {
   const [year, month, day] = dateStr.split("-").map(Number);
   return new Date(Date.UTC(year, month - 1, day, 0, 0, 0));
@@ -181,11 +240,13 @@ async function fetchLatLngForCity(
 
 async function postWeatherSignal(
   tripId: string,
+  date: string,
   summary: string,
   riskHours: string[],
   raw: any,
 ): Promise<void> {
   const payload = {
+    date,
     observedAt: new Date().toISOString(),
     weather: { summary, riskHours },
     raw,
@@ -229,57 +290,64 @@ async function processTripWeather(tripId: string): Promise<void> {
     const tripData = await fetchTripData(tripId);
     const { trip } = tripData;
 
-    const tripDate = getDateAtMidnight(trip.date);
+    // Only days within the 5-day forecast window can be covered
     const now = new Date();
-    const hoursDiff = (tripDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+    const forecastDays = getTripDays(trip).filter((day) => {
+      const dayDate = getDateAtMidnight(day.date);
+      const hoursDiff = (dayDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+      return hoursDiff >= -24 && hoursDiff <= 120;
+    });
 
-    if (hoursDiff < 0 || hoursDiff > 120) {
-      console.log(
-        `[${tripId}] Trip date out of forecast window (${Math.round(hoursDiff)}h), skipping`,
-      );
+    if (forecastDays.length === 0) {
+      console.log(`[${tripId}] No trip days in forecast window, skipping`);
       return;
     }
 
-    const { lat, lon } = await fetchLatLngForCity(trip.city);
+    // Forecast at the lodging when known, otherwise at the city centre
+    const { lat, lon } = trip.baseLocation
+      ? { lat: trip.baseLocation.lat, lon: trip.baseLocation.lng }
+      : await fetchLatLngForCity(trip.city);
     const forecast = await fetchWeatherForecast(lat, lon);
 
-    const tripStart = new Date(`${trip.date}T${trip.startTime}:00Z`);
-    const tripEnd = new Date(`${trip.date}T${trip.endTime}:00Z`);
-
-    const forecastDuring = forecast.filter((item) => {
-      const dt = new Date(item.dt * 1000);
-      return dt >= tripStart && dt <= tripEnd;
-    });
-
-    const riskHours: string[] = [];
-    const hasBadWeather = forecastDuring.some((item) => {
-      const isRain =
-        item.weather.some((w) =>
-          ["Rain", "Drizzle", "Thunderstorm"].includes(w.main),
-        ) && item.pop >= 0.3;
-      const isHeavyRain = item.pop >= 0.7;
+    for (const day of forecastDays) {
+      const dayStart = new Date(`${day.date}T${day.startTime}:00Z`);
+      const dayEnd = new Date(`${day.date}T${day.endTime}:00Z`);
 
-      if (isRain || isHeavyRain) {
+      const forecastDuring = forecast.filter((item) => {
         const dt = new Date(item.dt * 1000);
-        const hh = String(dt.getUTCHours()).padStart(2, "0");
-        const mm = String(dt.getUTCMinutes()).padStart(2, "0");
-        riskHours.push(`${hh}:${mm}`);
-        return true;
-      }
-      return false;
-    });
+        return dt >= dayStart && dt <= dayEnd;
+      });
+
+      const riskHours: string[] = [];
+      const hasBadWeather = forecastDuring.some((item) => {
+        const isRain =
+          item.weather.some((w) =>
+            ["Rain", "Drizzle", "Thunderstorm"].includes(w.main),
+          ) && item.pop >= 0.3;
+        const isHeavyRain = item.pop >= 0.7;
+
+        if (isRain || isHeavyRain) {
+          const dt = new Date(item.dt * 1000);
+          const hh = String(dt.getUTCHours()).padStart(2, "0");
+          const mm = String(dt.getUTCMinutes()).padStart(2, "0");
+          riskHours.push(`${hh}:${mm}`);
+          return true;
+        }
+        return false;
+      });
 
-    const summary = hasBadWeather
-      ? `Rain likely on ${trip.date}`
-      : `Clear skies expected`;
+      const summary = hasBadWeather
+        ? `Rain likely on ${day.date}`
+        : `Clear skies expected`;
 
-    await postWeatherSignal(tripId, summary, riskHours, {
-      city: trip.city,
-      date: trip.date,
-      forecastCount: forecastDuring.length,
-    });
+      await postWeatherSignal(tripId, day.date, summary, riskHours, {
+        city: trip.city,
+        date: day.date,
+        forecastCount: forecastDuring.length,
+      });
 
-    console.log(`[${tripId}] Weather signal updated: ${summary}`);
+      console.log(`[${tripId}] Weather signal updated for ${day.date}: ${summary}`);
+    }
 
     await triggerRecompute(tripId);
     console.log(`[${tripId}] Recompute triggered`);
@@ -345,15 +413,14 @@ function extractPeakHours(analysis: any, dayInt: number): string[] {
 }
 
 /**
- * Ensure venue is cached with venue_id and peak hours
+ * Ensure venue is cached with venue_id and weekly forecast analysis
  * Returns cached data or null if forecast failed
  */
 async function ensureVenueCached(
   placeId: string,
   name: string,
   address: string,
-  tripDate: string,
-): Promise<{ venueId: string; peakHours: string[] } | null> {
+): Promise<{ venueId: string; analysis: any } | null> {
   // Check cache first
   if (venueCache.has(placeId)) {
     return venueCache.get(placeId)!;
@@ -372,19 +439,13 @@ async function ensureVenueCached(
     return null;
   }
 
-  // Extract peak hours for trip date
-  const dayInt = getDayInt(tripDate);
-  const peakHours = extractPeakHours(forecast.analysis, dayInt);
-
   const cacheData = {
     venueId: forecast.venueId,
-    peakHours,
+    analysis: forecast.analysis,
   };
 
   venueCache.set(placeId, cacheData);
-  console.log(
-    `[Crowds] Cached venue ${name}: venueId=${forecast.venueId}, peaks=${peakHours.join(",")}`,
-  );
+  console.log(`[Crowds] Cached venue ${name}: venueId=${forecast.venueId}`);
 
   return cacheData;
 }
@@ -394,6 +455,7 @@ async function ensureVenueCached(
  */
 async function postCrowdSignals(
   tripId: string,
+  date: string,
   crowds: Array<{
     placeId: string;
     placeName: string;
@@ -403,6 +465,7 @@ async function postCrowdSignals(
   raw: any,
 ): Promise<void> {
   const payload = {
+    date,
     observedAt: new Date().toISOString(),
     crowds,
     raw,
@@ -439,75 +502,94 @@ async function processTripCrowd(tripId: string): Promise<void> {
       return;
     }
 
-    console.log(
-      `[Crowds][${tripId}] Fetching crowd data for ${activities.length} places (max ${MAX_CROWD_VENUES_PER_TRIP})...`,
-    );
+    // Live busyness is per venue, so fetch it once and reuse it across days
+    const liveByPlace = new Map<string, number | null>();
+    let posted = 0;
 
-    const crowds: Array<{
-      placeId: string;
-      placeName: string;
-      busyNow: number;
-      peakHours: string[];
-    }> = [];
-
-    // Limit to max venues
-    const limitedActivities = activities.slice(0, MAX_CROWD_VENUES_PER_TRIP);
-
-    for (const activity of limitedActivities) {
-      const { place } = activity;
-      const placeId = place.providerPlaceId || activity.activityId;
-      const name = place.name;
-      const address = place.address || trip.city;
-
-      // Ensure venue is cached
-      const cached = await ensureVenueCached(placeId, name, address, trip.date);
-      if (!cached) {
-        console.warn(`[Crowds][${tripId}] Skipping ${name} (forecast failed)`);
-        continue;
-      }
+    for (const day of getTripDays(trip)) {
+      const dayActivities = getDayActivities(tripData, day.date);
+      const dayInt = getDayInt(day.date);
 
-      // Rate limiting: 200ms between requests (5 req/sec)
-      await new Promise((resolve) => setTimeout(resolve, 200));
+      console.log(
+        `[Crowds][${tripId}] ${day.date}: fetching crowd data for ${dayActivities.length} places (max ${MAX_CROWD_VENUES_PER_TRIP})...`,
+      );
 
-      // Fetch live data
-      console.log(`[Crowds][${tripId}] Fetching live data for ${name}...`);
-      const live = await besttimeLive({
-        apiKeyPrivate: BESTTIME_API_KEY_PRIVATE!,
-        venueId: cached.venueId,
-      });
+      const crowds: Array<{
+        placeId: string;
+        placeName: string;
+        busyNow: number;
+        peakHours: string[];
+      }> = [];
+
+      // Limit to max venues
+      const limitedActivities = dayActivities.slice(0, MAX_CROWD_VENUES_PER_TRIP);
+
+      for (const activity of limitedActivities) {
+        const { place } = activity;
+        const placeId = place.providerPlaceId || activity.activityId;
+        const name = place.name;
+        const address = place.address || trip.city;
+
+        // Ensure venue is cached
+        const cached = await ensureVenueCached(placeId, name, address);
+        if (!cached) {
+          console.warn(`[Crowds][${tripId}] Skipping ${name} (forecast failed)`);
+          continue;
+        }
 
-      // Determine busyNow: prefer live, fallback to forecasted
-      const busyNow = live.liveBusyness ?? live.forecastedBusyness;
+        if (!liveByPlace.has(placeId)) {
+          // Rate limiting: 200ms between requests (5 req/sec)
+          await new Promise((resolve) => setTimeout(resolve, 200));
 
-      if (busyNow === null) {
-        console.warn(`[Crowds][${tripId}] No busyness data for ${name}`);
-        continue;
+          // Fetch live data
+          console.log(`[Crowds][${tripId}] Fetching live data for ${name}...`);
+          const live = await besttimeLive({
+            apiKeyPrivate: BESTTIME_API_KEY_PRIVATE!,
+            venueId: cached.venueId,
+          });
+
+          // Determine busyNow: prefer live, fallback to forecasted
+          liveByPlace.set(placeId, live.liveBusyness ?? live.forecastedBusyness);
+        }
+
+        const busyNow = liveByPlace.get(placeId) ?? null;
+        if (busyNow === null) {
+          console.warn(`[Crowds][${tripId}] No busyness data for ${name}`);
+          continue;
+        }
+
+        // Peak hours depend on the day of the week being visited
+        const peakHours = extractPeakHours(cached.analysis, dayInt);
+
+        crowds.push({
+          placeId,
+          placeName: name,
+          busyNow,
+          peakHours,
+        });
+
+        console.log(
+          `[Crowds][${tripId}] ${name}: ${busyNow}%, peak on ${day.date} ${peakHours.join(", ")}`,
+        );
       }
 
-      crowds.push({
-        placeId,
-        placeName: name,
-        busyNow,
-        peakHours: cached.peakHours,
-      });
+      if (crowds.length === 0) {
+        console.log(`[Crowds][${tripId}] No crowd data collected for ${day.date}`);
+        continue;
+      }
 
-      const liveLabel = live.liveAvailable ? "live" : "forecasted";
+      // Post crowd signals
+      await postCrowdSignals(tripId, day.date, crowds, { source: "worker-besttime" });
+      posted++;
       console.log(
-        `[Crowds][${tripId}] ${name}: ${busyNow}% (${liveLabel}), peak ${cached.peakHours.join(", ")}`,
+        `[Crowds][${tripId}] Crowd signals posted for ${day.date} (${crowds.length} places)`,
       );
     }
 
-    if (crowds.length === 0) {
-      console.log(`[Crowds][${tripId}] No crowd data collected`);
+    if (posted === 0) {
       return;
     }
 
-    // Post crowd signals
-    await postCrowdSignals(tripId, crowds, { source: "worker-besttime" });
-    console.log(
-      `[Crowds][${tripId}] Crowd signals posted (${crowds.length} places)`,
-    );
-
     // Trigger recompute
     await triggerRecompute(tripId);
     console.log(`[Crowds][${tripId}] Recompute triggered`);
@@ -577,108 +659,29 @@ async function pollTransit(): Promise<void> {
           continue;
         }
 
-        // Determine reference coordinates for transit stop search
-        let refLat: number | null = null;
-        let refLon: number | null = null;
-
-        // Option 1: Use startLocation if stored (would need to add this to trip schema)
-        // For now, use first activity location as reference
-        if (tripData.activities && tripData.activities.length > 0) {
-          const firstActivity = tripData.activities[0];
-          refLat = firstActivity.place.lat;
-          refLon = firstActivity.place.lng; // Changed from 'lon' to 'lng'
-        }
-
-        if (refLat === null || refLon === null) {
-          console.warn(
-            `[Transit][${tripId}] No location available for transit search`,
+        // Days searched from the same place share one lookup
+        const alertsByReference = new Map<string, TransitAlert[]>();
+        for (const day of getTripDays(tripData.trip)) {
+          const reference = getTransitReference(
+            tripData.trip.baseLocation,
+            getDayActivities(tripData, day.date),
           );
-          continue;
-        }
-
-        console.log(
-          `[Transit][${tripId}] Searching for stops near ${refLat.toFixed(4)}, ${refLon.toFixed(4)}`,
-        );
-
-        // Find nearby transit stops
-        const stops = await transitlandFindStopsNear({
-          lat: refLat,
-          lon: refLon,
-          radiusM: TRANSIT_STOPS_RADIUS_M,
-          limit: TRANSIT_MAX_STOPS,
-          apiKey: TRANSITLAND_API_KEY,
-          baseUrl: TRANSITLAND_BASE_URL,
-        });
-
-        if (stops.length === 0) {
-          console.log(`[Transit][${tripId}] No transit stops found nearby`);
-          // Post empty alerts
-          await postTransitSignals(tripId, []);
-          continue;
-        }
-
-        console.log(`[Transit][${tripId}] Found ${stops.length} nearby stops`);
-
-        // Collect alerts from all nearby stops
-        const allAlerts: Array<{
-          line: string;
-          delayMin: number;
-          message: string;
-        }> = [];
-
-        for (const stop of stops) {
-          try {
-            console.log(
-              `[Transit][${tripId}] Fetching departures for stop: ${stop.stop_name}`,
-            );
-
-            const departuresResponse = await transitlandGetDepartures({
-              stopKey: stop.stop_key,
-              nextSeconds: TRANSIT_NEXT_SECONDS,
-              includeAlerts: true,
-              apiKey: TRANSITLAND_API_KEY,
-              baseUrl: TRANSITLAND_BASE_URL,
-            });
-
-            const alerts =
-              extractTransitAlertsFromDepartures(departuresResponse);
-            allAlerts.push(...alerts);
-
-            console.log(
-              `[Transit][${tripId}] Extracted ${alerts.length} alerts from ${stop.stop_name}`,
-            );
-          } catch (error) {
-            console.error(
-              `[Transit][${tripId}] Error fetching departures for stop ${stop.stop_key}:`,
-              error,
+          if (!reference) {
+            console.warn(
+              `[Transit][${tripId}] No location available for transit search on ${day.date}`,
             );
+            continue;
           }
-        }
 
-        // Merge and deduplicate alerts by line
-        const alertsByLine = new Map<
-          string,
-          { line: string; delayMin: number; message: string }
-        >();
-        for (const alert of allAlerts) {
-          const existing = alertsByLine.get(alert.line);
-          if (!existing || alert.delayMin > existing.delayMin) {
-            alertsByLine.set(alert.line, alert);
+          const key = `${reference.lat.toFixed(5)},${reference.lon.toFixed(5)}`;
+          let alerts = alertsByReference.get(key);
+          if (!alerts) {
+            alerts = await fetchTransitAlerts(tripId, reference);
+            alertsByReference.set(key, alerts);
           }
+          await postTransitSignals(tripId, day.date, alerts);
         }
 
-        // Sort by delay and keep top 5
-        const finalAlerts = Array.from(alertsByLine.values())
-          .sort((a, b) => b.delayMin - a.delayMin)
-          .slice(0, 5);
-
-        console.log(
-          `[Transit][${tripId}] Final: ${finalAlerts.length} unique alerts`,
-        );
-
-        // Post transit signals
-        await postTransitSignals(tripId, finalAlerts);
-
         // Trigger recompute
         const recomputeResp = await fetch(
           `${API_BASE_URL}/internal/trip/${tripId}/recompute`,
@@ -703,12 +706,112 @@ async function pollTransit(): Promise<void> {
   }
 }
 
+/**
+ * Where to search for transit stops for one trip day
+ */
+function getTransitReference(
+  baseLocation: TripLocation | undefined,
+  activities: Activity[],
+): { lat: number; lon: number } | null {
+  // Prefer the trip's base location (travelers leave from their lodging),
+  // otherwise use the day's first planned activity location as reference
+  if (baseLocation) {
+    return { lat: baseLocation.lat, lon: baseLocation.lng };
+  }
+  if (activities.length > 0) {
+    return { lat: activities[0].place.lat, lon: activities[0].place.lng };
+  }
+  return null;
+}
+
+/**
+ * Collect the worst transit alerts at stops near a reference location
+ */
+async function fetchTransitAlerts(
+  tripId: string,
+  reference: { lat: number; lon: number },
+): Promise<TransitAlert[]> {
+  console.log(
+    `[Transit][${tripId}] Searching for stops near ${reference.lat.toFixed(4)}, ${reference.lon.toFixed(4)}`,
+  );
+
+  // Find nearby transit stops
+  const stops = await transitlandFindStopsNear({
+    lat: reference.lat,
+    lon: reference.lon,
+    radiusM: TRANSIT_STOPS_RADIUS_M,
+    limit: TRANSIT_MAX_STOPS,
+    apiKey: TRANSITLAND_API_KEY,
+    baseUrl: TRANSITLAND_BASE_URL,
+  });
+
+  if (stops.length === 0) {
+    console.log(`[Transit][${tripId}] No transit stops found nearby`);
+    return [];
+  }
+
+  console.log(`[Transit][${tripId}] Found ${stops.length} nearby stops`);
+
+  // Collect alerts from all nearby stops
+  const allAlerts: TransitAlert[] = [];
+
+  for (const stop of stops) {
+    try {
+      console.log(
+        `[Transit][${tripId}] Fetching departures for stop: ${stop.stop_name}`,
+      );
+
+      const departuresResponse = await transitlandGetDepartures({
+        stopKey: stop.stop_key,
+        nextSeconds: TRANSIT_NEXT_SECONDS,
+        includeAlerts: true,
+        apiKey: TRANSITLAND_API_KEY,
+        baseUrl: TRANSITLAND_BASE_URL,
+      });
+
+      const alerts =
+        extractTransitAlertsFromDepartures(departuresResponse);
+      allAlerts.push(...alerts);
+
+      console.log(
+        `[Transit][${tripId}] Extracted ${alerts.length} alerts from ${stop.stop_name}`,
+      );
+    } catch (error) {
+      console.error(
+        `[Transit][${tripId}] Error fetching departures for stop ${stop.stop_key}:`,
+        error,
+      );
+    }
+  }
+
+  // Merge and deduplicate alerts by line
+  const alertsByLine = new Map<string, TransitAlert>();
+  for (const alert of allAlerts) {
+    const existing = alertsByLine.get(alert.line);
+    if (!existing || alert.delayMin > existing.delayMin) {
+      alertsByLine.set(alert.line, alert);
+    }
+  }
+
+  // Sort by delay and keep top 5
+  const finalAlerts = Array.from(alertsByLine.values())
+    .sort((a, b) => b.delayMin - a.delayMin)
+    .slice(0, 5);
+
+  console.log(
+    `[Transit][${tripId}] Final: ${finalAlerts.length} unique alerts`,
+  );
+
+  return finalAlerts;
+}
+
 /**
  * Post transit signals to API
  */
 async function postTransitSignals(
   tripId: string,
-  alerts: Array<{ line: string; delayMin: number; message: string }>,
+  date: string,
+  alerts: TransitAlert[],
 ): Promise<void> {
   try {
     const response = await fetch(
@@ -717,6 +820,7 @@ async function postTransitSignals(
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          date,
           observedAt: new Date().toISOString(),
           transit: {
             alerts,
@@ -1,4 +1,4 @@
-import type { Place } from "@adaptive/types";
+import type { OpeningPeriod, Place } from "@adaptive/types";
 
 /**
  * Foursquare Places API (new format) response types
@@ -17,12 +17,42 @@ interface FoursquarePlace {
     short_name: string;
     plural_name: string;
   }>;
+  hours?: {
+    regular?: Array<{
+      day: number; // 1 = Monday ... 7 = Sunday
+      open: string; // "HHMM"
+      close: string; // "HHMM", prefixed with "+" when it closes the next day
+    }>;
+  };
+  price?: number; // 1 (cheapest) ... 4 (most expensive)
 }
 
 interface FoursquareSearchResponse {
   results: FoursquarePlace[];
 }
 
+// Fields requested from the search endpoint; hours and price are not returned by default
+const SEARCH_FIELDS = "fsq_place_id,name,latitude,longitude,location,categories,hours,price";
+
+/**
+ * Convert Foursquare "HHMM" to "HH:mm"
+ */
+function formatFoursquareTime(value: string): string {
+  return `${value.slice(0, 2)}:${value.slice(2, 4)}`;
+}
+
+/**
+ * Map Foursquare regular hours to opening periods (0 = Sunday).
+ * Periods running past midnight are clipped to the end of their day.
+ */
+function mapOpeningHours(regular: NonNullable<FoursquarePlace["hours"]>["regular"]): OpeningPeriod[] {
+  return (regular ?? []).map((period) => ({
+    day: period.day % 7,
+    open: formatFoursquareTime(period.open),
+    close: period.close.startsWith("+") ? "24:00" : formatFoursquareTime(period.close),
+  }));
+}
+
 /**
  * Search for places using Foursquare Places API (new endpoint)
  * @param query - Search query (e.g., "coffee shops", "museums")
@@ -51,6 +81,7 @@ export async function searchPlacesFoursquare(
     ll: `${near.lat},${near.lng}`,
     radius: String(radiusKm * 1000), // Convert km to meters
     limit: String(limit),
+    fields: SEARCH_FIELDS,
   });
 
   if (categories && categories.length > 0) {
@@ -96,6 +127,14 @@ export async function searchPlacesFoursquare(
         place.category = fsPlace.categories[0].name;
       }
 
+      if (fsPlace.hours?.regular && fsPlace.hours.regular.length > 0) {
+        place.openingHours = mapOpeningHours(fsPlace.hours.regular);
+      }
+
+      if (fsPlace.price !== undefined) {
+        place.priceTier = fsPlace.price;
+      }
+
       return place;
     });
   } catch (error) {
@@ -2,7 +2,27 @@
 export { searchPlacesFoursquare } from "./foursquare.places.js";
 
 // Export Mapbox integration
-export { getDurationMatrixMapbox, getMapboxProfile } from "./mapbox.matrix.js";
+export { getDurationMatrixMapbox, getDurationRowsMapbox, getMapboxProfile } from "./mapbox.matrix.js";
+
+// Export routing providers
+export { createMapboxRoutingProvider } from "./mapbox.routing.js";
+export type { MapboxRoutingOptions } from "./mapbox.routing.js";
+export { createOsrmRoutingProvider } from "./osrm.routing.js";
+export type { OsrmRoutingOptions } from "./osrm.routing.js";
+export { createValhallaRoutingProvider } from "./valhalla.routing.js";
+export type { ValhallaRoutingOptions } from "./valhalla.routing.js";
+export { allIndices } from "./routing.provider.js";
+export type { DurationRequest, LegGeometry, RoutingProvider } from "./routing.provider.js";
+
+// Export duration matrix cache
+export { createDurationMatrixCache, createMemoryMatrixCacheBackend } from "./matrix.cache.js";
+export type {
+  CachedMatrixRequest,
+  DurationMatrixCache,
+  DurationMatrixCacheOptions,
+  MatrixCacheBackend,
+  MatrixCacheStats,
+} from "./matrix.cache.js";
 
 // Export BestTime real-time crowd detection
 export { besttimeNewForecast, besttimeLive } from "./besttime.js";
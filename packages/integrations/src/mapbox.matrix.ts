@@ -3,7 +3,8 @@
  */
 interface MapboxMatrixResponse {
   code: string;
-  durations: number[][];
+  // seconds, null when no route connects the pair
+  durations: (number | null)[][];
   destinations: Array<{
     location: [number, number];
   }>;
@@ -12,18 +13,47 @@ interface MapboxMatrixResponse {
   }>;
 }
 
+// Most coordinates one Matrix API request may carry; driving-traffic allows fewer
+const MAX_COORDINATES_PER_REQUEST = 25;
+const MAX_TRAFFIC_COORDINATES_PER_REQUEST = 10;
+
+// Tile requests in flight at once when a matrix has to be split
+const DEFAULT_TILE_CONCURRENCY = 4;
+
 /**
- * Get travel duration matrix using Mapbox Matrix API
+ * Get travel duration matrix using Mapbox Matrix API.
+ * Matrices with more coordinates than the profile allows per request are
+ * split into source/destination tiles, fetched a few at a time and stitched
+ * back together; any failed tile fails the whole matrix.
  * @param profile - Routing profile (e.g., "mapbox/driving", "mapbox/walking", "mapbox/driving-traffic")
  * @param coordinates - Array of [lng, lat] coordinates
  * @param accessToken - Mapbox access token
- * @returns Duration matrix in seconds (sources x destinations)
+ * @param concurrency - Most tile requests in flight at once
+ * @returns Duration matrix in seconds (sources x destinations), null where no route connects a pair
  */
 export async function getDurationMatrixMapbox(
   profile: string,
   coordinates: Array<{ lat: number; lng: number }>,
-  accessToken: string = ""
-): Promise<number[][]> {
+  accessToken: string = "",
+  concurrency: number = DEFAULT_TILE_CONCURRENCY
+): Promise<(number | null)[][]> {
+  const all = coordinates.map((_, index) => index);
+  return getDurationRowsMapbox(profile, coordinates, all, all, accessToken, concurrency);
+}
+
+/**
+ * Get part of a duration matrix: travel from each of `sourceIndices` to each
+ * of `destinationIndices`. Tiled like getDurationMatrixMapbox when needed.
+ * @returns One row per source index and one column per destination index, in seconds or null
+ */
+export async function getDurationRowsMapbox(
+  profile: string,
+  coordinates: Array<{ lat: number; lng: number }>,
+  sourceIndices: number[],
+  destinationIndices: number[],
+  accessToken: string = "",
+  concurrency: number = DEFAULT_TILE_CONCURRENCY
+): Promise<(number | null)[][]> {
   if (!accessToken) {
     throw new Error("Mapbox access token is required");
   }
@@ -32,26 +62,76 @@ export async function getDurationMatrixMapbox(
     throw new Error("At least 2 coordinates are required");
   }
 
-  if (coordinates.length > 25) {
-    throw new Error("Mapbox Matrix API supports a maximum of 25 coordinates");
+  const isFullMatrix =
+    sourceIndices.length === coordinates.length && destinationIndices.length === coordinates.length;
+  const limit =
+    profile === "mapbox/driving-traffic" ? MAX_TRAFFIC_COORDINATES_PER_REQUEST : MAX_COORDINATES_PER_REQUEST;
+  if (coordinates.length <= limit) {
+    return isFullMatrix
+      ? requestMatrixTile(profile, coordinates, accessToken)
+      : requestMatrixTile(profile, coordinates, accessToken, sourceIndices, destinationIndices);
   }
 
-  // IMPORTANT: driving-traffic profile has a lower limit (10 coords) than other profiles (25 coords)
-  // If using driving-traffic with more than 10 coords, fallback to standard driving
-  let actualProfile = profile;
-  if (profile === "mapbox/driving-traffic" && coordinates.length > 10) {
-    console.log(
-      `Mapbox: falling back from driving-traffic to driving (${coordinates.length} coords > 10)`
+  // Each tile pairs a block of sources with a block of destinations; two
+  // blocks of half the limit always fit in one request
+  const blockSize = Math.floor(limit / 2);
+  const toBlocks = (indices: number[]) => {
+    const blocks: number[][] = [];
+    for (let first = 0; first < indices.length; first += blockSize) {
+      blocks.push(indices.slice(first, first + blockSize));
+    }
+    return blocks;
+  };
+  const destinationBlocks = toBlocks(destinationIndices);
+  // For a full matrix the source blocks are the destination blocks, so diagonal tiles can share coordinates
+  const sourceBlocks = isFullMatrix ? destinationBlocks : toBlocks(sourceIndices);
+  const tiles = sourceBlocks.flatMap((sources) => destinationBlocks.map((destinations) => ({ sources, destinations })));
+  console.log(
+    `Mapbox: splitting ${sourceIndices.length}x${destinationIndices.length} ${profile} matrix into ${tiles.length} tiles`
+  );
+
+  const rowOf = new Map(sourceIndices.map((index, row) => [index, row]));
+  const columnOf = new Map(destinationIndices.map((index, column) => [index, column]));
+  const rows: (number | null)[][] = sourceIndices.map(() => new Array<number | null>(destinationIndices.length));
+  await mapWithConcurrency(tiles, concurrency, async ({ sources, destinations }) => {
+    // A diagonal tile pairs a block with itself and only needs its coordinates once
+    const indices = sources === destinations ? sources : [...sources, ...destinations];
+    const durations = await requestMatrixTile(
+      profile,
+      indices.map((index) => coordinates[index]),
+      accessToken,
+      sources.map((_, i) => i),
+      destinations.map((_, i) => (sources === destinations ? i : sources.length + i))
     );
-    actualProfile = "mapbox/driving";
-  }
+    sources.forEach((from, i) => {
+      destinations.forEach((to, j) => {
+        rows[rowOf.get(from)!][columnOf.get(to)!] = durations[i][j];
+      });
+    });
+  });
 
+  return rows;
+}
+
+/**
+ * One Matrix API request; without sources/destinations every coordinate is both
+ */
+async function requestMatrixTile(
+  profile: string,
+  coordinates: Array<{ lat: number; lng: number }>,
+  accessToken: string,
+  sources?: number[],
+  destinations?: number[]
+): Promise<(number | null)[][]> {
   // Format coordinates as "lng,lat;lng,lat;..." (note: lng comes first!)
   const coordsString = coordinates
     .map((coord) => `${coord.lng},${coord.lat}`)
     .join(";");
 
-  const url = `https://api.mapbox.com/directions-matrix/v1/${actualProfile}/${coordsString}?annotations=duration&access_token=${accessToken}`;
+  const tileParams =
+    (sources ? `&sources=${sources.join(";")}` : "") + (destinations ? `&destinations=${destinations.join(";")}` : "");
+
+  const url = `https://api.mapbox.com/directions-matrix/v1/${profile}/${coordsString}?annotations=duration${tileParams}&access_token=${accessToken}`;
 
   console.log("Mapbox API URL:", url.substring(0, 100) + "...");
 
@@ -86,6 +166,25 @@ export async function getDurationMatrixMapbox(
   }
 }
 
+/**
+ * Run `task` over every item with at most `concurrency` running at once;
+ * rejects with the first failure
+ */
+async function mapWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+}
+
 /**
  * Helper function to get valid Mapbox profile from mode
  * @param mode - Travel mode (walking, driving, transit)
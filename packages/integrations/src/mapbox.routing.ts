@@ -0,0 +1,73 @@
+/**
+ * Mapbox routing provider - Matrix API durations and Directions API leg shapes
+ */
+import type { TravelMode } from "@adaptive/types";
+import { getDurationRowsMapbox, getMapboxProfile } from "./mapbox.matrix.js";
+import { allIndices, type RoutingProvider } from "./routing.provider.js";
+
+interface MapboxDirectionsResponse {
+  code: string;
+  routes: Array<{
+    duration: number;
+    distance: number;
+    geometry: { coordinates: Array<[number, number]> };
+  }>;
+}
+
+export interface MapboxRoutingOptions {
+  accessToken: string;
+  /** Profile used for driving, e.g. "mapbox/driving-traffic" */
+  trafficProfile?: string;
+  /** Most matrix tile requests in flight at once */
+  concurrency?: number;
+}
+
+export function createMapboxRoutingProvider(options: MapboxRoutingOptions): RoutingProvider {
+  const { accessToken, trafficProfile, concurrency } = options;
+  const profileFor = (mode: TravelMode) => getMapboxProfile(mode, trafficProfile);
+
+  return {
+    name: "mapbox",
+
+    profileKey: profileFor,
+
+    isTrafficAware(mode) {
+      return profileFor(mode).includes("traffic");
+    },
+
+    async getDurations({ coordinates, sources, destinations, mode }) {
+      return getDurationRowsMapbox(
+        profileFor(mode),
+        coordinates,
+        sources ?? allIndices(coordinates),
+        destinations ?? allIndices(coordinates),
+        accessToken,
+        concurrency
+      );
+    },
+
+    async getLegGeometry(from, to, mode) {
+      const url =
+        `https://api.mapbox.com/directions/v5/${profileFor(mode)}/${from.lng},${from.lat};${to.lng},${to.lat}` +
+        `?geometries=geojson&overview=full&access_token=${accessToken}`;
+
+      const response = await fetch(url, { headers: { Accept: "application/json" } });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Mapbox Directions API error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as MapboxDirectionsResponse;
+      if (data.code !== "Ok" || data.routes.length === 0) {
+        throw new Error(`Mapbox Directions API returned code: ${data.code}`);
+      }
+
+      const [route] = data.routes;
+      return {
+        coordinates: route.geometry.coordinates,
+        durationSec: route.duration,
+        distanceM: route.distance,
+      };
+    },
+  };
+}
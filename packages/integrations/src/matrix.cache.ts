@@ -0,0 +1,201 @@
+/**
+ * Duration matrix cache - reuse routed travel times across itinerary generations
+ *
+ * Cells are keyed by the provider's routing profile, departure-hour bucket and both
+ * endpoints' coordinates rounded to about 10 m, so a matrix over a slightly
+ * different set of stops still reuses every leg it shares with earlier ones.
+ * Only traffic-aware profiles depend on the departure time; the others share
+ * one bucket for the whole day. On a partial hit only the missing rows are
+ * fetched: full rows for stops the cache has not seen, and for known stops
+ * just the legs to the new ones.
+ */
+import type { LatLng, TravelMode } from "@adaptive/types";
+import type { RoutingProvider } from "./routing.provider.js";
+
+// Coordinates are rounded to this many decimal places (~11 m) for cache keys
+const COORDINATE_PRECISION = 4;
+
+/**
+ * Where cached durations live; failures are logged and treated as misses
+ */
+export interface MatrixCacheBackend {
+  /** Unexpired durations in seconds for the given keys; missing or expired keys are absent */
+  getMany(keys: string[], now: Date): Promise<Map<string, number>>;
+  /** Store durations until `expiresAt`, replacing any existing entries */
+  setMany(entries: Map<string, number>, expiresAt: Date): Promise<void>;
+}
+
+export interface MatrixCacheStats {
+  /** Matrix requests answered */
+  requests: number;
+  /** Requests answered without calling the provider */
+  fullHits: number;
+  /** Matrix cells found in the cache */
+  cellHits: number;
+  /** Matrix cells that had to be fetched */
+  cellMisses: number;
+  /** Matrix elements (source/destination pairs) requested from providers */
+  elementsFetched: number;
+}
+
+export interface DurationMatrixCacheOptions {
+  /** How long a fetched duration stays valid */
+  ttlMs: number;
+  /** Width of a departure-time bucket for traffic-aware profiles */
+  bucketHours: number;
+}
+
+export interface CachedMatrixRequest {
+  provider: RoutingProvider;
+  mode: TravelMode;
+  coordinates: LatLng[];
+  /** Departure time in minutes since midnight; picks the traffic bucket */
+  departMin?: number;
+}
+
+export interface DurationMatrixCache {
+  /** Duration matrix in seconds, null where there is no route; from the cache where possible */
+  getDurationMatrix(request: CachedMatrixRequest): Promise<(number | null)[][]>;
+  /** Counters since the cache was created */
+  getStats(): MatrixCacheStats;
+}
+
+/**
+ * Backend that keeps entries in process memory; lost on restart
+ */
+export function createMemoryMatrixCacheBackend(): MatrixCacheBackend {
+  const entries = new Map<string, { durationSec: number; expiresAt: number }>();
+
+  return {
+    async getMany(keys, now) {
+      const found = new Map<string, number>();
+      for (const key of keys) {
+        const entry = entries.get(key);
+        if (!entry) continue;
+        if (entry.expiresAt <= now.getTime()) {
+          entries.delete(key);
+          continue;
+        }
+        found.set(key, entry.durationSec);
+      }
+      return found;
+    },
+
+    async setMany(newEntries, expiresAt) {
+      for (const [key, durationSec] of newEntries) {
+        entries.set(key, { durationSec, expiresAt: expiresAt.getTime() });
+      }
+    },
+  };
+}
+
+/**
+ * Create a duration matrix cache over the given backend
+ */
+export function createDurationMatrixCache(
+  backend: MatrixCacheBackend,
+  options: DurationMatrixCacheOptions
+): DurationMatrixCache {
+  const stats: MatrixCacheStats = { requests: 0, fullHits: 0, cellHits: 0, cellMisses: 0, elementsFetched: 0 };
+
+  async function readCache(keys: string[], now: Date): Promise<Map<string, number>> {
+    try {
+      return await backend.getMany(keys, now);
+    } catch (error) {
+      console.warn("[MatrixCache] Lookup failed, fetching the whole matrix:", error);
+      return new Map();
+    }
+  }
+
+  async function writeCache(entries: Map<string, number>, expiresAt: Date): Promise<void> {
+    try {
+      await backend.setMany(entries, expiresAt);
+    } catch (error) {
+      console.warn("[MatrixCache] Failed to store fetched durations:", error);
+    }
+  }
+
+  return {
+    async getDurationMatrix({ provider, mode, coordinates, departMin }) {
+      const now = new Date();
+      const profile = provider.profileKey(mode);
+      const bucket = departureBucket(provider.isTrafficAware(mode), departMin, options.bucketHours);
+      const points = coordinates.map(roundCoordinate);
+      const keyOf = (from: number, to: number) => `${profile}|${bucket}|${points[from]}|${points[to]}`;
+
+      const keys: string[] = [];
+      for (let i = 0; i < coordinates.length; i++) {
+        for (let j = 0; j < coordinates.length; j++) {
+          if (i !== j) keys.push(keyOf(i, j));
+        }
+      }
+      const cached = await readCache(keys, now);
+
+      const matrix: (number | null)[][] = coordinates.map((_, i) =>
+        coordinates.map((_, j) => (i === j ? 0 : cached.get(keyOf(i, j)) ?? Number.NaN))
+      );
+      stats.requests++;
+      stats.cellHits += cached.size;
+      stats.cellMisses += keys.length - cached.size;
+      if (cached.size === keys.length) {
+        stats.fullHits++;
+        return matrix;
+      }
+
+      // Stops with nothing cached from them are new: fetch their whole rows. A
+      // known stop missing a leg to another known stop (e.g. one expired) is
+      // refetched whole too; the rest only lack legs to the new stops.
+      const all = coordinates.map((_, index) => index);
+      const isMissing = (i: number, j: number) => Number.isNaN(matrix[i][j]);
+      const newPoints = all.filter((i) => all.every((j) => i === j || isMissing(i, j)));
+      const isNew = new Set(newPoints);
+      const fullRows = all.filter((i) => isNew.has(i) || all.some((j) => !isNew.has(j) && isMissing(i, j)));
+      const partialRows = all.filter((i) => !fullRows.includes(i) && newPoints.some((j) => isMissing(i, j)));
+
+      const blocks = [
+        { sources: fullRows, destinations: all },
+        { sources: partialRows, destinations: newPoints },
+      ].filter((block) => block.sources.length > 0 && block.destinations.length > 0);
+      const results = await Promise.all(
+        blocks.map(({ sources, destinations }) => provider.getDurations({ coordinates, sources, destinations, mode }))
+      );
+
+      const fetched = new Map<string, number>();
+      blocks.forEach(({ sources, destinations }, block) => {
+        stats.elementsFetched += sources.length * destinations.length;
+        sources.forEach((from, row) => {
+          destinations.forEach((to, column) => {
+            if (from === to) return;
+            const durationSec = results[block][row][column];
+            matrix[from][to] = durationSec;
+            // Unroutable pairs come back as null and are not worth remembering
+            if (typeof durationSec === "number") {
+              fetched.set(keyOf(from, to), durationSec);
+            }
+          });
+        });
+      });
+      await writeCache(fetched, new Date(now.getTime() + options.ttlMs));
+
+      return matrix;
+    },
+
+    getStats() {
+      return { ...stats };
+    },
+  };
+}
+
+function roundCoordinate(coord: LatLng): string {
+  return `${coord.lat.toFixed(COORDINATE_PRECISION)},${coord.lng.toFixed(COORDINATE_PRECISION)}`;
+}
+
+/**
+ * Cache bucket for a departure time: traffic-aware profiles get one bucket
+ * per `bucketHours` of the day, everything else a single all-day bucket
+ */
+function departureBucket(trafficAware: boolean, departMin: number | undefined, bucketHours: number): string {
+  if (!trafficAware || departMin === undefined) return "any";
+  const hour = Math.floor(departMin / 60);
+  return `h${hour - (hour % bucketHours)}`;
+}
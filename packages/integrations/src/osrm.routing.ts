@@ -0,0 +1,98 @@
+/**
+ * OSRM routing provider - a self-hosted osrm-routed HTTP endpoint
+ *
+ * osrm-routed serves the one profile its data was prepared with, so a local
+ * container usually answers every mode with the same (car or foot) network.
+ */
+import type { TravelMode } from "@adaptive/types";
+import { allIndices, type RoutingProvider } from "./routing.provider.js";
+
+// OSRM has no transit profile; transit legs are routed like driving
+const DEFAULT_OSRM_PROFILES: Record<TravelMode, string> = {
+  driving: "driving",
+  walking: "foot",
+  transit: "driving",
+};
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  // seconds, null when the pair is unreachable
+  durations: (number | null)[][];
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes: Array<{
+    duration: number;
+    distance: number;
+    geometry: { coordinates: Array<[number, number]> };
+  }>;
+}
+
+export interface OsrmRoutingOptions {
+  /** e.g. "http://localhost:5000" */
+  baseUrl: string;
+  /** Profile names per mode, when the server uses others than the defaults */
+  profiles?: Partial<Record<TravelMode, string>>;
+}
+
+export function createOsrmRoutingProvider(options: OsrmRoutingOptions): RoutingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const profiles = { ...DEFAULT_OSRM_PROFILES, ...options.profiles };
+
+  async function request<T extends { code: string; message?: string }>(url: string): Promise<T> {
+    const response = await fetch(url, { headers: { Accept: "application/json" } });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OSRM error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+    const data = (await response.json()) as T;
+    if (data.code !== "Ok") {
+      throw new Error(`OSRM returned code: ${data.code}${data.message ? ` - ${data.message}` : ""}`);
+    }
+    return data;
+  }
+
+  return {
+    name: "osrm",
+
+    profileKey(mode) {
+      return `osrm:${baseUrl}/${profiles[mode]}`;
+    },
+
+    isTrafficAware() {
+      return false;
+    },
+
+    async getDurations({ coordinates, sources, destinations, mode }) {
+      const coordsString = coordinates.map((coord) => `${coord.lng},${coord.lat}`).join(";");
+      const url =
+        `${baseUrl}/table/v1/${profiles[mode]}/${coordsString}?annotations=duration` +
+        `&sources=${(sources ?? allIndices(coordinates)).join(";")}` +
+        `&destinations=${(destinations ?? allIndices(coordinates)).join(";")}`;
+
+      const data = await request<OsrmTableResponse>(url);
+      return data.durations;
+    },
+
+    async getLegGeometry(from, to, mode) {
+      const url =
+        `${baseUrl}/route/v1/${profiles[mode]}/${from.lng},${from.lat};${to.lng},${to.lat}` +
+        `?overview=full&geometries=geojson`;
+
+      const data = await request<OsrmRouteResponse>(url);
+      if (data.routes.length === 0) {
+        throw new Error("OSRM found no route");
+      }
+
+      const [route] = data.routes;
+      return {
+        coordinates: route.geometry.coordinates,
+        durationSec: route.duration,
+        distanceM: route.distance,
+      };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Routing provider - the travel-time and route-shape backend behind planning
+ *
+ * Implementations: Mapbox (hosted), OSRM and Valhalla (self-hosted HTTP
+ * endpoints). The API adds a haversine estimate provider for offline use.
+ */
+import type { LatLng, RoutingProviderName, TravelMode } from "@adaptive/types";
+
+export interface DurationRequest {
+  coordinates: LatLng[];
+  /** Rows wanted, as coordinate indices; every coordinate when omitted */
+  sources?: number[];
+  /** Columns wanted, as coordinate indices; every coordinate when omitted */
+  destinations?: number[];
+  mode: TravelMode;
+}
+
+export interface LegGeometry {
+  /** Path from start to end as [lng, lat] pairs (GeoJSON order) */
+  coordinates: Array<[number, number]>;
+  durationSec: number;
+  distanceM: number;
+}
+
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+  /** The backend profile a travel mode maps to; distinguishes cache entries */
+  profileKey(mode: TravelMode): string;
+  /** Whether durations for a mode follow live traffic, and so the departure time */
+  isTrafficAware(mode: TravelMode): boolean;
+  /** Travel times in seconds, null where there is no route; rows follow `sources`, columns `destinations` */
+  getDurations(request: DurationRequest): Promise<(number | null)[][]>;
+  /** Route shape, duration and length of a single leg */
+  getLegGeometry(from: LatLng, to: LatLng, mode: TravelMode): Promise<LegGeometry>;
+}
+
+/**
+ * Every coordinate index, for requests that leave sources or destinations out
+ */
+export function allIndices(coordinates: LatLng[]): number[] {
+  return coordinates.map((_, index) => index);
+}
@@ -0,0 +1,114 @@
+/**
+ * Valhalla routing provider - a self-hosted Valhalla HTTP endpoint
+ */
+import type { LatLng, TravelMode } from "@adaptive/types";
+import { allIndices, type RoutingProvider } from "./routing.provider.js";
+
+// Valhalla's matrix has no multimodal costing; transit legs are routed like driving
+const VALHALLA_COSTING: Record<TravelMode, string> = {
+  driving: "auto",
+  walking: "pedestrian",
+  transit: "auto",
+};
+
+// Valhalla encodes route shapes as polylines with 6 decimal places
+const SHAPE_PRECISION = 1e6;
+
+interface ValhallaMatrixResponse {
+  // time in seconds, null when the pair is unreachable
+  sources_to_targets: Array<Array<{ time: number | null; distance: number | null }>>;
+}
+
+interface ValhallaRouteResponse {
+  trip: {
+    summary: { time: number; length: number }; // seconds, kilometers
+    legs: Array<{ shape: string }>;
+  };
+}
+
+export interface ValhallaRoutingOptions {
+  /** e.g. "http://localhost:8002" */
+  baseUrl: string;
+}
+
+export function createValhallaRoutingProvider(options: ValhallaRoutingOptions): RoutingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const toLocation = (coord: LatLng) => ({ lat: coord.lat, lon: coord.lng });
+
+  async function post<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Valhalla error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    name: "valhalla",
+
+    profileKey(mode) {
+      return `valhalla:${baseUrl}/${VALHALLA_COSTING[mode]}`;
+    },
+
+    isTrafficAware() {
+      return false;
+    },
+
+    async getDurations({ coordinates, sources, destinations, mode }) {
+      const data = await post<ValhallaMatrixResponse>("/sources_to_targets", {
+        sources: (sources ?? allIndices(coordinates)).map((index) => toLocation(coordinates[index])),
+        targets: (destinations ?? allIndices(coordinates)).map((index) => toLocation(coordinates[index])),
+        costing: VALHALLA_COSTING[mode],
+      });
+      return data.sources_to_targets.map((row) => row.map((cell) => cell.time));
+    },
+
+    async getLegGeometry(from, to, mode) {
+      const data = await post<ValhallaRouteResponse>("/route", {
+        locations: [toLocation(from), toLocation(to)],
+        costing: VALHALLA_COSTING[mode],
+        directions_options: { units: "kilometers" },
+      });
+
+      return {
+        coordinates: data.trip.legs.flatMap((leg) => decodePolyline(leg.shape)),
+        durationSec: data.trip.summary.time,
+        distanceM: data.trip.summary.length * 1000,
+      };
+    },
+  };
+}
+
+/**
+ * Decode an encoded polyline into [lng, lat] pairs
+ */
+function decodePolyline(encoded: string): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lng / SHAPE_PRECISION, lat / SHAPE_PRECISION]);
+  }
+  return points;
+}
@@ -0,0 +1,83 @@
+-- CreateTable
+CREATE TABLE "Trip" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "city" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "preferences" TEXT NOT NULL,
+    "lastSuggestionAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "Activity" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tripId" TEXT NOT NULL,
+    "place" TEXT NOT NULL,
+    "durationMin" INTEGER NOT NULL,
+    "locked" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL,
+    "addedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Activity_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ItineraryVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tripId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "itinerary" TEXT NOT NULL,
+    "generatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ItineraryVersion_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Suggestion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tripId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "trigger" TEXT NOT NULL DEFAULT 'mixed',
+    "reasons" TEXT NOT NULL,
+    "confidence" REAL NOT NULL,
+    "impact" TEXT,
+    "beforePlan" TEXT NOT NULL,
+    "afterPlan" TEXT NOT NULL,
+    "diff" TEXT,
+    "createdAt" TEXT NOT NULL,
+    CONSTRAINT "Suggestion_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TripSignal" (
+    "tripId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "observedAt" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "raw" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("tripId", "type"),
+    CONSTRAINT "TripSignal_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TripWeights" (
+    "tripId" TEXT NOT NULL PRIMARY KEY,
+    "weatherWeight" REAL NOT NULL DEFAULT 1,
+    "crowdWeight" REAL NOT NULL DEFAULT 1,
+    "transitWeight" REAL NOT NULL DEFAULT 1,
+    "travelWeight" REAL NOT NULL DEFAULT 1,
+    "changeAversion" REAL NOT NULL DEFAULT 1,
+    CONSTRAINT "TripWeights_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Activity_tripId_position_idx" ON "Activity"("tripId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ItineraryVersion_tripId_version_key" ON "ItineraryVersion"("tripId", "version");
+
+-- CreateIndex
+CREATE INDEX "Suggestion_tripId_status_idx" ON "Suggestion"("tripId", "status");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ItineraryVersion" ADD COLUMN "fromVersion" INTEGER;
+ALTER TABLE "ItineraryVersion" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'generated';
+ALTER TABLE "ItineraryVersion" ADD COLUMN "suggestionId" TEXT;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "date" TEXT;
+
+-- AlterTable
+ALTER TABLE "ItineraryVersion" ADD COLUMN "date" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "Suggestion" ADD COLUMN "date" TEXT;
+
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN "days" TEXT NOT NULL DEFAULT '[]';
+
+-- Backfill: existing trips are single-day trips
+UPDATE "Trip" SET "days" = json_array(json_object('date', "date", 'startTime', "startTime", 'endTime', "endTime"));
+UPDATE "ItineraryVersion" SET "date" = (SELECT "date" FROM "Trip" WHERE "Trip"."id" = "ItineraryVersion"."tripId");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_TripSignal" (
+    "tripId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "date" TEXT NOT NULL DEFAULT '',
+    "observedAt" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "raw" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("tripId", "type", "date"),
+    CONSTRAINT "TripSignal_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_TripSignal" ("tripId", "type", "date", "observedAt", "payload", "raw", "updatedAt")
+SELECT "TripSignal"."tripId", "TripSignal"."type", "Trip"."date", "TripSignal"."observedAt", "TripSignal"."payload", "TripSignal"."raw", "TripSignal"."updatedAt"
+FROM "TripSignal" JOIN "Trip" ON "Trip"."id" = "TripSignal"."tripId";
+DROP TABLE "TripSignal";
+ALTER TABLE "new_TripSignal" RENAME TO "TripSignal";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ItineraryVersion_tripId_date_version_idx" ON "ItineraryVersion"("tripId", "date", "version");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Trip" ADD COLUMN "baseLocation" TEXT;
+ALTER TABLE "Trip" ADD COLUMN "endLocation" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "openingHours" TEXT;
+ALTER TABLE "Activity" ADD COLUMN "earliestStart" TEXT;
+ALTER TABLE "Activity" ADD COLUMN "latestEnd" TEXT;
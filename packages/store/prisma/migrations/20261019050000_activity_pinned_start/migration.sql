@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "pinnedStart" TEXT;
+ALTER TABLE "Activity" ADD COLUMN "pinToleranceMin" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "priority" TEXT;
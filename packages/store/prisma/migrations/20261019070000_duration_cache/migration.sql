@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "DurationCacheEntry" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "durationSec" REAL NOT NULL,
+    "expiresAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "DurationCacheEntry_expiresAt_idx" ON "DurationCacheEntry"("expiresAt");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "ItineraryVersion" ADD COLUMN "objective" TEXT;
+
+-- CreateTable
+CREATE TABLE "PlanCandidate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tripId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "baseVersion" INTEGER,
+    "objective" TEXT NOT NULL,
+    "itinerary" TEXT NOT NULL,
+    "score" TEXT NOT NULL,
+    "tradeoffs" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlanCandidate_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PlanCandidate_tripId_date_idx" ON "PlanCandidate"("tripId", "date");
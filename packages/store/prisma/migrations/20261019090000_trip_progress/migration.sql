@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ActivityVisit" (
+    "tripId" TEXT NOT NULL,
+    "activityId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "category" TEXT,
+    "plannedStart" TEXT,
+    "plannedEnd" TEXT,
+    "checkedInAt" DATETIME NOT NULL,
+    "checkedOutAt" DATETIME,
+    "actualDurationMin" INTEGER,
+
+    PRIMARY KEY ("tripId", "activityId", "date"),
+    CONSTRAINT "ActivityVisit_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "LocationPing" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tripId" TEXT NOT NULL,
+    "lat" REAL NOT NULL,
+    "lng" REAL NOT NULL,
+    "recordedAt" DATETIME NOT NULL,
+    CONSTRAINT "LocationPing_tripId_fkey" FOREIGN KEY ("tripId") REFERENCES "Trip" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ActivityVisit_category_idx" ON "ActivityVisit"("category");
+
+-- CreateIndex
+CREATE INDEX "LocationPing_tripId_recordedAt_idx" ON "LocationPing"("tripId", "recordedAt");
@@ -1,19 +1,57 @@
 // Export all Zod schemas
 export {
   LatLngSchema,
+  OpeningPeriodSchema,
   PlaceSchema,
+  PaceSchema,
+  BudgetSchema,
   TripPreferencesSchema,
+  MAX_TRIP_DAYS,
+  TripDaySchema,
+  TripLocationSchema,
   CreateTripRequestSchema,
   CreateTripResponseSchema,
   TripSchema,
+  UpdateTripLocationsRequestSchema,
+  ActivityPrioritySchema,
   ActivityInputSchema,
   ActivitySchema,
   AddActivitiesRequestSchema,
   AddActivitiesResponseSchema,
+  UpdateActivityRequestSchema,
+  ActivityResponseSchema,
+  ReorderActivitiesRequestSchema,
+  ListActivitiesResponseSchema,
+  TravelModeSchema,
+  RoutingProviderNameSchema,
   ItineraryItemSchema,
+  ItineraryOptimizationSchema,
+  UnscheduledReasonSchema,
+  UnscheduledActivitySchema,
+  PinConflictSchema,
+  PreferenceEffectsSchema,
   ItinerarySchema,
+  MealWindowSchema,
+  BreakOptionsSchema,
+  SmartModeOptionsSchema,
   GenerateItineraryRequestSchema,
   GenerateItineraryResponseSchema,
+  PlanObjectiveSchema,
+  PlanScoreSchema,
+  PlanCandidateSchema,
+  GenerateAlternativesRequestSchema,
+  GenerateAlternativesResponseSchema,
+  ItinerarySourceSchema,
+  ItineraryVersionSchema,
+  ListItineraryVersionsResponseSchema,
+  RollbackItineraryRequestSchema,
+  RollbackItineraryResponseSchema,
+  RemoveBreakResponseSchema,
+  SelectAlternativeResponseSchema,
+  ReplanItineraryRequestSchema,
+  ReplanItineraryResponseSchema,
+  RouteLegSchema,
+  ItineraryRouteResponseSchema,
   GetTripResponseSchema,
   PlacesSearchRequestSchema,
   PlacesSearchResponseSchema,
@@ -33,28 +71,78 @@ export {
   SuggestionPlanSchema,
   SuggestionSchema,
   ListSuggestionsResponseSchema,
+  ActivityVisitSchema,
+  LocationPingSchema,
+  CheckInRequestSchema,
+  CheckOutRequestSchema,
+  LocationPingRequestSchema,
+  TripProgressSchema,
+  TripProgressResponseSchema,
   FeedbackRequestSchema,
   WeightsSchema,
   FeedbackResponseSchema,
+  ItineraryDiffResponseSchema,
   ApplySuggestionResponseSchema,
+  ItineraryIssueCodeSchema,
+  ItineraryIssueSchema,
+  ItineraryValidationSchema,
+  ValidateItineraryRequestSchema,
+  ValidateItineraryResponseSchema,
 } from "./schemas.js";
 
 // Export all inferred TypeScript types
 export type {
   LatLng,
+  OpeningPeriod,
   Place,
+  Pace,
+  Budget,
   TripPreferences,
+  TripDay,
+  TripLocation,
   CreateTripRequest,
   CreateTripResponse,
   Trip,
+  UpdateTripLocationsRequest,
+  ActivityPriority,
   ActivityInput,
   Activity,
   AddActivitiesRequest,
   AddActivitiesResponse,
+  UpdateActivityRequest,
+  ActivityResponse,
+  ReorderActivitiesRequest,
+  ListActivitiesResponse,
+  TravelMode,
+  RoutingProviderName,
   ItineraryItem,
+  ItineraryOptimization,
+  UnscheduledReason,
+  UnscheduledActivity,
+  PinConflict,
+  PreferenceEffects,
   Itinerary,
+  MealWindow,
+  BreakOptions,
+  SmartModeOptions,
   GenerateItineraryRequest,
   GenerateItineraryResponse,
+  PlanObjective,
+  PlanScore,
+  PlanCandidate,
+  GenerateAlternativesRequest,
+  GenerateAlternativesResponse,
+  ItinerarySource,
+  ItineraryVersion,
+  ListItineraryVersionsResponse,
+  RollbackItineraryRequest,
+  RollbackItineraryResponse,
+  RemoveBreakResponse,
+  SelectAlternativeResponse,
+  ReplanItineraryRequest,
+  ReplanItineraryResponse,
+  RouteLeg,
+  ItineraryRouteResponse,
   GetTripResponse,
   PlacesSearchRequest,
   PlacesSearchResponse,
@@ -76,10 +164,23 @@ export type {
   SuggestionPlan,
   Suggestion,
   ListSuggestionsResponse,
+  ActivityVisit,
+  LocationPing,
+  CheckInRequest,
+  CheckOutRequest,
+  LocationPingRequest,
+  TripProgress,
+  TripProgressResponse,
   FeedbackRequest,
   Weights,
   FeedbackResponse,
+  ItineraryDiffResponse,
   ApplySuggestionResponse,
+  ItineraryIssueCode,
+  ItineraryIssue,
+  ItineraryValidation,
+  ValidateItineraryRequest,
+  ValidateItineraryResponse,
 } from "./schemas.js";
 
 // Legacy types (for future phases)
@@ -7,6 +7,13 @@ export const LatLngSchema = z.object({
   lng: z.number().min(-180).max(180),
 });
 
+// One weekly opening period; day 0 = Sunday ... 6 = Saturday, close "24:00" = midnight
+export const OpeningPeriodSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  open: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
+  close: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
+});
+
 export const PlaceSchema = z.object({
   provider: z.string(),
   providerPlaceId: z.string(),
@@ -16,25 +23,66 @@ export const PlaceSchema = z.object({
   category: z.string().optional(),
   isIndoor: z.boolean().optional(),
   address: z.string().optional(),
+  openingHours: z.array(OpeningPeriodSchema).optional(), // from the place provider, when known
+  priceTier: z.number().int().min(1).max(4).optional(), // provider price level, 1 = cheapest
 });
 
 // ===== Trip Schemas =====
 
+export const PaceSchema = z.enum(["slow", "medium", "fast"]);
+export const BudgetSchema = z.enum(["low", "medium", "high"]);
+
 export const TripPreferencesSchema = z.object({
-  pace: z.enum(["slow", "medium", "fast"]),
+  pace: PaceSchema,
   interests: z.array(z.string()),
   avoid: z.array(z.string()),
-  budget: z.enum(["low", "medium", "high"]),
+  budget: BudgetSchema,
+});
+
+// A fixed point the day starts or ends at, e.g. the traveler's hotel
+export const TripLocationSchema = LatLngSchema.extend({
+  name: z.string().optional(),
+  address: z.string().optional(),
 });
 
-export const CreateTripRequestSchema = z.object({
-  city: z.string().min(1),
+// Longest date range a single trip may span
+export const MAX_TRIP_DAYS = 14;
+
+export const TripDaySchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
   startTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
   endTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
-  preferences: TripPreferencesSchema,
 });
 
+export const CreateTripRequestSchema = z
+  .object({
+    city: z.string().min(1),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"), // first day
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(), // last day, inclusive
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"), // default for every day
+    endTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"), // default for every day
+    days: z.array(TripDaySchema).optional(), // per-day start/end overrides
+    baseLocation: TripLocationSchema.optional(), // lodging; each day starts here
+    endLocation: TripLocationSchema.optional(), // where each day ends; defaults to baseLocation
+    preferences: TripPreferencesSchema,
+  })
+  .superRefine((data, ctx) => {
+    const endDate = data.endDate ?? data.date;
+    if (endDate < data.date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "endDate must not be before date" });
+      return;
+    }
+    const spanDays = (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${data.date}T00:00:00Z`)) / 86_400_000 + 1;
+    if (spanDays > MAX_TRIP_DAYS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: `A trip may span at most ${MAX_TRIP_DAYS} days` });
+    }
+    for (const [index, day] of (data.days ?? []).entries()) {
+      if (day.date < data.date || day.date > endDate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["days", index, "date"], message: "Day is outside the trip's date range" });
+      }
+    }
+  });
+
 export const CreateTripResponseSchema = z.object({
   tripId: z.string(),
 });
@@ -42,19 +90,42 @@ export const CreateTripResponseSchema = z.object({
 export const TripSchema = z.object({
   tripId: z.string(),
   city: z.string(),
-  date: z.string(),
+  date: z.string(), // first day
   startTime: z.string(),
   endTime: z.string(),
+  days: z.array(TripDaySchema), // every day of the trip, in order
+  baseLocation: TripLocationSchema.optional(),
+  endLocation: TripLocationSchema.optional(),
   preferences: TripPreferencesSchema,
   createdAt: z.string(),
 });
 
+// null clears a location, omitted leaves it unchanged
+export const UpdateTripLocationsRequestSchema = z
+  .object({
+    baseLocation: TripLocationSchema.nullable().optional(),
+    endLocation: TripLocationSchema.nullable().optional(),
+  })
+  .refine((data) => data.baseLocation !== undefined || data.endLocation !== undefined, {
+    message: "At least one of baseLocation or endLocation is required",
+  });
+
 // ===== Activity Schemas =====
 
+// How much the traveler wants an activity when the day cannot fit everything
+export const ActivityPrioritySchema = z.enum(["must", "want", "optional"]);
+
 export const ActivityInputSchema = z.object({
   place: PlaceSchema,
   durationMin: z.number().min(1),
   locked: z.boolean(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(), // omit to let the planner pick a day
+  openingHours: z.array(OpeningPeriodSchema).optional(), // entered by hand; overrides place.openingHours
+  earliestStart: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format").optional(),
+  latestEnd: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format").optional(),
+  pinnedStart: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format").nullable().optional(), // fixed appointment; null unpins
+  pinToleranceMin: z.number().int().min(0).optional(), // how late the start may slip past pinnedStart
+  priority: ActivityPrioritySchema.optional(), // defaults to "must" when pinned, otherwise "want"
 });
 
 export const ActivitySchema = z.object({
@@ -62,6 +133,13 @@ export const ActivitySchema = z.object({
   place: PlaceSchema,
   durationMin: z.number(),
   locked: z.boolean(),
+  date: z.string().optional(),
+  openingHours: z.array(OpeningPeriodSchema).optional(),
+  earliestStart: z.string().optional(),
+  latestEnd: z.string().optional(),
+  pinnedStart: z.string().optional(),
+  pinToleranceMin: z.number().optional(),
+  priority: ActivityPrioritySchema.optional(),
   addedAt: z.string(),
 });
 
@@ -72,32 +150,299 @@ export const AddActivitiesRequestSchema = z.object({
 export const AddActivitiesResponseSchema = z.object({
   ok: z.boolean(),
   count: z.number(),
+  activities: z.array(ActivitySchema),
+});
+
+// Like ActivityInput, but every optional constraint can be cleared with null
+export const UpdateActivityRequestSchema = ActivityInputSchema.extend({
+  date: ActivityInputSchema.shape.date.unwrap().nullable(),
+  openingHours: z.array(OpeningPeriodSchema).nullable(),
+  earliestStart: ActivityInputSchema.shape.earliestStart.unwrap().nullable(),
+  latestEnd: ActivityInputSchema.shape.latestEnd.unwrap().nullable(),
+  pinToleranceMin: z.number().int().min(0).nullable(),
+  priority: ActivityPrioritySchema.nullable(),
+}).partial().refine(
+  (patch) => Object.keys(patch).length > 0,
+  "At least one activity field is required"
+);
+
+export const ActivityResponseSchema = z.object({
+  activity: ActivitySchema,
+});
+
+export const ReorderActivitiesRequestSchema = z.object({
+  activityIds: z.array(z.string()).min(1),
+});
+
+export const ListActivitiesResponseSchema = z.object({
+  activities: z.array(ActivitySchema),
 });
 
 // ===== Itinerary Schemas =====
 
+export const TravelModeSchema = z.enum(["driving", "walking", "transit"]);
+
+// Backend that supplies travel times and route shapes; haversine estimates work offline
+export const RoutingProviderNameSchema = z.enum(["mapbox", "osrm", "valhalla", "haversine"]);
+
 export const ItineraryItemSchema = z.object({
   activityId: z.string(),
   placeName: z.string(),
   startTime: z.string(), // HH:mm
   endTime: z.string(), // HH:mm
   travelFromPrevMin: z.number(),
+  travelMode: TravelModeSchema.optional(), // how the leg into this stop is travelled
+  waitMin: z.number().optional(), // idle time before startTime, e.g. waiting for opening
+  pinned: z.boolean().optional(), // startTime is a fixed appointment
+  bufferMin: z.number().optional(), // transition time added by the trip's pace
+  estimatedCost: z.number().optional(), // per person in USD, from the place's price tier
+  systemAdded: z.boolean().optional(), // inserted by the planner, not one of the trip's activities
+  breakKind: z.enum(["meal", "rest"]).optional(), // set on system-added breaks
+  location: LatLngSchema.optional(), // where a system-added meal happens
+  completed: z.boolean().optional(), // done before a replan, or already behind a late traveler; never moved again
+});
+
+// Why the planner left an activity out of the day
+export const UnscheduledReasonSchema = z.enum([
+  "closed", // no opening hours on this day
+  "outside_time_window", // open, but no legal start fits its hours or earliestStart/latestEnd
+  "over_time", // dropped so the day finishes by the trip's endTime
+  "avoided_category", // category matches the trip's avoid preferences
+  "pace_limit", // the day already has as many stops as the trip's pace allows
+]);
+
+export const UnscheduledActivitySchema = z.object({
+  activityId: z.string(),
+  placeName: z.string(),
+  reason: UnscheduledReasonSchema,
+  priority: ActivityPrioritySchema.optional(), // effective priority when the planner chose to leave it out
+  extraTimeMin: z.number().optional(), // how much later the day would have to end to fit it in
+});
+
+// A pinned activity the plan cannot reach in time; it is kept, starting late
+export const PinConflictSchema = z.object({
+  activityId: z.string(),
+  placeName: z.string(),
+  pinnedStart: z.string(), // HH:mm
+  scheduledStart: z.string(), // HH:mm, the earliest the route gets there
+  lateMin: z.number(),
+});
+
+// How the trip's pace and budget preferences shaped the plan
+export const PreferenceEffectsSchema = z.object({
+  pace: z.object({
+    pace: PaceSchema,
+    durationScale: z.number(), // applied to every unpinned activity
+    bufferMin: z.number(), // between consecutive stops
+    maxStops: z.number(),
+    restEveryMin: z.number(), // visiting time before a rest break
+    restMin: z.number(), // 0 when the pace adds no rest breaks
+    droppedCount: z.number(), // stops left out because of maxStops
+  }),
+  budget: z.object({
+    budget: BudgetSchema,
+    maxPriceTier: z.number(),
+    estimatedTotalCost: z.number(), // per person in USD, over items with a known price tier
+    overBudgetActivityIds: z.array(z.string()), // kept, but priced above maxPriceTier
+  }),
+});
+
+// How the visiting order was chosen; travel minutes follow the duration matrix
+export const ItineraryOptimizationSchema = z.object({
+  algorithm: z.string(),
+  greedyTravelMin: z.number(), // nearest-neighbour starting tour
+  optimizedTravelMin: z.number(),
+  improvementMin: z.number(), // greedyTravelMin - optimizedTravelMin
+  converged: z.boolean(), // false when the pass limit or time budget ran out first
+  timedOut: z.boolean().optional(), // the time budget cut the search short, so the order may vary between runs
+  routingProvider: RoutingProviderNameSchema.optional(), // where the duration matrix came from
 });
 
 export const ItinerarySchema = z.object({
   items: z.array(ItineraryItemSchema),
-  totalTravelMin: z.number(),
+  totalTravelMin: z.number(), // includes returnTravelMin
+  returnTravelMin: z.number().optional(), // last stop back to the trip's end location
+  returnTravelMode: TravelModeSchema.optional(),
+  optimization: ItineraryOptimizationSchema.optional(), // absent when the order was not optimized
+  unscheduled: z.array(UnscheduledActivitySchema).optional(), // activities left out of the day, with the reason
+  pinConflicts: z.array(PinConflictSchema).optional(),
+  preferenceEffects: PreferenceEffectsSchema.optional(),
+  replannedFrom: z
+    .object({
+      time: z.string(), // HH:mm the items after the completed ones are planned from
+      location: LatLngSchema, // where the traveler was at that time
+    })
+    .optional(), // set when the rest of the day was re-planned mid-trip
+});
+
+// A meal break the planner fits inside [start, end]
+export const MealWindowSchema = z.object({
+  start: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
+  end: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:mm format"),
+  durationMin: z.number().int().positive(),
+});
+
+export const BreakOptionsSchema = z.object({
+  meals: z.boolean().default(true),
+  rest: z.boolean().default(true), // rest gaps according to the trip's pace
+  lunch: MealWindowSchema.optional(), // defaults from PLANNER_LUNCH_WINDOW
+  dinner: MealWindowSchema.optional(), // defaults from PLANNER_DINNER_WINDOW
+});
+
+// Limits for "smart" mode, where every leg picks its own travel mode
+export const SmartModeOptionsSchema = z.object({
+  maxWalkKm: z.number().positive().optional(), // longest leg walked; defaults from PLANNER_MAX_WALK_KM
+  modes: z.array(TravelModeSchema).min(1).optional(), // modes legs may use; all by default
 });
 
 export const GenerateItineraryRequestSchema = z.object({
-  mode: z.enum(["driving", "walking", "transit"]), // Required - no default
-  startLocation: LatLngSchema.optional(),
+  mode: z.enum(["driving", "walking", "transit", "smart"]), // Required - no default; "smart" picks per leg
+  smartMode: SmartModeOptionsSchema.optional(),
+  routingProvider: RoutingProviderNameSchema.optional(), // defaults by city, then ROUTING_PROVIDER
+  startLocation: LatLngSchema.optional(), // overrides the trip's baseLocation
+  endLocation: LatLngSchema.optional(), // overrides the trip's endLocation
   optimizeOrder: z.boolean().default(true), // Keep this default - optimization is recommended
+  date: z.string().optional(), // generate a single day; omit to plan every day
+  breaks: BreakOptionsSchema.optional(), // meal and rest breaks; on by default
 });
 
 export const GenerateItineraryResponseSchema = z.object({
   version: z.number(),
   itinerary: ItinerarySchema,
+  date: z.string(),
+  days: z
+    .array(
+      z.object({
+        date: z.string(),
+        version: z.number(),
+        itinerary: ItinerarySchema,
+      })
+    )
+    .optional(), // every generated day when no single date was requested
+});
+
+// ===== Plan Alternative Schemas =====
+
+// What a candidate plan was optimized for
+export const PlanObjectiveSchema = z.enum([
+  "fastest", // least travel time in the requested mode
+  "balanced", // travel weighed against the day's signals, as generated plans are
+  "least_walking", // walking legs replaced by transit or driving
+  "indoor_first", // outdoor stops kept out of rain risk hours
+  "least_crowded", // stops kept out of their peak hours
+]);
+
+// How a candidate plan scores; lower is better except scheduledCount
+export const PlanScoreSchema = z.object({
+  travelMin: z.number(), // including the return leg
+  waitingMin: z.number(), // idle time before stops, e.g. waiting for rain to pass
+  walkingKm: z.number(), // straight-line length of walked legs
+  weatherExposureMin: z.number(), // outdoor visiting and walking minutes inside rain risk hours
+  crowdedMin: z.number(), // visiting minutes inside the place's peak hours
+  scheduledCount: z.number(), // the traveler's activities the plan visits
+});
+
+export const PlanCandidateSchema = z.object({
+  candidateId: z.string(),
+  objective: PlanObjectiveSchema,
+  itinerary: ItinerarySchema,
+  score: PlanScoreSchema,
+  tradeoffs: z.array(z.string()), // differences from the first candidate, e.g. "+10 min travel"
+});
+
+export const GenerateAlternativesRequestSchema = GenerateItineraryRequestSchema.extend({
+  date: z.string().optional(), // defaults to the first day
+});
+
+export const GenerateAlternativesResponseSchema = z.object({
+  date: z.string(),
+  baseVersion: z.number().optional(), // latest version when the candidates were planned
+  candidates: z.array(PlanCandidateSchema), // Pareto-distinct, fastest first when it is not dominated
+});
+
+// ===== Itinerary Version Schemas =====
+
+// How an itinerary version came to exist
+export const ItinerarySourceSchema = z.object({
+  type: z.enum(["generated", "suggestion", "manual", "rollback", "alternative", "replan"]),
+  suggestionId: z.string().optional(), // set when type is "suggestion"
+  objective: PlanObjectiveSchema.optional(), // set when type is "alternative"
+  fromVersion: z.number().int().positive().optional(), // set when type is "rollback"
+});
+
+export const ItineraryVersionSchema = z.object({
+  version: z.number(),
+  date: z.string(), // trip day this version plans
+  itinerary: ItinerarySchema,
+  generatedAt: z.string(),
+  source: ItinerarySourceSchema,
+});
+
+export const ListItineraryVersionsResponseSchema = z.object({
+  versions: z.array(ItineraryVersionSchema),
+});
+
+export const RollbackItineraryRequestSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const RollbackItineraryResponseSchema = z.object({
+  version: z.number(),
+  date: z.string(),
+  itinerary: ItinerarySchema,
+  source: ItinerarySourceSchema,
+});
+
+export const RemoveBreakResponseSchema = z.object({
+  version: z.number(),
+  date: z.string(),
+  itinerary: ItinerarySchema,
+  source: ItinerarySourceSchema,
+});
+
+export const SelectAlternativeResponseSchema = z.object({
+  version: z.number(),
+  date: z.string(),
+  itinerary: ItinerarySchema,
+  source: ItinerarySourceSchema,
+});
+
+// Re-plan what is left of today from where the traveler is now
+export const ReplanItineraryRequestSchema = GenerateItineraryRequestSchema.pick({
+  mode: true,
+  smartMode: true,
+  routingProvider: true,
+  endLocation: true,
+  breaks: true,
+}).extend({
+  now: z.string().datetime().optional(), // defaults to the server clock; its UTC date picks the trip day
+  currentLocation: LatLngSchema,
+  completedActivityIds: z.array(z.string()).default([]),
+});
+
+export const ReplanItineraryResponseSchema = z.object({
+  version: z.number(),
+  date: z.string(),
+  itinerary: ItinerarySchema,
+  source: ItinerarySourceSchema,
+});
+
+// One leg of a day's route, from the previous stop (or the start location) to the next
+export const RouteLegSchema = z.object({
+  fromActivityId: z.string().optional(), // absent when leaving the start location
+  toActivityId: z.string().optional(), // absent when returning to the end location
+  mode: TravelModeSchema,
+  coordinates: z.array(z.tuple([z.number(), z.number()])), // [lng, lat] pairs
+  durationSec: z.number(),
+  distanceM: z.number(),
+  estimated: z.boolean().optional(), // straight line, because the provider could not route it
+});
+
+export const ItineraryRouteResponseSchema = z.object({
+  date: z.string(),
+  version: z.number(),
+  routingProvider: RoutingProviderNameSchema,
+  legs: z.array(RouteLegSchema),
 });
 
 // ===== Get Trip Response =====
@@ -108,10 +453,13 @@ export const GetTripResponseSchema = z.object({
   latestItinerary: z
     .object({
       version: z.number(),
+      date: z.string().optional(),
       itinerary: ItinerarySchema,
       generatedAt: z.string(),
+      source: ItinerarySourceSchema.optional(),
     })
-    .optional(),
+    .optional(), // first day
+  latestItineraries: z.array(ItineraryVersionSchema).optional(), // latest version of each planned day
 });
 
 // ===== Places Search Schemas =====
@@ -124,6 +472,7 @@ export const PlacesSearchRequestSchema = z.object({
   limit: z.number().int().positive().max(50).optional(),
   interests: z.array(z.string()).optional(), // e.g. ["history", "art", "food", "nature"]
   avoid: z.array(z.string()).optional(),      // e.g. ["no-food", "no-nature"]
+  budget: BudgetSchema.optional(),             // drops places priced above it, cheapest-fitting first
 });
 
 export const PlacesSearchResponseSchema = z.object({
@@ -139,6 +488,7 @@ export const SignalWeatherSchema = z.object({
 
 export const UpsertWeatherSignalRequestSchema = z.object({
   observedAt: z.string(),
+  date: z.string().optional(), // trip day; defaults to the first day
   weather: z.object({
     summary: z.string(),
     riskHours: z.array(z.string()),
@@ -157,6 +507,7 @@ export const CrowdSignalItemSchema = z.object({
 
 export const UpsertCrowdSignalRequestSchema = z.object({
   observedAt: z.string(),
+  date: z.string().optional(), // trip day; defaults to the first day
   crowds: z.array(CrowdSignalItemSchema),
   raw: z.any().optional(),
 });
@@ -174,11 +525,13 @@ export const TransitSignalSchema = z.object({
 
 export const UpsertTransitSignalRequestSchema = z.object({
   observedAt: z.string(),
+  date: z.string().optional(), // trip day; defaults to the first day
   transit: TransitSignalSchema,
   raw: z.any().optional(),
 });
 
 export const SignalsResponseSchema = z.object({
+  date: z.string().optional(), // trip day these signals apply to
   weather: SignalWeatherSchema,
   crowds: z.array(CrowdSignalItemSchema).optional(),
   transit: TransitSignalSchema.optional(),
@@ -203,13 +556,13 @@ export const SignalsResponseSchema = z.object({
 
 // ===== Suggestion Schemas =====
 
-export const SuggestionStatusSchema = z.enum(["pending", "accepted", "rejected", "applied"]);
+export const SuggestionStatusSchema = z.enum(["pending", "accepted", "rejected", "applied", "superseded"]);
 export type SuggestionStatus = z.infer<typeof SuggestionStatusSchema>;
 
 export const SuggestionKindSchema = z.enum(["reorder", "swap", "shift"]);
 export type SuggestionKind = z.infer<typeof SuggestionKindSchema>;
 
-export const SuggestionTriggerSchema = z.enum(["weather", "crowds", "transit", "traffic", "mixed"]);
+export const SuggestionTriggerSchema = z.enum(["weather", "crowds", "transit", "traffic", "delay", "mixed"]);
 export type SuggestionTrigger = z.infer<typeof SuggestionTriggerSchema>;
 
 export const SuggestionDiffSchema = z.object({
@@ -222,6 +575,20 @@ export const SuggestionDiffSchema = z.object({
     fromPlace: z.string(),
     toPlace: z.string(),
   })),
+  added: z.array(z.object({
+    placeName: z.string(),
+    startTime: z.string(),
+  })).optional(),
+  removed: z.array(z.object({
+    placeName: z.string(),
+    startTime: z.string(),
+  })).optional(),
+  durationChanged: z.array(z.object({
+    placeName: z.string(),
+    fromMin: z.number(),
+    toMin: z.number(),
+  })).optional(),
+  travelDeltaMin: z.number().optional(), // after minus before; negative means less travel
   summary: z.string(),
 });
 export type SuggestionDiff = z.infer<typeof SuggestionDiffSchema>;
@@ -231,6 +598,7 @@ export const SuggestionImpactSchema = z.object({
   weatherRiskReduced: z.number().optional(),
   crowdReduced: z.number().optional(),
   delayAvoidedMin: z.number().optional(),
+  lateMin: z.number().optional(), // how far behind plan the traveler was, for delay shifts
 });
 export type SuggestionImpact = z.infer<typeof SuggestionImpactSchema>;
 
@@ -245,12 +613,13 @@ export const SuggestionSchema = z.object({
   kind: SuggestionKindSchema,
   status: SuggestionStatusSchema.default("pending"),
   createdAt: z.string(),
+  date: z.string().optional(), // trip day the suggestion changes; first day when absent
   trigger: SuggestionTriggerSchema.default("mixed"),
   reasons: z.array(z.string()),
   confidence: z.number().min(0).max(1),
   impact: SuggestionImpactSchema.optional(),
   beforePlan: SuggestionPlanSchema,
-  afterPlan: SuggestionPlanSchema,
+  afterPlan: SuggestionPlanSchema.partial({ version: true }), // version is the one applying it created
   diff: SuggestionDiffSchema.optional(),
 });
 
@@ -258,6 +627,51 @@ export const ListSuggestionsResponseSchema = z.object({
   suggestions: z.array(SuggestionSchema),
 });
 
+// ===== Trip Progress Schemas =====
+
+// A trip activity the traveler checked in to, with what actually happened
+export const ActivityVisitSchema = z.object({
+  activityId: z.string(),
+  date: z.string(), // trip day of the visit
+  checkedInAt: z.string(), // ISO timestamp
+  checkedOutAt: z.string().optional(),
+  plannedStart: z.string().optional(), // HH:mm in the itinerary at check-in; absent when the stop was not planned
+  plannedEnd: z.string().optional(),
+  actualDurationMin: z.number().int().min(0).optional(), // set on check-out
+  category: z.string().optional(), // the place's category, so visit lengths can be learned per category
+});
+
+export const LocationPingSchema = z.object({
+  location: LatLngSchema,
+  recordedAt: z.string(), // ISO timestamp
+});
+
+export const CheckInRequestSchema = z.object({
+  at: z.string().datetime().optional(), // defaults to the server clock
+});
+
+export const CheckOutRequestSchema = CheckInRequestSchema;
+
+export const LocationPingRequestSchema = z.object({
+  location: LatLngSchema,
+  at: z.string().datetime().optional(), // defaults to the server clock
+});
+
+// How the traveler is doing against a day's latest itinerary
+export const TripProgressSchema = z.object({
+  date: z.string(),
+  version: z.number().optional(), // itinerary version compared against
+  currentActivityId: z.string().optional(), // checked in and not yet out
+  lateMin: z.number(), // behind the plan; 0 when on time or ahead
+  lastPing: LocationPingSchema.optional(),
+  visits: z.array(ActivityVisitSchema),
+});
+
+export const TripProgressResponseSchema = z.object({
+  progress: TripProgressSchema,
+  suggestion: SuggestionSchema.optional(), // shift raised because the traveler is running late
+});
+
 // ===== Feedback Schemas =====
 
 export const FeedbackRequestSchema = z.object({
@@ -282,30 +696,126 @@ export const FeedbackResponseSchema = z.object({
 });
 export type FeedbackResponse = z.infer<typeof FeedbackResponseSchema>;
 
+// ===== Itinerary Diff Response =====
+
+export const ItineraryDiffResponseSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  diff: SuggestionDiffSchema,
+});
+export type ItineraryDiffResponse = z.infer<typeof ItineraryDiffResponseSchema>;
+
 // ===== Apply Suggestion Response =====
 
 export const ApplySuggestionResponseSchema = z.object({
   version: z.number(),
+  date: z.string().optional(),
   itinerary: ItinerarySchema,
 });
 export type ApplySuggestionResponse = z.infer<typeof ApplySuggestionResponseSchema>;
 
+// ===== Itinerary Validation Schemas =====
+
+export const ItineraryIssueCodeSchema = z.enum([
+  "unknown_activity", // neither one of the trip's activities nor a system-added break
+  "duplicate_activity", // visited more than once in the day
+  "invalid_times", // ends before it starts
+  "before_trip_start",
+  "after_trip_end", // the day, or the way back to the end location, runs past the trip's endTime; only a warning for delay shifts
+  "closed", // the place has opening hours, but none on this day
+  "outside_opening_hours",
+  "outside_time_window", // starts before earliestStart or ends after latestEnd
+  "pin_missed", // does not start at pinnedStart, or within pinToleranceMin after it
+  "locked_moved", // a locked activity is not where the replaced version had it
+  "locked_removed",
+  "overlap", // starts before the previous item ends
+  "not_enough_travel_time", // the gap since the previous item is shorter than its travel and buffer
+  "unrealistic_travel_time", // the travel time is far below what the distance takes
+  "avoided_category", // category matches the trip's avoid preferences
+]);
+
+export const ItineraryIssueSchema = z.object({
+  activityId: z.string().optional(), // absent when the issue is with the day as a whole
+  code: ItineraryIssueCodeSchema,
+  message: z.string(),
+});
+
+// Errors make a plan infeasible and keep it from being saved; warnings do not
+export const ItineraryValidationSchema = z.object({
+  valid: z.boolean(), // no errors
+  errors: z.array(ItineraryIssueSchema),
+  warnings: z.array(ItineraryIssueSchema),
+});
+
+// Validate the day's latest itinerary (nothing else given), a suggestion's plan, or an edited itinerary
+export const ValidateItineraryRequestSchema = z
+  .object({
+    date: z.string().optional(), // defaults to the first day; a suggestion's own day wins
+    suggestionId: z.string().optional(),
+    itinerary: ItinerarySchema.optional(),
+  })
+  .refine((data) => data.suggestionId === undefined || data.itinerary === undefined, {
+    message: "Pass either suggestionId or itinerary, not both",
+  });
+
+export const ValidateItineraryResponseSchema = ItineraryValidationSchema.extend({
+  date: z.string(),
+  version: z.number().optional(), // the latest version: the one validated, or the one the plan would replace
+});
+
 // ===== Inferred TypeScript Types =====
 
 export type LatLng = z.infer<typeof LatLngSchema>;
+export type OpeningPeriod = z.infer<typeof OpeningPeriodSchema>;
 export type Place = z.infer<typeof PlaceSchema>;
+export type Pace = z.infer<typeof PaceSchema>;
+export type Budget = z.infer<typeof BudgetSchema>;
 export type TripPreferences = z.infer<typeof TripPreferencesSchema>;
+export type TripDay = z.infer<typeof TripDaySchema>;
+export type TripLocation = z.infer<typeof TripLocationSchema>;
 export type CreateTripRequest = z.infer<typeof CreateTripRequestSchema>;
 export type CreateTripResponse = z.infer<typeof CreateTripResponseSchema>;
 export type Trip = z.infer<typeof TripSchema>;
+export type UpdateTripLocationsRequest = z.infer<typeof UpdateTripLocationsRequestSchema>;
+export type ActivityPriority = z.infer<typeof ActivityPrioritySchema>;
 export type ActivityInput = z.infer<typeof ActivityInputSchema>;
 export type Activity = z.infer<typeof ActivitySchema>;
 export type AddActivitiesRequest = z.infer<typeof AddActivitiesRequestSchema>;
 export type AddActivitiesResponse = z.infer<typeof AddActivitiesResponseSchema>;
+export type UpdateActivityRequest = z.infer<typeof UpdateActivityRequestSchema>;
+export type ActivityResponse = z.infer<typeof ActivityResponseSchema>;
+export type ReorderActivitiesRequest = z.infer<typeof ReorderActivitiesRequestSchema>;
+export type ListActivitiesResponse = z.infer<typeof ListActivitiesResponseSchema>;
+export type TravelMode = z.infer<typeof TravelModeSchema>;
+export type RoutingProviderName = z.infer<typeof RoutingProviderNameSchema>;
 export type ItineraryItem = z.infer<typeof ItineraryItemSchema>;
+export type ItineraryOptimization = z.infer<typeof ItineraryOptimizationSchema>;
+export type UnscheduledReason = z.infer<typeof UnscheduledReasonSchema>;
+export type UnscheduledActivity = z.infer<typeof UnscheduledActivitySchema>;
+export type PinConflict = z.infer<typeof PinConflictSchema>;
+export type PreferenceEffects = z.infer<typeof PreferenceEffectsSchema>;
 export type Itinerary = z.infer<typeof ItinerarySchema>;
+export type MealWindow = z.infer<typeof MealWindowSchema>;
+export type BreakOptions = z.infer<typeof BreakOptionsSchema>;
+export type SmartModeOptions = z.infer<typeof SmartModeOptionsSchema>;
 export type GenerateItineraryRequest = z.infer<typeof GenerateItineraryRequestSchema>;
 export type GenerateItineraryResponse = z.infer<typeof GenerateItineraryResponseSchema>;
+export type PlanObjective = z.infer<typeof PlanObjectiveSchema>;
+export type PlanScore = z.infer<typeof PlanScoreSchema>;
+export type PlanCandidate = z.infer<typeof PlanCandidateSchema>;
+export type GenerateAlternativesRequest = z.infer<typeof GenerateAlternativesRequestSchema>;
+export type GenerateAlternativesResponse = z.infer<typeof GenerateAlternativesResponseSchema>;
+export type ItinerarySource = z.infer<typeof ItinerarySourceSchema>;
+export type ItineraryVersion = z.infer<typeof ItineraryVersionSchema>;
+export type ListItineraryVersionsResponse = z.infer<typeof ListItineraryVersionsResponseSchema>;
+export type RollbackItineraryRequest = z.infer<typeof RollbackItineraryRequestSchema>;
+export type RollbackItineraryResponse = z.infer<typeof RollbackItineraryResponseSchema>;
+export type RemoveBreakResponse = z.infer<typeof RemoveBreakResponseSchema>;
+export type SelectAlternativeResponse = z.infer<typeof SelectAlternativeResponseSchema>;
+export type ReplanItineraryRequest = z.infer<typeof ReplanItineraryRequestSchema>;
+export type ReplanItineraryResponse = z.infer<typeof ReplanItineraryResponseSchema>;
+export type RouteLeg = z.infer<typeof RouteLegSchema>;
+export type ItineraryRouteResponse = z.infer<typeof ItineraryRouteResponseSchema>;
 export type GetTripResponse = z.infer<typeof GetTripResponseSchema>;
 export type PlacesSearchRequest = z.infer<typeof PlacesSearchRequestSchema>;
 export type PlacesSearchResponse = z.infer<typeof PlacesSearchResponseSchema>;
@@ -321,4 +831,16 @@ export type CommunitySignalReport = NonNullable<SignalsResponse["community"]>["r
 export type CommunitySignals = NonNullable<SignalsResponse["community"]>;
 export type Suggestion = z.infer<typeof SuggestionSchema>;
 export type ListSuggestionsResponse = z.infer<typeof ListSuggestionsResponseSchema>;
+export type ActivityVisit = z.infer<typeof ActivityVisitSchema>;
+export type LocationPing = z.infer<typeof LocationPingSchema>;
+export type CheckInRequest = z.infer<typeof CheckInRequestSchema>;
+export type CheckOutRequest = z.infer<typeof CheckOutRequestSchema>;
+export type LocationPingRequest = z.infer<typeof LocationPingRequestSchema>;
+export type TripProgress = z.infer<typeof TripProgressSchema>;
+export type TripProgressResponse = z.infer<typeof TripProgressResponseSchema>;
+export type ItineraryIssueCode = z.infer<typeof ItineraryIssueCodeSchema>;
+export type ItineraryIssue = z.infer<typeof ItineraryIssueSchema>;
+export type ItineraryValidation = z.infer<typeof ItineraryValidationSchema>;
+export type ValidateItineraryRequest = z.infer<typeof ValidateItineraryRequestSchema>;
+export type ValidateItineraryResponse = z.infer<typeof ValidateItineraryResponseSchema>;
 